@@ -3,10 +3,21 @@
 // ---------------------------------------------------------------------------
 
 import type { LanguageProfile } from "./schema/profile.js";
-import type { Token } from "./types/token.js";
-import type { CodeSymbol } from "./types/tree.js";
+import type { Token, TokenizeOptions, TokenizeResult } from "./types/token.js";
+import type { CodeSymbol, CodeSymbolNode, SyntaxNode } from "./types/tree.js";
+import type { Diagnostic } from "./types/diagnostic.js";
+import type { FoldingRange } from "./types/folding.js";
 import { tokenizeWithConfig } from "./lexer/lexer.js";
-import { extractSymbolsFromProfile } from "./parser/structure-parser.js";
+import { LineTokenizer } from "./lexer/line-tokenizer.js";
+import { iterateTokens } from "./lexer/token-stream.js";
+import {
+  extractSymbolsFromProfile,
+  extractSymbolTreeFromProfile,
+} from "./parser/structure-parser.js";
+import { getFoldingRangesFromProfile } from "./parser/folding.js";
+import { parseFromProfile, type ParseOptions } from "./parser/grammar-parser.js";
+import { validateFromProfile } from "./parser/validator.js";
+import { queryFromProfile, type Query, type QueryCapture } from "./query/query.js";
 import { getProfile as getProfileFromRegistry } from "./profiles/index.js";
 
 // ======================== PUBLIC API ========================
@@ -16,11 +27,55 @@ import { getProfile as getProfileFromRegistry } from "./profiles/index.js";
  *
  * @param source - The source code to tokenize
  * @param language - Language name (e.g., 'typescript') or file extension (e.g., '.ts')
- * @returns Array of tokens with type, value, category, and position
+ * @param options - Pass `{ diagnostics: true }` to also get lexer diagnostics
+ * @returns Array of tokens with type, value, category, and position, or
+ *   `{ tokens, diagnostics }` when diagnostics are requested
  */
-export function tokenize(source: string, language: string): Token[] {
+export function tokenize(source: string, language: string): Token[];
+export function tokenize(
+  source: string,
+  language: string,
+  options: TokenizeOptions & { diagnostics: true },
+): TokenizeResult;
+export function tokenize(
+  source: string,
+  language: string,
+  options?: TokenizeOptions,
+): Token[] | TokenizeResult;
+export function tokenize(
+  source: string,
+  language: string,
+  options?: TokenizeOptions,
+): Token[] | TokenizeResult {
+  const profile = resolveLanguage(language);
+  return tokenizeWithConfig(source, profile.lexer, options);
+}
+
+/**
+ * Tokenize source code lazily, for inputs too large to hold all tokens at once.
+ *
+ * @param source - The source code to tokenize
+ * @param language - Language name or file extension
+ * @returns Generator yielding the same tokens as tokenize(), in order
+ */
+export function tokenizeIter(
+  source: string,
+  language: string,
+): Generator<Token, void, undefined> {
+  const profile = resolveLanguage(language);
+  return iterateTokens(source, profile.lexer);
+}
+
+/**
+ * Create a tokenizer for editors that tokenize one line at a time.
+ * Start with `initialState` and pass each line's `endState` to the next line.
+ *
+ * @param language - Language name or file extension
+ * @returns A LineTokenizer for the language's lexer
+ */
+export function createLineTokenizer(language: string): LineTokenizer {
   const profile = resolveLanguage(language);
-  return tokenizeWithConfig(source, profile.lexer);
+  return new LineTokenizer(profile.lexer);
 }
 
 /**
@@ -44,13 +99,40 @@ export function extractSymbols(
  *
  * @param source - The source code to tokenize
  * @param profile - The language profile to use
- * @returns Array of tokens
+ * @param options - Pass `{ diagnostics: true }` to also get lexer diagnostics
+ * @returns Array of tokens, or `{ tokens, diagnostics }` when diagnostics are requested
  */
+export function tokenizeWithProfile(source: string, profile: LanguageProfile): Token[];
+export function tokenizeWithProfile(
+  source: string,
+  profile: LanguageProfile,
+  options: TokenizeOptions & { diagnostics: true },
+): TokenizeResult;
 export function tokenizeWithProfile(
   source: string,
   profile: LanguageProfile,
-): Token[] {
-  return tokenizeWithConfig(source, profile.lexer);
+  options?: TokenizeOptions,
+): Token[] | TokenizeResult;
+export function tokenizeWithProfile(
+  source: string,
+  profile: LanguageProfile,
+  options?: TokenizeOptions,
+): Token[] | TokenizeResult {
+  return tokenizeWithConfig(source, profile.lexer, options);
+}
+
+/**
+ * Tokenize source code lazily using a specific language profile.
+ *
+ * @param source - The source code to tokenize
+ * @param profile - The language profile to use
+ * @returns Generator yielding tokens in order
+ */
+export function tokenizeIterWithProfile(
+  source: string,
+  profile: LanguageProfile,
+): Generator<Token, void, undefined> {
+  return iterateTokens(source, profile.lexer);
 }
 
 /**
@@ -67,6 +149,166 @@ export function extractSymbolsWithProfile(
   return extractSymbolsFromProfile(source, profile);
 }
 
+/**
+ * Extract code symbols as a tree: symbols inside another symbol's content
+ * (e.g. methods in a class) are its `children` and have its name as
+ * `containerName`.
+ *
+ * @param source - The source code to analyze
+ * @param language - Language name or file extension
+ * @returns Top-level symbols in source order
+ */
+export function extractSymbolTree(
+  source: string,
+  language: string,
+): CodeSymbolNode[] {
+  const profile = resolveLanguage(language);
+  return extractSymbolTreeFromProfile(source, profile);
+}
+
+/**
+ * Extract a symbol tree using a specific language profile.
+ *
+ * @param source - The source code to analyze
+ * @param profile - The language profile to use
+ * @returns Top-level symbols in source order
+ */
+export function extractSymbolTreeWithProfile(
+  source: string,
+  profile: LanguageProfile,
+): CodeSymbolNode[] {
+  return extractSymbolTreeFromProfile(source, profile);
+}
+
+/**
+ * Compute folding ranges for editors: multi-line blocks and comments,
+ * runs of imports, and the regions of the profile's folding rules
+ * (e.g. `//#region` ... `//#endregion`).
+ *
+ * @param source - The source code to analyze
+ * @param language - Language name or file extension
+ * @returns Ranges sorted by start line, at most one per start line
+ */
+export function getFoldingRanges(
+  source: string,
+  language: string,
+): FoldingRange[] {
+  const profile = resolveLanguage(language);
+  return getFoldingRangesFromProfile(source, profile);
+}
+
+/**
+ * Compute folding ranges using a specific language profile.
+ *
+ * @param source - The source code to analyze
+ * @param profile - The language profile to use
+ * @returns Ranges sorted by start line
+ */
+export function getFoldingRangesWithProfile(
+  source: string,
+  profile: LanguageProfile,
+): FoldingRange[] {
+  return getFoldingRangesFromProfile(source, profile);
+}
+
+/**
+ * Parse source code into a syntax tree.
+ * Requires the language profile to have a grammar (Level 3).
+ *
+ * @param source - The source code to parse
+ * @param language - Language name or file extension
+ * @param options - `{ trivia: true }` attaches whitespace and comments to the leaves; `{ memoize: false }` turns off packrat memoization
+ * @returns Root SyntaxNode (with ERROR / MISSING nodes for syntax errors), or null if the language has no grammar
+ */
+export function parse(
+  source: string,
+  language: string,
+  options?: ParseOptions,
+): SyntaxNode | null {
+  const profile = resolveLanguage(language);
+  return parseFromProfile(source, profile, options);
+}
+
+/**
+ * Parse source code using a specific language profile.
+ *
+ * @param source - The source code to parse
+ * @param profile - The language profile to use
+ * @param options - Per-parse options (e.g. trivia, memoize)
+ * @returns Root SyntaxNode, or null if the profile has no grammar
+ */
+export function parseWithProfile(
+  source: string,
+  profile: LanguageProfile,
+  options?: ParseOptions,
+): SyntaxNode | null {
+  return parseFromProfile(source, profile, options);
+}
+
+/**
+ * Check source code for syntax problems.
+ * Combines lexer errors, unbalanced blocks (Level 2) and grammar errors
+ * (Level 3) as far as the language profile supports them.
+ *
+ * @param source - The source code to validate
+ * @param language - Language name or file extension
+ * @returns Diagnostics sorted by position (empty if none were found)
+ */
+export function validate(source: string, language: string): Diagnostic[] {
+  const profile = resolveLanguage(language);
+  return validateFromProfile(source, profile);
+}
+
+/**
+ * Check source code for syntax problems using a specific language profile.
+ *
+ * @param source - The source code to validate
+ * @param profile - The language profile to use
+ * @returns Diagnostics sorted by position
+ */
+export function validateWithProfile(
+  source: string,
+  profile: LanguageProfile,
+): Diagnostic[] {
+  return validateFromProfile(source, profile);
+}
+
+/**
+ * Run a tree-sitter style query over source code.
+ * Uses the Level 3 syntax tree when the language has a grammar, otherwise a
+ * node view of its Level 2 symbols, typed by symbol rule name
+ * (e.g. `(function_declaration name: (identifier) @name)`).
+ *
+ * @param source - The source code to query
+ * @param language - Language name or file extension
+ * @param pattern - Query source (S-expression patterns) or a compiled Query
+ * @returns Captures in document order (empty for Level 1 languages)
+ */
+export function query(
+  source: string,
+  language: string,
+  pattern: string | Query,
+): QueryCapture[] {
+  const profile = resolveLanguage(language);
+  return queryFromProfile(source, profile, pattern);
+}
+
+/**
+ * Run a tree-sitter style query using a specific language profile.
+ *
+ * @param source - The source code to query
+ * @param profile - The language profile to use
+ * @param pattern - Query source or a compiled Query
+ * @returns Captures in document order
+ */
+export function queryWithProfile(
+  source: string,
+  profile: LanguageProfile,
+  pattern: string | Query,
+): QueryCapture[] {
+  return queryFromProfile(source, profile, pattern);
+}
+
 // ======================== HELPERS ========================
 
 function resolveLanguage(language: string): LanguageProfile {
@@ -86,6 +328,7 @@ export type {
   CharClass,
   TokenCategory,
   SymbolKind,
+  FoldingRangeKind,
 } from "./schema/common.js";
 
 export type {
@@ -97,12 +340,15 @@ export type {
   StringMatcher,
   KeywordsMatcher,
   DelimitedMatcher,
+  DynamicDelimitedMatcher,
   LineMatcher,
   CharSequenceMatcher,
   NumberMatcher,
   SequenceMatcher,
   PatternMatcher,
   IndentationConfig,
+  KeywordPromotion,
+  PrecedingTokenCondition,
 } from "./schema/lexer.js";
 
 export type {
@@ -114,7 +360,14 @@ export type {
   TokenSkipStep,
   TokenOptionalStep,
   TokenAnyOfStep,
+  TokenRepeatStep,
+  TokenGroupStep,
   FoldingRule,
+  FoldingTokenMatch,
+  KeywordBlockConfig,
+  ParameterConfig,
+  DocumentationConfig,
+  DocCommentRule,
 } from "./schema/structure.js";
 
 export type {
@@ -138,11 +391,45 @@ export type {
 } from "./schema/profile.js";
 
 // Output types
-export type { Token } from "./types/token.js";
-export type { SyntaxNode, CodeSymbol } from "./types/tree.js";
+export type { Token, TokenizeOptions, TokenizeResult } from "./types/token.js";
+export type {
+  SyntaxNode,
+  CodeSymbol,
+  CodeSymbolNode,
+  SymbolParameter,
+  SymbolDocumentation,
+  DocumentedParameter,
+} from "./types/tree.js";
+export type { FoldingRange } from "./types/folding.js";
+export type {
+  Diagnostic,
+  DiagnosticSeverity,
+  DiagnosticSource,
+  LexerDiagnostic,
+  LexerDiagnosticCode,
+} from "./types/diagnostic.js";
 
 // Lexer internals (for advanced usage)
-export { CompiledLexer, getCompiledLexer } from "./lexer/lexer.js";
+export {
+  CompiledLexer,
+  getCompiledLexer,
+  type LexerCheckpoint,
+  type OpenDelimited,
+  type ScanOptions,
+} from "./lexer/lexer.js";
+export type { IndentState } from "./lexer/indentation.js";
+export {
+  IncrementalDocument,
+  type TextEdit,
+  type TokenChange,
+} from "./lexer/incremental.js";
+export {
+  LineTokenizer,
+  LineState,
+  type LineTokenizeResult,
+  type SerializedLineState,
+} from "./lexer/line-tokenizer.js";
+export { TokenizerStream } from "./lexer/token-stream.js";
 export { CharReader } from "./lexer/char-reader.js";
 export { compileMatcher } from "./lexer/matcher-compiler.js";
 export { compileCharClass } from "./lexer/char-classes.js";
@@ -150,6 +437,44 @@ export { compileCharClass } from "./lexer/char-classes.js";
 // Parser internals (for advanced usage)
 export { findBlockSpans, type BlockSpan } from "./parser/block-tracker.js";
 export { extractSymbolsFromTokens } from "./parser/structure-parser.js";
+export { buildSymbolHierarchy } from "./parser/symbol-hierarchy.js";
+export { getFoldingRangesFromTokens } from "./parser/folding.js";
+export {
+  GrammarParser,
+  getGrammarParser,
+  parseFromTokens,
+  type GrammarParserOptions,
+  type GrammarParseResult,
+  type ParseError,
+  type ParseOptions,
+  type ParseStats,
+} from "./parser/grammar-parser.js";
+export { validateTokens } from "./parser/validator.js";
+export {
+  analyzeGrammar,
+  type GrammarIssue,
+  type GrammarIssueKind,
+} from "./parser/grammar-analyzer.js";
+
+// Tree traversal
+export {
+  TreeCursor,
+  walk,
+  namedChildren,
+  descendantForRange,
+  namedDescendantForRange,
+  printTree,
+  type TreeVisitor,
+} from "./tree/index.js";
+
+// Queries
+export {
+  Query,
+  buildSymbolTree,
+  getQueryTree,
+  type QueryCapture,
+  type QueryMatch,
+} from "./query/index.js";
 
 // Profiles and registry
 export {
@@ -22,7 +22,7 @@ function buildTest(
   if ("predefined" in def) {
     switch (def.predefined) {
       case "letter":
-        return (ch) => /^[a-zA-Z\u00C0-\u024F]$/.test(ch);
+        return isLetter;
       case "upper":
         return (ch) => ch >= "A" && ch <= "Z";
       case "lower":
@@ -35,9 +35,7 @@ function buildTest(
           (ch >= "a" && ch <= "f") ||
           (ch >= "A" && ch <= "F");
       case "alphanumeric":
-        return (ch) =>
-          /^[a-zA-Z\u00C0-\u024F]$/.test(ch) ||
-          (ch >= "0" && ch <= "9");
+        return (ch) => isLetter(ch) || (ch >= "0" && ch <= "9");
       case "whitespace":
         return (ch) => ch === " " || ch === "\t";
       case "newline":
@@ -71,3 +69,36 @@ function buildTest(
   }
   throw new Error(`Unknown CharClass variant: ${JSON.stringify(def)}`);
 }
+
+/** a-z, A-Z and Latin-1 Supplement / Latin Extended letters (U+00C0-U+024F) */
+function isLetter(ch: string): boolean {
+  if (ch.length !== 1) return false;
+  const code = ch.charCodeAt(0);
+  return (
+    (code >= 0x61 && code <= 0x7a) ||
+    (code >= 0x41 && code <= 0x5a) ||
+    (code >= 0xc0 && code <= 0x24f)
+  );
+}
+
+/**
+ * Whether a CharClass can match a character outside ASCII. Conservative:
+ * negated classes are assumed to.
+ */
+export function matchesNonAscii(
+  def: CharClass,
+  charClasses: Record<string, CharClass> = {},
+): boolean {
+  if ("predefined" in def) {
+    return ["letter", "alphanumeric", "any"].includes(def.predefined);
+  }
+  if ("chars" in def) return [...def.chars].some((ch) => ch.charCodeAt(0) >= 0x80);
+  if ("range" in def) return def.range[1].charCodeAt(0) >= 0x80;
+  if ("union" in def) return def.union.some((c) => matchesNonAscii(c, charClasses));
+  if ("negate" in def) return true;
+  const resolved = charClasses[def.ref];
+  if (!resolved) {
+    throw new Error(`Unknown charClass reference: "${def.ref}"`);
+  }
+  return matchesNonAscii(resolved, charClasses);
+}
@@ -32,6 +32,11 @@ export class CharReader {
     return this.len - this.pos;
   }
 
+  /** Whether the reader is at the start of a line */
+  get atLineStart(): boolean {
+    return this.col === 0;
+  }
+
   /** Current position as Position object */
   get position(): Position {
     return { line: this.line, column: this.col, offset: this.pos };
@@ -79,13 +84,21 @@ export class CharReader {
     return ch;
   }
 
-  /** Advance N characters and return the consumed substring */
+  /** Advance N characters (a \r\n pair counts as two) and return the consumed substring */
   advanceN(n: number): string {
     const start = this.pos;
-    for (let i = 0; i < n && this.pos < this.len; i++) {
-      this.advance();
+    const end = Math.min(start + n, this.len);
+    const src = this.src;
+    while (this.pos < end) {
+      const code = src.charCodeAt(this.pos);
+      if (code === 10 || code === 13) {
+        this.advance();
+      } else {
+        this.pos++;
+        this.col++;
+      }
     }
-    return this.src.slice(start, this.pos);
+    return src.slice(start, this.pos);
   }
 
   /** Check if source starts with the given string at current position */
@@ -0,0 +1,111 @@
+// ---------------------------------------------------------------------------
+// First-character dispatch
+//
+// Most matchers can only succeed at a few characters: a string matcher at
+// the first characters of its values, an identifier at a letter. A
+// DispatchTable maps the character at the reader to the rules of a state
+// that can start there, so the lexer does not run every rule's scanner at
+// every position. Rules whose first character can't be analysed (pattern
+// and dynamicDelimited matchers) are candidates at every character.
+// ---------------------------------------------------------------------------
+
+import type { CharClass } from "../schema/common.js";
+import type { Matcher } from "../schema/lexer.js";
+import { compileCharClass, matchesNonAscii } from "./char-classes.js";
+
+/** Characters a matcher can start at, or null when any character might do */
+interface FirstChars {
+  /** Whether an ASCII character can start a match */
+  ascii: (ch: string) => boolean;
+  /** Whether some character outside ASCII can start a match */
+  nonAscii: boolean;
+}
+
+/** Slot of the table shared by all characters outside ASCII */
+const NON_ASCII = 128;
+
+/** Candidate rules per first character, in rule order */
+export class DispatchTable<T> {
+  private readonly slots: T[][];
+
+  constructor(
+    rules: readonly T[],
+    matcherOf: (rule: T) => Matcher,
+    charClasses: Record<string, CharClass>,
+  ) {
+    const firsts = rules.map((rule) => firstChars(matcherOf(rule), charClasses));
+    // Characters with the same candidates share one array
+    const shared = new Map<string, T[]>();
+    this.slots = [];
+    for (let code = 0; code <= NON_ASCII; code++) {
+      const ch = String.fromCharCode(code);
+      const indices: number[] = [];
+      firsts.forEach((first, i) => {
+        if (!first || (code === NON_ASCII ? first.nonAscii : first.ascii(ch))) {
+          indices.push(i);
+        }
+      });
+      const key = indices.join();
+      let candidates = shared.get(key);
+      if (!candidates) {
+        candidates = indices.map((i) => rules[i]);
+        shared.set(key, candidates);
+      }
+      this.slots.push(candidates);
+    }
+  }
+
+  /** Rules that can match at the character with UTF-16 code `code` */
+  candidates(code: number): T[] {
+    return this.slots[code < NON_ASCII ? code : NON_ASCII];
+  }
+}
+
+function firstChars(
+  matcher: Matcher,
+  charClasses: Record<string, CharClass>,
+): FirstChars | null {
+  switch (matcher.kind) {
+    case "string":
+      return ofStrings(typeof matcher.value === "string" ? [matcher.value] : matcher.value);
+    case "keywords": {
+      const chars = ofStrings(matcher.words);
+      if (!matcher.caseInsensitive) return chars;
+      // Case mapping can turn characters outside ASCII into ASCII letters
+      return {
+        ascii: (ch) => chars.ascii(ch.toLowerCase()) || chars.ascii(ch.toUpperCase()),
+        nonAscii: true,
+      };
+    }
+    case "delimited":
+      return ofStrings([matcher.open]);
+    case "line":
+      return ofStrings([matcher.start]);
+    case "charSequence":
+      return {
+        ascii: compileCharClass(matcher.first, charClasses),
+        nonAscii: matchesNonAscii(matcher.first, charClasses),
+      };
+    case "number":
+      // Decimal digits, `0x`-style prefixes, and `.5` for floats
+      return {
+        ascii: (ch) => (ch >= "0" && ch <= "9") || (matcher.float === true && ch === "."),
+        nonAscii: false,
+      };
+    case "sequence":
+      // Elements never match empty, so the first one starts the match
+      return matcher.elements.length > 0 ? firstChars(matcher.elements[0], charClasses) : null;
+    case "dynamicDelimited":
+    case "pattern":
+      return null;
+  }
+}
+
+/** Characters the non-empty strings start with */
+function ofStrings(values: string[]): FirstChars {
+  const chars = new Set(values.filter((v) => v.length > 0).map((v) => v[0]));
+  return {
+    ascii: (ch) => chars.has(ch),
+    nonAscii: [...chars].some((ch) => ch.charCodeAt(0) >= NON_ASCII),
+  };
+}
@@ -0,0 +1,234 @@
+// ---------------------------------------------------------------------------
+// Incremental Tokenization
+//
+// Keeps a document's token stream up to date across text edits without
+// rescanning the whole document. The lexer state stack (and indentation
+// levels) are snapshotted at every line start. After an edit, scanning
+// resumes from the last checkpoint before the edit and stops at the first
+// line start after it where offset and lexer state agree with an old
+// checkpoint; from there on the old tokens are reused with shifted positions.
+// How an unterminated multiline opener (`/*`, a heredoc) lexes depends on
+// the text after it, so an edit after one rescans from that opener.
+// ---------------------------------------------------------------------------
+
+import type { LexerConfig } from "../schema/lexer.js";
+import type { Token } from "../types/token.js";
+import {
+  CompiledLexer,
+  getCompiledLexer,
+  type LexerCheckpoint,
+} from "./lexer.js";
+import { sameIndentState } from "./indentation.js";
+
+/** Replace the source text in [start, end) with `text` */
+export interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/** Which tokens an edit replaced: `removed` old tokens at `start` became `inserted` new ones */
+export interface TokenChange {
+  start: number;
+  removed: number;
+  inserted: number;
+}
+
+/** Checkpoint plus the index of the token that starts there */
+interface IndexedCheckpoint extends LexerCheckpoint {
+  tokenIndex: number;
+}
+
+/** A document whose tokens are updated incrementally on edit */
+export class IncrementalDocument {
+  private readonly lexer: CompiledLexer;
+  private text: string;
+  private tokenList: Token[] = [];
+  private checkpoints: IndexedCheckpoint[] = [];
+  /** Offsets of multiline openers that are not closed, in source order */
+  private unterminated: number[] = [];
+
+  constructor(source: string, lexer: LexerConfig | CompiledLexer) {
+    this.lexer = lexer instanceof CompiledLexer ? lexer : getCompiledLexer(lexer);
+    this.text = source;
+
+    const start = { ...this.lexer.initialCheckpoint(), tokenIndex: 0 };
+    this.checkpoints.push(start);
+    this.lexer.scan(source, start, this.tokenList, {
+      onLineStart: (checkpoint) => {
+        this.checkpoints.push({ ...checkpoint, tokenIndex: this.tokenList.length });
+        return true;
+      },
+      onUnterminated: (offset) => this.unterminated.push(offset),
+    });
+  }
+
+  /** Current source text */
+  get source(): string {
+    return this.text;
+  }
+
+  /** Current token stream (do not mutate) */
+  get tokens(): readonly Token[] {
+    return this.tokenList;
+  }
+
+  /**
+   * Apply a text edit and re-tokenize the affected lines.
+   * Throws a RangeError if the edit range is outside the document.
+   */
+  edit(edit: TextEdit): TokenChange {
+    const { start, end, text } = edit;
+    if (start < 0 || end < start || end > this.text.length) {
+      throw new RangeError(
+        `Invalid edit range [${start}, ${end}) for document of length ${this.text.length}`,
+      );
+    }
+
+    const oldTokens = this.tokenList;
+    const oldCheckpoints = this.checkpoints;
+    const delta = text.length - (end - start);
+    const source = this.text.slice(0, start) + text + this.text.slice(end);
+    const editEnd = start + text.length;
+
+    // Resume from the last line start strictly before the edit, so the
+    // token ending at the edited line's start is rescanned too, or before
+    // an unterminated opener the edit might close
+    let resumeIndex = Math.max(0, lastCheckpointBefore(oldCheckpoints, start));
+    const opener = this.unterminated[0];
+    if (opener !== undefined && opener < start) {
+      resumeIndex = Math.min(resumeIndex, Math.max(0, lastCheckpointBefore(oldCheckpoints, opener + 1)));
+    }
+    const resume = oldCheckpoints[resumeIndex];
+
+    const scanned: Token[] = [];
+    const unterminated = this.unterminated.filter((offset) => offset < resume.offset);
+    const newCheckpoints: IndexedCheckpoint[] = [];
+    // Old checkpoint where the new scan converged, and its new line number
+    let convergedIndex = -1;
+    let convergedLine = 0;
+    let candidate = resumeIndex + 1;
+
+    this.lexer.scan(source, resume, scanned, {
+      onLineStart: (checkpoint) => {
+        const tokenIndex = resume.tokenIndex + scanned.length;
+        if (checkpoint.offset >= editEnd) {
+          const oldOffset = checkpoint.offset - delta;
+          while (
+            candidate < oldCheckpoints.length &&
+            oldCheckpoints[candidate].offset < oldOffset
+          ) {
+            candidate++;
+          }
+          const old = oldCheckpoints[candidate];
+          if (old && old.offset === oldOffset && sameState(old, checkpoint)) {
+            convergedIndex = candidate;
+            convergedLine = checkpoint.line;
+            return false;
+          }
+        }
+        newCheckpoints.push({ ...checkpoint, tokenIndex });
+        return true;
+      },
+      onUnterminated: (offset) => unterminated.push(offset),
+    });
+
+    const head = oldTokens.slice(0, resume.tokenIndex);
+    const tokens = head.concat(scanned);
+    const checkpoints = oldCheckpoints.slice(0, resumeIndex + 1).concat(newCheckpoints);
+    let removedEnd = oldTokens.length;
+
+    if (convergedIndex !== -1) {
+      // Untouched tail: same text after the convergence point, shifted
+      const converged = oldCheckpoints[convergedIndex];
+      const lineDelta = convergedLine - converged.line;
+      const indexDelta = tokens.length - converged.tokenIndex;
+      removedEnd = converged.tokenIndex;
+
+      for (let i = converged.tokenIndex; i < oldTokens.length; i++) {
+        tokens.push(shiftToken(oldTokens[i], delta, lineDelta));
+      }
+      for (const offset of this.unterminated) {
+        if (offset >= converged.offset) unterminated.push(offset + delta);
+      }
+      for (let i = convergedIndex; i < oldCheckpoints.length; i++) {
+        const old = oldCheckpoints[i];
+        checkpoints.push({
+          ...old,
+          offset: old.offset + delta,
+          line: old.line + lineDelta,
+          tokenIndex: old.tokenIndex + indexDelta,
+        });
+      }
+    }
+
+    this.text = source;
+    this.tokenList = tokens;
+    this.checkpoints = checkpoints;
+    this.unterminated = unterminated;
+
+    // Rescanned tokens before the edit are usually unchanged; report only
+    // the range that differs
+    let first = resume.tokenIndex;
+    const insertedEnd = resume.tokenIndex + scanned.length;
+    while (
+      first < removedEnd &&
+      first < insertedEnd &&
+      sameToken(oldTokens[first], tokens[first])
+    ) {
+      first++;
+    }
+    return {
+      start: first,
+      removed: removedEnd - first,
+      inserted: insertedEnd - first,
+    };
+  }
+}
+
+/** Index of the last checkpoint whose offset is below `offset`, or -1 */
+function lastCheckpointBefore(checkpoints: LexerCheckpoint[], offset: number): number {
+  let low = 0;
+  let high = checkpoints.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (checkpoints[mid].offset < offset) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found;
+}
+
+function sameState(a: LexerCheckpoint, b: LexerCheckpoint): boolean {
+  return (
+    a.stack.length === b.stack.length &&
+    a.stack.every((state, i) => state === b.stack[i]) &&
+    sameIndentState(a.indent, b.indent) &&
+    a.context === b.context
+  );
+}
+
+function sameToken(a: Token, b: Token): boolean {
+  return (
+    a.type === b.type &&
+    a.value === b.value &&
+    a.range.start.offset === b.range.start.offset
+  );
+}
+
+/** Copy of a token moved by `delta` characters and `lineDelta` lines */
+function shiftToken(token: Token, delta: number, lineDelta: number): Token {
+  if (delta === 0 && lineDelta === 0) return token;
+  const { start, end } = token.range;
+  return {
+    ...token,
+    range: {
+      start: { line: start.line + lineDelta, column: start.column, offset: start.offset + delta },
+      end: { line: end.line + lineDelta, column: end.column, offset: end.offset + delta },
+    },
+  };
+}
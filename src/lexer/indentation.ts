@@ -0,0 +1,192 @@
+// ---------------------------------------------------------------------------
+// Indentation Tracking
+//
+// Emits zero-width indent / dedent tokens for languages with significant
+// indentation (LexerConfig.indentation). The indentation of each line's
+// first content token is compared with a stack of open indentation levels:
+// a deeper line opens a level (one indent token), a shallower one closes
+// levels until it fits (one dedent token each). Blank lines, comment-only
+// lines and lines inside brackets do not affect indentation. All open
+// levels are closed at end of input.
+// ---------------------------------------------------------------------------
+
+import type { Position, TokenCategory } from "../schema/common.js";
+import type { IndentationConfig } from "../schema/lexer.js";
+import type { Token } from "../types/token.js";
+
+/** Indentation tracking state, saved in lexer checkpoints */
+export interface IndentState {
+  /** Open indentation widths, outermost (0) first */
+  levels: number[];
+  /** Bracket nesting depth; lines inside brackets are continuation lines */
+  brackets: number;
+  /** Whether no content token has been seen on the current line yet */
+  atLineStart: boolean;
+  /** Indentation character in use: from the config, or detected from the first indented line */
+  unit: "spaces" | "tab" | null;
+}
+
+/** Tab width used to measure indentation when `size` is not configured */
+const DEFAULT_TAB_SIZE = 8;
+
+/** Token categories that never start a logical line */
+const NON_CONTENT = new Set<TokenCategory>(["whitespace", "newline", "comment"]);
+
+const OPEN_BRACKETS = new Set(["(", "[", "{"]);
+const CLOSE_BRACKETS = new Set([")", "]", "}"]);
+
+/** Indentation state at the start of a document */
+export function initialIndentState(config: IndentationConfig): IndentState {
+  return {
+    levels: [0],
+    brackets: 0,
+    atLineStart: true,
+    unit: config.unit === "detect" ? null : config.unit,
+  };
+}
+
+/** Whether two indentation states (possibly absent) are equal */
+export function sameIndentState(a: IndentState | undefined, b: IndentState | undefined): boolean {
+  if (!a || !b) return a === b;
+  return (
+    a.brackets === b.brackets &&
+    a.atLineStart === b.atLineStart &&
+    a.unit === b.unit &&
+    a.levels.length === b.levels.length &&
+    a.levels.every((level, i) => level === b.levels[i])
+  );
+}
+
+/** Tracks indentation while the lexer appends tokens */
+export class IndentTracker {
+  private readonly config: IndentationConfig;
+  private readonly categoryOf: (type: string) => TokenCategory;
+  private readonly onInconsistent?: (token: Token) => void;
+  private readonly state: IndentState;
+
+  /** `onInconsistent` is called with each indentation turned into an error token */
+  constructor(
+    config: IndentationConfig,
+    state: IndentState,
+    categoryOf: (type: string) => TokenCategory,
+    onInconsistent?: (token: Token) => void,
+  ) {
+    this.config = config;
+    this.categoryOf = categoryOf;
+    this.onInconsistent = onInconsistent;
+    this.state = { ...state, levels: [...state.levels] };
+  }
+
+  /** Copy of the current state */
+  save(): IndentState {
+    return { ...this.state, levels: [...this.state.levels] };
+  }
+
+  /**
+   * Call before appending a token that starts at `start`. Appends indent
+   * and dedent tokens if the token is the first content of a line.
+   * `source` must contain the token's line from its first character.
+   */
+  beforeToken(
+    value: string,
+    category: TokenCategory,
+    start: Position,
+    source: string,
+    tokens: Token[],
+  ): void {
+    if (NON_CONTENT.has(category)) return;
+    const state = this.state;
+
+    if (state.atLineStart && state.brackets === 0) {
+      this.indentLine(start, source, tokens);
+    }
+    state.atLineStart = false;
+
+    if (category === "punctuation" || category === "operator") {
+      if (OPEN_BRACKETS.has(value)) state.brackets++;
+      else if (CLOSE_BRACKETS.has(value) && state.brackets > 0) state.brackets--;
+    }
+  }
+
+  /** The current line continues a token from an earlier line, so its indentation does not count */
+  markContinuation(): void {
+    this.state.atLineStart = false;
+  }
+
+  /** Call after appending a token; `atLineStart` is whether it ended at a line start */
+  afterToken(atLineStart: boolean): void {
+    if (atLineStart) this.state.atLineStart = true;
+  }
+
+  /** Close all open levels at end of input */
+  close(end: Position, tokens: Token[]): void {
+    const { levels } = this.state;
+    while (levels.length > 1) {
+      levels.pop();
+      tokens.push(this.marker(this.config.dedentToken, end));
+    }
+  }
+
+  private indentLine(start: Position, source: string, tokens: Token[]): void {
+    const lineStart = Math.max(0, start.offset - start.column);
+    const indentation = /^[ \t]*/.exec(source.slice(lineStart, start.offset))![0];
+    const width = this.measure(indentation, lineStart, tokens);
+
+    const { levels } = this.state;
+    while (width < levels[levels.length - 1]) {
+      levels.pop();
+      tokens.push(this.marker(this.config.dedentToken, start));
+    }
+    // Deeper line, or a dedent that lands between two levels
+    if (width > levels[levels.length - 1]) {
+      levels.push(width);
+      tokens.push(this.marker(this.config.indentToken, start));
+    }
+  }
+
+  /**
+   * Width of an indentation, with tabs advancing to the next tab stop.
+   * Indentation that mixes tabs and spaces, or uses the other character
+   * than the configured (or detected) unit, is marked as an error token.
+   */
+  private measure(indentation: string, lineStart: number, tokens: Token[]): number {
+    if (indentation.length === 0) return 0;
+
+    const state = this.state;
+    if (state.unit === null) state.unit = indentation[0] === "\t" ? "tab" : "spaces";
+    const expected = state.unit === "tab" ? "\t" : " ";
+    if ([...indentation].some((ch) => ch !== expected)) {
+      const error = markIndentationError(tokens, lineStart);
+      if (error) this.onInconsistent?.(error);
+    }
+
+    const tabSize = this.config.size ?? DEFAULT_TAB_SIZE;
+    let width = 0;
+    for (const ch of indentation) {
+      width = ch === "\t" ? width + tabSize - (width % tabSize) : width + 1;
+    }
+    return width;
+  }
+
+  private marker(type: string, at: Position): Token {
+    return {
+      type,
+      value: "",
+      category: this.categoryOf(type),
+      range: { start: { ...at }, end: { ...at } },
+    };
+  }
+}
+
+/** Turn the whitespace token holding a line's indentation into an error token */
+function markIndentationError(tokens: Token[], lineStart: number): Token | null {
+  for (let i = tokens.length - 1; i >= 0; i--) {
+    const token = tokens[i];
+    if (token.range.start.offset < lineStart) return null;
+    if (token.range.start.offset === lineStart && token.category === "whitespace") {
+      tokens[i] = { ...token, type: "error", category: "error" };
+      return tokens[i];
+    }
+  }
+  return null;
+}
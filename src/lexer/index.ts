@@ -1,9 +1,30 @@
 export { CharReader, type ReaderState } from "./char-reader.js";
 export { compileCharClass } from "./char-classes.js";
-export { compileMatcher, type ScanFn } from "./matcher-compiler.js";
+export {
+  compileMatcher,
+  scanDelimitedBody,
+  type DelimitedBody,
+  type ScanFn,
+} from "./matcher-compiler.js";
 export { StateMachine } from "./state-machine.js";
 export {
   CompiledLexer,
   getCompiledLexer,
   tokenizeWithConfig,
+  type LexerCheckpoint,
+  type OpenDelimited,
+  type ScanOptions,
 } from "./lexer.js";
+export {
+  IncrementalDocument,
+  type TextEdit,
+  type TokenChange,
+} from "./incremental.js";
+export {
+  LineTokenizer,
+  LineState,
+  type LineTokenizeResult,
+  type SerializedLineState,
+} from "./line-tokenizer.js";
+export { iterateTokens, TokenizerStream } from "./token-stream.js";
+export { type IndentState } from "./indentation.js";
@@ -0,0 +1,71 @@
+// ---------------------------------------------------------------------------
+// Lexer Diagnostics
+//
+// Builds the diagnostics CompiledLexer.scan reports when asked for them
+// (ScanOptions.diagnostics): characters no rule matched, delimited tokens
+// whose closing delimiter is missing, lexer states still open at end of
+// input, and indentation that mixes tabs and spaces.
+// ---------------------------------------------------------------------------
+
+import type { Range } from "../schema/common.js";
+import type { LexerDiagnostic } from "../types/diagnostic.js";
+import type { Token } from "../types/token.js";
+
+/** A run of characters no rule matched, as one error token */
+export function unexpectedCharacters(token: Token, state: string): LexerDiagnostic {
+  return {
+    message: `Unexpected character${token.value.length > 1 ? "s" : ""} "${token.value}"`,
+    severity: "error",
+    range: token.range,
+    expected: [],
+    source: "lexer",
+    code: "UNEXPECTED_CHARACTER",
+    state,
+  };
+}
+
+/** A delimited rule whose opening delimiter matched but whose closing one is missing */
+export function unterminatedDelimited(
+  range: Range,
+  state: string,
+  rule: number,
+  tokenType: string,
+  close: string,
+): LexerDiagnostic {
+  return {
+    message: `Unterminated ${tokenType}: missing closing "${close}"`,
+    severity: "error",
+    range,
+    expected: [`"${close}"`],
+    source: "lexer",
+    code: "UNTERMINATED_DELIMITED",
+    state,
+    rule,
+  };
+}
+
+/** A pushed lexer state that was never popped before end of input */
+export function unclosedState(range: Range, state: string): LexerDiagnostic {
+  return {
+    message: `Unclosed lexer state "${state}" at end of input`,
+    severity: "error",
+    range,
+    expected: [],
+    source: "lexer",
+    code: "UNCLOSED_STATE",
+    state,
+  };
+}
+
+/** Indentation the IndentTracker marked as an error token */
+export function inconsistentIndentation(token: Token, state: string): LexerDiagnostic {
+  return {
+    message: "Inconsistent indentation: tabs and spaces are mixed",
+    severity: "error",
+    range: token.range,
+    expected: [],
+    source: "lexer",
+    code: "INCONSISTENT_INDENTATION",
+    state,
+  };
+}
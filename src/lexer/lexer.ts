@@ -5,25 +5,133 @@
 // profile) and produces a Token[] stream.
 // ---------------------------------------------------------------------------
 
-import type { LexerConfig, LexerRule } from "../schema/lexer.js";
-import type { Token } from "../types/token.js";
+import type {
+  DelimitedMatcher,
+  KeywordPromotion,
+  LexerConfig,
+  LexerRule,
+} from "../schema/lexer.js";
+import type { Position, TokenCategory } from "../schema/common.js";
+import type { LexerDiagnostic } from "../types/diagnostic.js";
+import type { Token, TokenizeOptions, TokenizeResult } from "../types/token.js";
 import { CharReader } from "./char-reader.js";
+import { DispatchTable } from "./dispatch.js";
 import { StateMachine } from "./state-machine.js";
-import { compileMatcher, type ScanFn } from "./matcher-compiler.js";
+import {
+  IndentTracker,
+  initialIndentState,
+  type IndentState,
+} from "./indentation.js";
+import {
+  compileDynamicDelimiter,
+  compileMatcher,
+  scanDelimitedBody,
+  type DelimitedBody,
+  type DynamicDelimiter,
+  type ScanFn,
+} from "./matcher-compiler.js";
+import {
+  inconsistentIndentation,
+  unclosedState,
+  unexpectedCharacters,
+  unterminatedDelimited,
+} from "./lexer-diagnostics.js";
+import {
+  compileRuleConditions,
+  TokenContext,
+  type RuleCondition,
+} from "./rule-conditions.js";
 
 /** Pre-compiled rule: scanner function + rule metadata */
 interface CompiledRule {
   scan: ScanFn;
   rule: LexerRule;
+  /** Position of the rule in its state */
+  index: number;
+  /** The rule's context conditions, if it has any */
+  condition: RuleCondition | null;
+  /** Set for delimited rules */
+  delimited?: DelimitedMatcher;
+  /** Set for dynamicDelimited rules */
+  dynamic?: DynamicDelimiter;
+  /** Whether a delimited token can span lines, so it can be left open at end of input */
+  multiline: boolean;
+  /** Whether the body starts on the next line (heredocs): the opener is a token of its own */
+  nextLine: boolean;
 }
 
-/** Pre-compiled state: array of compiled rules */
-type CompiledState = CompiledRule[];
+/** Pre-compiled state: its rules, and which of them can start at each character */
+interface CompiledState {
+  rules: CompiledRule[];
+  dispatch: DispatchTable<CompiledRule>;
+}
+
+/** Lexer position and state stack at a token boundary, to resume scanning from */
+export interface LexerCheckpoint {
+  offset: number;
+  line: number;
+  column: number;
+  /** StateMachine stack, innermost state last */
+  stack: string[];
+  /** Delimited token still open at this position (see ScanOptions.partial) */
+  open?: OpenDelimited;
+  /** Heredocs opened on the current line, whose bodies start on the next one, in order */
+  heredocs?: OpenDelimited[];
+  /** Indentation levels, for lexers with an indentation config */
+  indent?: IndentState;
+  /**
+   * Which precededByToken conditions the last significant token satisfies,
+   * for lexers with such rules (see TokenContext)
+   */
+  context?: string;
+}
+
+/** A multiline delimited token (e.g. a block comment) that is not closed yet */
+export interface OpenDelimited {
+  /** Lexer state the token started in */
+  state: string;
+  /** Index of the delimited rule in that state */
+  rule: number;
+  /** Number of open delimiters (above 1 only for nested delimiters) */
+  depth: number;
+  /** Closing delimiter selected by the opening one, for dynamicDelimited rules */
+  close?: string;
+}
+
+/** Options for CompiledLexer.scan */
+export interface ScanOptions {
+  /**
+   * Called whenever a token ends at the start of a line (before end of
+   * input) with a checkpoint for that position; returning false stops
+   * scanning there.
+   */
+  onLineStart?: (checkpoint: LexerCheckpoint) => boolean;
+  /**
+   * The input continues after `source` (e.g. with the next line). A
+   * multiline delimited token still open at the end is emitted up to the
+   * end instead of trying the state's other rules, and the checkpoint
+   * returned by scan has `open` set. Open indentation levels are not closed.
+   */
+  partial?: boolean;
+  /**
+   * Called with the offset of each multiline delimited opener that is not
+   * closed before the end of `source`: text added after it could close it
+   */
+  onUnterminated?: (offset: number) => void;
+  /** Stop once this many tokens have been appended */
+  maxTokens?: number;
+  /** Collects lexer diagnostics when set */
+  diagnostics?: LexerDiagnostic[];
+}
 
 /** Compiled lexer ready to tokenize */
 export class CompiledLexer {
   private readonly states: Map<string, CompiledState>;
   private readonly config: LexerConfig;
+  private readonly skipTokens: Set<string>;
+  private readonly tokenContext = new TokenContext();
+  /** Compiled keywordPromotion, or null if the config has none */
+  private readonly promotion: CompiledPromotion | null;
 
   constructor(config: LexerConfig) {
     this.config = config;
@@ -33,65 +141,411 @@ export class CompiledLexer {
 
     // Pre-compile all states and their rules
     for (const [name, state] of Object.entries(config.states)) {
-      const compiled: CompiledState = state.rules.map((rule) => ({
+      const rules = state.rules.map((rule, index): CompiledRule => ({
         scan: compileMatcher(rule.match, charClasses),
         rule,
+        index,
+        condition: compileRuleConditions(rule, charClasses, this.tokenContext),
+        delimited: rule.match.kind === "delimited" ? rule.match : undefined,
+        dynamic:
+          rule.match.kind === "dynamicDelimited" ? compileDynamicDelimiter(rule.match) : undefined,
+        multiline:
+          (rule.match.kind === "delimited" || rule.match.kind === "dynamicDelimited") &&
+          (rule.match.multiline === true ||
+            (rule.match.kind === "dynamicDelimited" && rule.match.body === "nextLine")),
+        nextLine: rule.match.kind === "dynamicDelimited" && rule.match.body === "nextLine",
       }));
-      this.states.set(name, compiled);
+      this.states.set(name, {
+        rules,
+        dispatch: new DispatchTable(rules, (compiled) => compiled.rule.match, charClasses),
+      });
     }
+
+    this.skipTokens = new Set(config.skipTokens ?? []);
+    this.promotion = config.keywordPromotion
+      ? compilePromotion(config.keywordPromotion)
+      : null;
+  }
+
+  /** Tokenize source code and collect lexer diagnostics, sorted by position */
+  tokenizeWithDiagnostics(source: string): TokenizeResult {
+    const tokens: Token[] = [];
+    const diagnostics: LexerDiagnostic[] = [];
+    this.scan(source, this.initialCheckpoint(), tokens, { diagnostics });
+    diagnostics.sort((a, b) => a.range.start.offset - b.range.start.offset);
+    return { tokens, diagnostics };
   }
 
   /** Tokenize source code into a token stream */
   tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    this.scan(source, this.initialCheckpoint(), tokens);
+    return tokens;
+  }
+
+  /** Checkpoint at the start of a document */
+  initialCheckpoint(): LexerCheckpoint {
+    const { initialState, indentation } = this.config;
+    return {
+      offset: 0,
+      line: 1,
+      column: 0,
+      stack: [initialState],
+      ...(indentation && { indent: initialIndentState(indentation) }),
+      ...(this.tokenContext.tracked && { context: this.tokenContext.of(null) }),
+    };
+  }
+
+  /**
+   * Scan `source` from a checkpoint, appending to `tokens`.
+   * Returns a checkpoint for the position where scanning stopped.
+   */
+  scan(
+    source: string,
+    start: LexerCheckpoint,
+    tokens: Token[],
+    options: ScanOptions = {},
+  ): LexerCheckpoint {
+    const { onLineStart, onUnterminated, partial = false, maxTokens = Infinity, diagnostics } = options;
+    const limit = tokens.length + maxTokens;
     const reader = new CharReader(source);
+    reader.restore({ pos: start.offset, line: start.line, col: start.column });
     const sm = new StateMachine(this.config.initialState);
-    const tokens: Token[] = [];
+    sm.restore(start.stack);
+    const { indentation } = this.config;
+    const indent = indentation
+      ? new IndentTracker(
+          indentation,
+          start.indent ?? initialIndentState(indentation),
+          (type) => this.categoryOf(type),
+          diagnostics && ((token) => diagnostics.push(inconsistentIndentation(token, sm.current))),
+        )
+      : null;
+    const tracked = this.tokenContext.tracked;
+    let context = start.context ?? (tracked ? this.tokenContext.of(null) : "");
+    const track = (token: Token) => {
+      if (tracked && !this.skipTokens.has(token.type)) {
+        context = this.tokenContext.of(token);
+      }
+    };
+
+    /** Heredocs whose bodies start at the next line start */
+    const heredocs = (start.heredocs ?? []).map((heredoc) => ({ ...heredoc }));
+
+    const stopAt = (open?: OpenDelimited): LexerCheckpoint => {
+      const { line, column, offset } = reader.position;
+      return {
+        offset,
+        line,
+        column,
+        stack: sm.save(),
+        ...(open && { open }),
+        ...(heredocs.length > 0 && { heredocs: heredocs.map((heredoc) => ({ ...heredoc })) }),
+        ...(indent && { indent: indent.save() }),
+        ...(tracked && { context }),
+      };
+    };
+
+    /** Where each state pushed during this scan was entered, for UNCLOSED_STATE */
+    const entered: Position[] = [];
+    /** Error token that the next unmatched character extends, if adjacent */
+    let errorRun: { token: Token; diagnostic?: LexerDiagnostic } | null = null;
+    /** End of the last UNTERMINATED_DELIMITED; errors before it follow from that one */
+    let unterminatedEnd = -1;
+
+    if (start.open) {
+      indent?.markContinuation();
+      const open = this.resumeDelimited(reader, sm, start.open, tokens, indent, track);
+      if (open) return stopAt(open);
+    }
 
     while (!reader.eof) {
+      // A heredoc body is a token of its own, starting on the line after its opener
+      if (heredocs.length > 0 && reader.atLineStart) {
+        indent?.markContinuation();
+        errorRun = null;
+        const open = this.resumeDelimited(reader, sm, heredocs.shift()!, tokens, indent, track);
+        if (open) return stopAt(open);
+        continue;
+      }
+
       const currentState = this.states.get(sm.current);
       if (!currentState) {
         throw new Error(`Unknown lexer state: "${sm.current}"`);
       }
 
       let matched = false;
-      const startPos = reader.position;
-
-      for (const { scan, rule } of currentState) {
-        const consumed = scan(reader);
-        if (consumed > 0) {
-          const value = reader.advanceN(consumed);
-          const endPos = reader.position;
-
-          const typeDef = this.config.tokenTypes[rule.token];
-          tokens.push({
-            type: rule.token,
-            value,
-            category: typeDef?.category ?? "plain",
-            range: { start: startPos, end: endPos },
-          });
+
+      // Only the rules that can start at this character, in rule order
+      const candidates = currentState.dispatch.candidates(source.charCodeAt(reader.offset));
+      for (const candidate of candidates) {
+        const { scan, rule, index: i, condition, delimited, dynamic, multiline, nextLine } = candidate;
+        if (nextLine) {
+          // The opener is a token once its body closes, or may still close
+          const opened = dynamic!.open(source, reader.offset);
+          if (
+            opened &&
+            (!condition || condition(reader, opened.end - reader.offset, context)) &&
+            (partial || dynamic!.body(source, opened.end, opened.close, false)?.depth === 0)
+          ) {
+            track(this.emit(reader, rule.token, opened.end - reader.offset, tokens, indent));
+            heredocs.push({ state: sm.current, rule: i, depth: 1, close: opened.close });
+            matched = true;
+            break;
+          }
+        }
+        const consumed = nextLine ? 0 : scan(reader);
+        if (consumed > 0 && (!condition || condition(reader, consumed, context))) {
+          const token = this.emit(reader, rule.token, consumed, tokens, indent);
+          track(token);
 
           // Apply state transition
+          if (rule.push) entered.push(token.range.start);
+          else if (rule.pop && sm.depth > 1) entered.pop();
           sm.applyTransition(rule);
           matched = true;
           break;
         }
+
+        if (
+          partial &&
+          multiline &&
+          delimited &&
+          reader.startsWith(delimited.open) &&
+          (!condition || condition(reader, delimited.open.length, context))
+        ) {
+          const body = scanDelimitedBody(
+            source,
+            reader.offset + delimited.open.length,
+            delimited,
+            1,
+          );
+          if (body && body.depth > 0) {
+            this.emit(reader, rule.token, body.end - reader.offset, tokens, indent);
+            return stopAt({ state: sm.current, rule: i, depth: body.depth });
+          }
+        }
+
+        if (partial && multiline && dynamic && !nextLine) {
+          const opened = dynamic.open(source, reader.offset);
+          if (opened && (!condition || condition(reader, opened.end - reader.offset, context))) {
+            const body = dynamic.body(source, opened.end, opened.close, false);
+            if (body && body.depth > 0) {
+              this.emit(reader, rule.token, body.end - reader.offset, tokens, indent);
+              return stopAt({ state: sm.current, rule: i, depth: 1, close: opened.close });
+            }
+          }
+        }
+
+        if (
+          onUnterminated &&
+          consumed === 0 &&
+          multiline &&
+          (delimited ? reader.startsWith(delimited.open) : dynamic?.open(source, reader.offset))
+        ) {
+          onUnterminated(reader.offset);
+        }
+
+        if (
+          diagnostics &&
+          consumed === 0 &&
+          reader.offset >= unterminatedEnd &&
+          (delimited || dynamic)
+        ) {
+          const missing = this.findUnterminated(reader, candidate);
+          if (missing) {
+            unterminatedEnd = missing.end;
+            const range = { start: reader.position, end: positionAt(reader, missing.end) };
+            diagnostics.push(unterminatedDelimited(range, sm.current, i, rule.token, missing.close));
+          }
+        }
       }
 
-      if (!matched) {
-        // Fallback: consume single character as error/plain token
-        const ch = reader.advance();
-        const endPos = reader.position;
-        tokens.push({
-          type: "error",
-          value: ch,
-          category: "error",
-          range: { start: startPos, end: endPos },
-        });
+      if (matched) {
+        errorRun = null;
+      } else {
+        // Fallback: consume the character as an error token, or append it to
+        // the error token just before it. Unmatched characters leave the token
+        // context as it was.
+        const startPos = reader.position;
+        if (errorRun) {
+          errorRun.token.value += reader.advance();
+          errorRun.token.range.end = reader.position;
+          if (errorRun.diagnostic) {
+            Object.assign(errorRun.diagnostic, unexpectedCharacters(errorRun.token, sm.current));
+          }
+        } else {
+          indent?.beforeToken(reader.peek(), "error", startPos, source, tokens);
+          const ch = reader.advance();
+          const token: Token = {
+            type: "error",
+            value: ch,
+            category: "error",
+            range: { start: startPos, end: reader.position },
+          };
+          tokens.push(token);
+          errorRun = { token };
+          // An unterminated delimiter reported here already explains the error
+          if (diagnostics && startPos.offset >= unterminatedEnd) {
+            errorRun.diagnostic = unexpectedCharacters(token, sm.current);
+            diagnostics.push(errorRun.diagnostic);
+          }
+        }
+        indent?.afterToken(reader.atLineStart);
+        // Error tokens do not span line breaks, so lines can be re-tokenized alone
+        if (reader.atLineStart) errorRun = null;
       }
+
+      // No checkpoints between a heredoc opener and its body
+      if (onLineStart && reader.atLineStart && !reader.eof && heredocs.length === 0) {
+        const checkpoint = stopAt();
+        if (!onLineStart(checkpoint)) return checkpoint;
+      }
+      if (tokens.length >= limit && !errorRun) break;
     }
 
-    return tokens;
+    if (reader.eof && !partial) {
+      indent?.close(reader.position, tokens);
+      if (diagnostics) {
+        const stack = sm.save();
+        const end = reader.position;
+        // States entered before this scan started have no known start
+        const known = stack.length - 1 - entered.length;
+        for (let level = 1; level < stack.length; level++) {
+          const from =
+            level > known
+              ? entered[level - known - 1]
+              : { line: start.line, column: start.column, offset: start.offset };
+          diagnostics.push(unclosedState({ start: from, end }, stack[level]));
+        }
+      }
+    }
+    return stopAt();
+  }
+
+  /**
+   * For a delimited rule that did not match: if its opening delimiter is at
+   * the reader, where its body ends without the closing delimiter.
+   */
+  private findUnterminated(
+    reader: CharReader,
+    compiled: CompiledRule,
+  ): { end: number; close: string } | null {
+    const src = reader.source;
+    if (compiled.delimited) {
+      const { open, close } = compiled.delimited;
+      if (!reader.startsWith(open)) return null;
+      const body = scanDelimitedBody(src, reader.offset + open.length, compiled.delimited, 1);
+      return { end: body ? body.end : lineEnd(src, reader.offset), close };
+    }
+    const opened = compiled.dynamic?.open(src, reader.offset);
+    if (!opened) return null;
+    const body = compiled.dynamic!.body(src, opened.end, opened.close, false);
+    return { end: body ? body.end : lineEnd(src, opened.end), close: opened.close };
+  }
+
+  /** Continue an open delimited token; returns it again if it is still open at end of input */
+  private resumeDelimited(
+    reader: CharReader,
+    sm: StateMachine,
+    open: OpenDelimited,
+    tokens: Token[],
+    indent: IndentTracker | null,
+    track: (token: Token) => void,
+  ): OpenDelimited | null {
+    const compiled = this.states.get(open.state)?.rules[open.rule];
+    let body: DelimitedBody;
+    if (compiled?.multiline && compiled.dynamic && open.close !== undefined) {
+      const lineStart = reader.position.column === 0;
+      body = compiled.dynamic.body(reader.source, reader.offset, open.close, lineStart)!;
+    } else if (compiled?.multiline && compiled.delimited) {
+      body = scanDelimitedBody(reader.source, reader.offset, compiled.delimited, open.depth)!;
+    } else {
+      throw new Error(`No multiline delimited rule ${open.rule} in lexer state "${open.state}"`);
+    }
+
+    if (body.end === reader.offset) return open;
+
+    const startPos = reader.position;
+    const value = reader.advanceN(body.end - reader.offset);
+    const token: Token = {
+      type: compiled.rule.token,
+      value,
+      category: this.categoryOf(compiled.rule.token),
+      range: { start: startPos, end: reader.position },
+    };
+    tokens.push(token);
+    indent?.afterToken(reader.atLineStart);
+    if (body.depth > 0) return { ...open, depth: body.depth };
+
+    // Only the closing piece completes the token, so only it updates the context
+    track(token);
+    sm.applyTransition(compiled.rule);
+    return null;
+  }
+
+  /** Consume `length` characters as a token of `type` */
+  private emit(
+    reader: CharReader,
+    type: string,
+    length: number,
+    tokens: Token[],
+    indent: IndentTracker | null,
+  ): Token {
+    const startPos = reader.position;
+    if (this.promotion?.from.has(type)) {
+      type = this.promotion.promote(reader.peekString(length)) ?? type;
+    }
+    const category = this.categoryOf(type);
+    indent?.beforeToken(reader.peekString(length), category, startPos, reader.source, tokens);
+    const value = reader.advanceN(length);
+    const token: Token = { type, value, category, range: { start: startPos, end: reader.position } };
+    tokens.push(token);
+    indent?.afterToken(reader.atLineStart);
+    return token;
   }
+
+  private categoryOf(type: string): TokenCategory {
+    return this.config.tokenTypes[type]?.category ?? "plain";
+  }
+}
+
+/** Position of `offset`, at or after the reader's position */
+function positionAt(reader: CharReader, offset: number): Position {
+  const saved = reader.save();
+  reader.advanceN(offset - reader.offset);
+  const position = reader.position;
+  reader.restore(saved);
+  return position;
+}
+
+/** Offset of the line break ending the line at `pos`, or end of input */
+function lineEnd(src: string, pos: number): number {
+  while (pos < src.length && src[pos] !== "\n" && src[pos] !== "\r") pos++;
+  return pos;
+}
+
+interface CompiledPromotion {
+  from: Set<string>;
+  /** New token type for a token's text, if it is promoted */
+  promote(text: string): string | undefined;
+}
+
+function compilePromotion(promotion: KeywordPromotion): CompiledPromotion {
+  const fold = promotion.caseInsensitive
+    ? (text: string) => text.toLowerCase()
+    : (text: string) => text;
+  const types = new Map<string, string>();
+  for (const [type, words] of Object.entries(promotion.to)) {
+    for (const word of words) {
+      // The first listed type wins for a word listed twice
+      if (!types.has(fold(word))) types.set(fold(word), type);
+    }
+  }
+  return {
+    from: new Set(promotion.from ?? ["identifier"]),
+    promote: (text) => types.get(fold(text)),
+  };
 }
 
 // ---------------------------------------------------------------------------
@@ -112,9 +566,22 @@ export function getCompiledLexer(config: LexerConfig): CompiledLexer {
 }
 
 /** Tokenize source code using a lexer config */
+export function tokenizeWithConfig(source: string, config: LexerConfig): Token[];
+export function tokenizeWithConfig(
+  source: string,
+  config: LexerConfig,
+  options: TokenizeOptions & { diagnostics: true },
+): TokenizeResult;
+export function tokenizeWithConfig(
+  source: string,
+  config: LexerConfig,
+  options?: TokenizeOptions,
+): Token[] | TokenizeResult;
 export function tokenizeWithConfig(
   source: string,
   config: LexerConfig,
-): Token[] {
-  return getCompiledLexer(config).tokenize(source);
+  options: TokenizeOptions = {},
+): Token[] | TokenizeResult {
+  const lexer = getCompiledLexer(config);
+  return options.diagnostics ? lexer.tokenizeWithDiagnostics(source) : lexer.tokenize(source);
 }
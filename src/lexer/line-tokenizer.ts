@@ -0,0 +1,176 @@
+// ---------------------------------------------------------------------------
+// Line Tokenizer
+//
+// Tokenizes one line at a time for editors such as Monaco and CodeMirror,
+// which re-tokenize lines independently and carry an opaque state from one
+// line to the next. The state holds the lexer state stack, any multiline
+// delimited token still open at the end of the line (e.g. an unterminated
+// block comment), which the next line continues, the heredocs whose bodies
+// start on the next line, the indentation levels
+// of languages with significant indentation, and the token context of
+// lexers with precededByToken rules.
+// ---------------------------------------------------------------------------
+
+import type { LexerConfig } from "../schema/lexer.js";
+import type { Token } from "../types/token.js";
+import {
+  CompiledLexer,
+  getCompiledLexer,
+  type OpenDelimited,
+} from "./lexer.js";
+import { sameIndentState, type IndentState } from "./indentation.js";
+
+/** JSON form of a LineState */
+export interface SerializedLineState {
+  stack: string[];
+  open: OpenDelimited | null;
+  indent?: IndentState | null;
+  context?: string | null;
+  heredocs?: OpenDelimited[];
+}
+
+/** Lexer state between two lines. Immutable, so it can be shared freely. */
+export class LineState {
+  /** StateMachine stack, innermost state last */
+  readonly stack: readonly string[];
+  /** Delimited token continued by the next line, if any */
+  readonly open: Readonly<OpenDelimited> | null;
+  /** Indentation levels, for lexers with an indentation config */
+  readonly indent: Readonly<IndentState> | null;
+  /** Token context, for lexers with precededByToken rules */
+  readonly context: string | null;
+  /** Heredocs opened on the line, whose bodies the next lines hold, in order */
+  readonly heredocs: readonly Readonly<OpenDelimited>[];
+
+  constructor(
+    stack: readonly string[],
+    open: OpenDelimited | null = null,
+    indent: IndentState | null = null,
+    context: string | null = null,
+    heredocs: readonly OpenDelimited[] = [],
+  ) {
+    this.stack = Object.freeze([...stack]);
+    this.open = open ? Object.freeze({ ...open }) : null;
+    this.heredocs = Object.freeze(heredocs.map((heredoc) => Object.freeze({ ...heredoc })));
+    this.indent = indent
+      ? Object.freeze({ ...indent, levels: Object.freeze([...indent.levels]) as number[] })
+      : null;
+    this.context = context;
+  }
+
+  /** Whether both states tokenize the following lines the same way */
+  equals(other: LineState): boolean {
+    if (this === other) return true;
+    if (this.stack.length !== other.stack.length) return false;
+    if (this.stack.some((state, i) => state !== other.stack[i])) return false;
+    if (!sameIndentState(this.indent ?? undefined, other.indent ?? undefined)) return false;
+    if (this.context !== other.context) return false;
+    if (this.heredocs.length !== other.heredocs.length) return false;
+    if (this.heredocs.some((heredoc, i) => !sameOpen(heredoc, other.heredocs[i]))) return false;
+    if (!this.open || !other.open) return this.open === other.open;
+    return sameOpen(this.open, other.open);
+  }
+
+  toJSON(): SerializedLineState {
+    return {
+      stack: [...this.stack],
+      open: this.open ? { ...this.open } : null,
+      indent: this.indent ? { ...this.indent, levels: [...this.indent.levels] } : null,
+      context: this.context,
+      ...(this.heredocs.length > 0 && { heredocs: this.heredocs.map((heredoc) => ({ ...heredoc })) }),
+    };
+  }
+
+  /** Rebuild a state from toJSON output. Throws an Error on malformed data. */
+  static fromJSON(data: SerializedLineState): LineState {
+    const { stack, open, indent, context, heredocs } = data ?? {};
+    if (
+      !Array.isArray(stack) ||
+      stack.length === 0 ||
+      !stack.every((state) => typeof state === "string")
+    ) {
+      throw new Error("Invalid line state: stack must be a non-empty array of state names");
+    }
+    if (open != null && !isOpenDelimited(open)) {
+      throw new Error("Invalid line state: malformed open delimited token");
+    }
+    if (heredocs != null && (!Array.isArray(heredocs) || !heredocs.every(isOpenDelimited))) {
+      throw new Error("Invalid line state: malformed heredocs");
+    }
+    if (
+      indent != null &&
+      (!Array.isArray(indent.levels) ||
+        indent.levels.length === 0 ||
+        !indent.levels.every(Number.isInteger) ||
+        !Number.isInteger(indent.brackets) ||
+        typeof indent.atLineStart !== "boolean" ||
+        ![null, "spaces", "tab"].includes(indent.unit))
+    ) {
+      throw new Error("Invalid line state: malformed indentation");
+    }
+    if (context != null && (typeof context !== "string" || !/^[01]*$/.test(context))) {
+      throw new Error("Invalid line state: malformed token context");
+    }
+    return new LineState(stack, open ?? null, indent ?? null, context ?? null, heredocs ?? []);
+  }
+}
+
+function sameOpen(a: Readonly<OpenDelimited>, b: Readonly<OpenDelimited>): boolean {
+  return a.state === b.state && a.rule === b.rule && a.depth === b.depth && a.close === b.close;
+}
+
+function isOpenDelimited(open: OpenDelimited): boolean {
+  return (
+    typeof open?.state === "string" &&
+    Number.isInteger(open.rule) &&
+    Number.isInteger(open.depth) &&
+    open.depth >= 1 &&
+    (open.close === undefined || typeof open.close === "string")
+  );
+}
+
+/** Tokens of one line and the state the next line starts in */
+export interface LineTokenizeResult {
+  tokens: Token[];
+  endState: LineState;
+}
+
+/** Tokenizes source one line at a time */
+export class LineTokenizer {
+  private readonly lexer: CompiledLexer;
+
+  constructor(lexer: LexerConfig | CompiledLexer) {
+    this.lexer = lexer instanceof CompiledLexer ? lexer : getCompiledLexer(lexer);
+  }
+
+  /** State of the first line of a document */
+  get initialState(): LineState {
+    const { stack, indent, context } = this.lexer.initialCheckpoint();
+    return new LineState(stack, null, indent, context);
+  }
+
+  /**
+   * Tokenize `line` (without its line terminator) starting in `state`.
+   * Token positions are relative to the line: line 1, offset = column.
+   */
+  tokenizeLine(line: string, state: LineState): LineTokenizeResult {
+    const tokens: Token[] = [];
+    const start = {
+      offset: 0,
+      line: 1,
+      column: 0,
+      stack: [...state.stack],
+      open: state.open ? { ...state.open } : undefined,
+      indent: state.indent ? { ...state.indent, levels: [...state.indent.levels] } : undefined,
+      context: state.context ?? undefined,
+      heredocs: state.heredocs.map((heredoc) => ({ ...heredoc })),
+    };
+    const end = this.lexer.scan(line, start, tokens, { partial: true });
+    // The next line starts at a line start, which the scan did not see
+    const indent = end.indent ? { ...end.indent, atLineStart: true } : null;
+    return {
+      tokens,
+      endState: new LineState(end.stack, end.open, indent, end.context, end.heredocs),
+    };
+  }
+}
@@ -7,7 +7,11 @@
 // ---------------------------------------------------------------------------
 
 import type { CharClass } from "../schema/common.js";
-import type { Matcher } from "../schema/lexer.js";
+import type {
+  DelimitedMatcher,
+  DynamicDelimitedMatcher,
+  Matcher,
+} from "../schema/lexer.js";
 import type { CharReader } from "./char-reader.js";
 import { compileCharClass } from "./char-classes.js";
 
@@ -26,7 +30,7 @@ export function compileMatcher(
     case "string":
       return compileStringMatcher(matcher.value);
     case "keywords":
-      return compileKeywordsMatcher(matcher.words);
+      return compileKeywordsMatcher(matcher.words, matcher.caseInsensitive ?? false);
     case "delimited":
       return compileDelimitedMatcher(
         matcher.open,
@@ -35,6 +39,8 @@ export function compileMatcher(
         matcher.multiline ?? false,
         matcher.nested ?? false,
       );
+    case "dynamicDelimited":
+      return compileDynamicDelimitedMatcher(compileDynamicDelimiter(matcher));
     case "line":
       return compileLineMatcher(matcher.start);
     case "charSequence":
@@ -48,7 +54,7 @@ export function compileMatcher(
     case "sequence":
       return compileSequenceMatcher(matcher.elements, charClasses);
     case "pattern":
-      return compilePatternMatcher(matcher.regex);
+      return compilePatternMatcher(matcher.regex, matcher.flags ?? "");
   }
 }
 
@@ -75,12 +81,27 @@ function compileStringMatcher(value: string | string[]): ScanFn {
 // Keywords matcher: word-boundary-aware exact match
 // ---------------------------------------------------------------------------
 
-function compileKeywordsMatcher(words: string[]): ScanFn {
-  // Sort by length descending for longest match first
-  const sorted = [...words].sort((a, b) => b.length - a.length);
+function compileKeywordsMatcher(words: string[], caseInsensitive: boolean): ScanFn {
+  // Group by first character, each group sorted by length descending for
+  // longest match first
+  const byFirst = new Map<string, string[]>();
+  for (const word of words) {
+    const key = caseInsensitive ? word.toLowerCase() : word;
+    if (key.length === 0) continue;
+    const group = byFirst.get(key[0]);
+    if (group) group.push(key);
+    else byFirst.set(key[0], [key]);
+  }
+  for (const group of byFirst.values()) group.sort((a, b) => b.length - a.length);
+  const startsWith = caseInsensitive
+    ? (reader: CharReader, word: string) => reader.peekString(word.length).toLowerCase() === word
+    : (reader: CharReader, word: string) => reader.startsWith(word);
   return (reader) => {
-    for (const word of sorted) {
-      if (!reader.startsWith(word)) continue;
+    const first = reader.peek();
+    const candidates = byFirst.get(caseInsensitive ? first.toLowerCase() : first);
+    if (!candidates) return 0;
+    for (const word of candidates) {
+      if (!startsWith(reader, word)) continue;
       // Check word boundary after the keyword
       const afterIdx = word.length;
       const after = reader.peekAt(afterIdx);
@@ -115,51 +136,68 @@ function compileDelimitedMatcher(
   multiline: boolean,
   nested: boolean,
 ): ScanFn {
-  const openLen = open.length;
-  const closeLen = close.length;
+  const matcher: DelimitedMatcher = { kind: "delimited", open, close, escape, multiline, nested };
 
   return (reader) => {
     if (!reader.startsWith(open)) return 0;
 
     const startPos = reader.offset;
-    const src = reader.source;
-    let pos = startPos + openLen;
-    let depth = 1;
-
-    while (pos < src.length) {
-      // Check escape character
-      if (escape && src[pos] === escape) {
-        pos += 2; // skip escaped char
-        continue;
-      }
+    const body = scanDelimitedBody(reader.source, startPos + open.length, matcher, 1);
+    // Unmatched if it ran into a newline in single-line mode or hit EOF
+    return body && body.depth === 0 ? body.end - startPos : 0;
+  };
+}
 
-      // Check for nested open (if nesting enabled)
-      if (nested && matchAt(src, pos, open)) {
-        depth++;
-        pos += openLen;
-        continue;
-      }
+/** How far a delimited body extends, and how many delimiters are still open there */
+export interface DelimitedBody {
+  end: number;
+  /** 0 when the close delimiter was found; otherwise `end` is end of input */
+  depth: number;
+}
 
-      // Check for close
-      if (matchAt(src, pos, close)) {
-        depth--;
-        if (depth === 0) {
-          return pos + closeLen - startPos;
-        }
-        pos += closeLen;
-        continue;
-      }
+/**
+ * Scan delimited content from `pos`, with `depth` delimiters already open.
+ * Returns null if a newline ends single-line content.
+ */
+export function scanDelimitedBody(
+  src: string,
+  pos: number,
+  matcher: DelimitedMatcher,
+  depth: number,
+): DelimitedBody | null {
+  const { open, close, escape, multiline, nested } = matcher;
+
+  while (pos < src.length) {
+    // Check escape character
+    if (escape && src[pos] === escape) {
+      pos += 2; // skip escaped char
+      continue;
+    }
 
-      // Check newline restriction
-      if (!multiline && (src[pos] === "\n" || src[pos] === "\r")) {
-        return 0; // unmatched - hit newline in single-line mode
-      }
+    // Check for nested open (if nesting enabled)
+    if (nested && matchAt(src, pos, open)) {
+      depth++;
+      pos += open.length;
+      continue;
+    }
 
-      pos++;
+    // Check for close
+    if (matchAt(src, pos, close)) {
+      depth--;
+      pos += close.length;
+      if (depth === 0) return { end: pos, depth };
+      continue;
     }
 
-    return 0; // unmatched - hit EOF
-  };
+    // Check newline restriction
+    if (!multiline && (src[pos] === "\n" || src[pos] === "\r")) {
+      return null;
+    }
+
+    pos++;
+  }
+
+  return { end: src.length, depth };
 }
 
 function matchAt(src: string, pos: number, str: string): boolean {
@@ -169,6 +207,90 @@ function matchAt(src: string, pos: number, str: string): boolean {
   return true;
 }
 
+// ---------------------------------------------------------------------------
+// Dynamic delimited matcher: closing delimiter chosen by the opening one
+// ---------------------------------------------------------------------------
+
+/** A compiled dynamicDelimited matcher, in two steps so the lexer can resume the body */
+export interface DynamicDelimiter {
+  /** Match the opening delimiter at `pos`: where it ends and the closing delimiter it selects */
+  open(src: string, pos: number): { end: number; close: string } | null;
+  /**
+   * Scan the body from `pos` through `close`. Depth is 0 when it closed and
+   * 1 when the input ended first; null if a newline ends single-line content.
+   * `lineStart` tells whether `pos` is at the start of a line.
+   */
+  body(src: string, pos: number, close: string, lineStart: boolean): DelimitedBody | null;
+}
+
+export function compileDynamicDelimiter(matcher: DynamicDelimitedMatcher): DynamicDelimiter {
+  const openRe = compileStickyRegex(matcher.open, "", "dynamicDelimited open");
+  const { close, escape, multiline = false, indentedClose = false } = matcher;
+
+  return {
+    open(src, pos) {
+      openRe.lastIndex = pos;
+      const m = openRe.exec(src);
+      if (!m || m[0].length === 0) return null;
+      const tag = m.slice(1).find((group) => group !== undefined) ?? "";
+      return { end: pos + m[0].length, close: close.replaceAll("{tag}", tag) };
+    },
+    body(src, pos, closeWith, lineStart) {
+      if (matcher.body === "nextLine") {
+        return scanHeredocBody(src, pos, closeWith, indentedClose, lineStart);
+      }
+      return scanDelimitedBody(
+        src,
+        pos,
+        { kind: "delimited", open: "", close: closeWith, escape, multiline },
+        1,
+      );
+    },
+  };
+}
+
+function compileDynamicDelimitedMatcher(delimiter: DynamicDelimiter): ScanFn {
+  return (reader) => {
+    const src = reader.source;
+    const opened = delimiter.open(src, reader.offset);
+    if (!opened) return 0;
+    const body = delimiter.body(src, opened.end, opened.close, false);
+    return body && body.depth === 0 ? body.end - reader.offset : 0;
+  };
+}
+
+/** Scan heredoc lines from `pos` up to a line starting with `close` */
+function scanHeredocBody(
+  src: string,
+  pos: number,
+  close: string,
+  indented: boolean,
+  lineStart: boolean,
+): DelimitedBody {
+  // The body starts on the next line
+  if (!lineStart) pos = skipLine(src, pos);
+
+  while (pos < src.length) {
+    let start = pos;
+    if (indented) {
+      while (src[start] === " " || src[start] === "\t") start++;
+    }
+    const end = start + close.length;
+    if (matchAt(src, start, close) && (end >= src.length || !isWordChar(src[end]))) {
+      return { end, depth: 0 };
+    }
+    pos = skipLine(src, pos);
+  }
+  return { end: src.length, depth: 1 };
+}
+
+/** Position after the line break ending the line at `pos`, or end of input */
+function skipLine(src: string, pos: number): number {
+  while (pos < src.length && src[pos] !== "\n" && src[pos] !== "\r") pos++;
+  if (src[pos] === "\r" && src[pos + 1] === "\n") return pos + 2;
+  return pos < src.length ? pos + 1 : pos;
+}
+
 // ---------------------------------------------------------------------------
 // Line matcher: from marker to end of line
 // ---------------------------------------------------------------------------
@@ -397,12 +519,32 @@ function compileSequenceMatcher(
 // Pattern matcher: regex escape hatch
 // ---------------------------------------------------------------------------
 
-function compilePatternMatcher(regex: string): ScanFn {
-  const re = new RegExp("^(?:" + regex + ")");
+function compilePatternMatcher(regex: string, flags: string): ScanFn {
+  const re = compileStickyRegex(regex, flags, "pattern");
   return (reader) => {
-    const src = reader.source;
-    const sub = src.slice(reader.offset);
-    const m = re.exec(sub);
+    re.lastIndex = reader.offset;
+    const m = re.exec(reader.source);
     return m ? m[0].length : 0;
   };
 }
+
+/** Flags a profile regex may set; `y` is always added. Not `v`, which Node 18 lacks */
+const REGEX_FLAGS = "imsu";
+
+/**
+ * Compile a profile regex with the sticky flag, so it matches exactly at
+ * `lastIndex` without slicing the source. Invalid regexes and flags throw
+ * when the profile is compiled rather than on first use.
+ */
+function compileStickyRegex(regex: string, flags: string, what: string): RegExp {
+  for (const flag of flags) {
+    if (!REGEX_FLAGS.includes(flag)) {
+      throw new Error(`Unsupported ${what} regex flag "${flag}" in /${regex}/${flags}`);
+    }
+  }
+  try {
+    return new RegExp(regex, flags + "y");
+  } catch (err) {
+    throw new Error(`Invalid ${what} regex /${regex}/${flags}: ${(err as Error).message}`);
+  }
+}
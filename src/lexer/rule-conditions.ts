@@ -0,0 +1,136 @@
+// ---------------------------------------------------------------------------
+// Rule Conditions
+//
+// Compiles the context conditions of a LexerRule (followedBy,
+// notFollowedBy, precededByToken, atLineStart) into a single check that
+// the lexer runs after the rule's matcher succeeded. They let one rule set
+// tell apart tokens that look the same, such as a regex `/` and a
+// division `/` in JavaScript.
+// ---------------------------------------------------------------------------
+
+import type { CharClass } from "../schema/common.js";
+import type { LexerRule, PrecedingTokenCondition } from "../schema/lexer.js";
+import type { Token } from "../types/token.js";
+import type { CharReader } from "./char-reader.js";
+import { compileMatcher } from "./matcher-compiler.js";
+
+/** The fields of a token that precededByToken conditions look at */
+type PrecedingToken = Pick<Token, "type" | "category" | "value">;
+
+/**
+ * The precededByToken conditions of a lexer. Instead of the last
+ * significant token itself, checkpoints store a context string with one
+ * character per condition ("1" if the token satisfies it), so that states
+ * which lex the rest of the input the same way compare equal.
+ */
+export class TokenContext {
+  private readonly conditions: PrecedingTokenCondition[] = [];
+  private readonly keys = new Map<string, number>();
+
+  /** Register a condition; returns its index in context strings */
+  add(condition: PrecedingTokenCondition): number {
+    const key = JSON.stringify(condition);
+    let index = this.keys.get(key);
+    if (index === undefined) {
+      index = this.conditions.push(condition) - 1;
+      this.keys.set(key, index);
+    }
+    return index;
+  }
+
+  /** Whether any condition is registered, so the context must be tracked */
+  get tracked(): boolean {
+    return this.conditions.length > 0;
+  }
+
+  /** Context after `token`, or at the start of input when null */
+  of(token: PrecedingToken | null): string {
+    let context = "";
+    for (const condition of this.conditions) {
+      context += matchesPreceding(condition, token) ? "1" : "0";
+    }
+    return context;
+  }
+}
+
+/** Whether a match of `consumed` characters at the reader's position may be accepted */
+export type RuleCondition = (reader: CharReader, consumed: number, context: string) => boolean;
+
+/** Whether the rule has any conditions */
+export function hasRuleConditions(rule: LexerRule): boolean {
+  return (
+    rule.followedBy !== undefined ||
+    rule.notFollowedBy !== undefined ||
+    rule.precededByToken !== undefined ||
+    rule.atLineStart === true
+  );
+}
+
+/**
+ * Compile a rule's conditions, or return null if it has none. A
+ * precededByToken condition is registered with `tokenContext`.
+ */
+export function compileRuleConditions(
+  rule: LexerRule,
+  charClasses: Record<string, CharClass>,
+  tokenContext: TokenContext,
+): RuleCondition | null {
+  if (!hasRuleConditions(rule)) return null;
+
+  const checks: RuleCondition[] = [];
+  if (rule.atLineStart) {
+    checks.push((reader) => isAtLineStart(reader));
+  }
+  if (rule.precededByToken) {
+    const index = tokenContext.add(rule.precededByToken);
+    checks.push((_, __, context) => context[index] === "1");
+  }
+  if (rule.followedBy) {
+    const scan = compileMatcher(rule.followedBy, charClasses);
+    checks.push((reader, consumed) => lookahead(reader, consumed, scan));
+  }
+  if (rule.notFollowedBy) {
+    const scan = compileMatcher(rule.notFollowedBy, charClasses);
+    checks.push((reader, consumed) => !lookahead(reader, consumed, scan));
+  }
+
+  return (reader, consumed, context) =>
+    checks.every((check) => check(reader, consumed, context));
+}
+
+function matchesPreceding(
+  condition: PrecedingTokenCondition,
+  token: PrecedingToken | null,
+): boolean {
+  const listed =
+    token !== null &&
+    (condition.types?.includes(token.type) === true ||
+      condition.categories?.includes(token.category) === true ||
+      condition.values?.includes(token.value) === true);
+  return condition.negate ? !listed : listed;
+}
+
+/** Only spaces and tabs between the line start and the reader */
+function isAtLineStart(reader: CharReader): boolean {
+  const { offset, column } = reader.position;
+  // The source may start mid-line (e.g. a resumed chunk); then it is not a line start
+  if (offset < column) return false;
+  const src = reader.source;
+  for (let i = offset - column; i < offset; i++) {
+    if (src[i] !== " " && src[i] !== "\t") return false;
+  }
+  return true;
+}
+
+/** Run `scan` at the end of the current match without moving the reader */
+function lookahead(
+  reader: CharReader,
+  consumed: number,
+  scan: (reader: CharReader) => number,
+): boolean {
+  const saved = reader.save();
+  reader.advanceN(consumed);
+  const matched = scan(reader) > 0;
+  reader.restore(saved);
+  return matched;
+}
@@ -0,0 +1,199 @@
+// ---------------------------------------------------------------------------
+// Token Streams
+//
+// Tokenization without materializing the whole token array: a generator
+// that scans a fixed number of tokens at a time, and a TransformStream that
+// tokenizes text arriving in chunks. The stream emits tokens a line at a
+// time, because a token before the last line break can no longer change
+// when more text arrives; the rest of the buffer is rescanned with the next
+// chunk. A multiline delimited token (e.g. a block comment) that is still
+// open is held back until it closes, and resumed after its last line break.
+// ---------------------------------------------------------------------------
+
+import type { LexerConfig } from "../schema/lexer.js";
+import type { Token } from "../types/token.js";
+import {
+  CompiledLexer,
+  getCompiledLexer,
+  type LexerCheckpoint,
+} from "./lexer.js";
+
+/** Tokens scanned per step by iterateTokens */
+const BATCH_SIZE = 1024;
+
+/** Yield the tokens of `source` lazily, in the same order as tokenize() */
+export function* iterateTokens(
+  source: string,
+  lexer: LexerConfig | CompiledLexer,
+): Generator<Token, void, undefined> {
+  const compiled = toCompiledLexer(lexer);
+  let checkpoint = compiled.initialCheckpoint();
+  const batch: Token[] = [];
+
+  while (checkpoint.offset < source.length) {
+    batch.length = 0;
+    checkpoint = compiled.scan(source, checkpoint, batch, { maxTokens: BATCH_SIZE });
+    yield* batch;
+  }
+}
+
+/**
+ * A TransformStream from source text chunks to tokens. The tokens are the
+ * same as tokenize() returns for the concatenated chunks, including
+ * tokens that span chunk boundaries.
+ */
+export class TokenizerStream extends TransformStream<string, Token> {
+  constructor(lexer: LexerConfig | CompiledLexer) {
+    const tokenizer = new ChunkTokenizer(toCompiledLexer(lexer));
+    super({
+      transform(chunk, controller) {
+        for (const token of tokenizer.push(chunk)) controller.enqueue(token);
+      },
+      flush(controller) {
+        for (const token of tokenizer.end()) controller.enqueue(token);
+      },
+    });
+  }
+}
+
+/** Tokens of a partial scan, and the last line start a token ended at with the count of tokens before it */
+interface BufferScan {
+  tokens: Token[];
+  end: LexerCheckpoint;
+  cut: LexerCheckpoint | null;
+  committed: number;
+}
+
+/** Buffers text chunks and returns the tokens that are final so far */
+class ChunkTokenizer {
+  private readonly lexer: CompiledLexer;
+  /** Text not yet committed to tokens */
+  private buffer = "";
+  /** Where the buffer starts in the whole input; `open` while a multiline token continues there */
+  private base: LexerCheckpoint;
+  /**
+   * While a multiline token is open at the buffer start: the tokens of its
+   * first line so far, ending with the token's pieces joined
+   */
+  private held: Token[] = [];
+  /** Checkpoint at the start of the first held token's line, and the text from there to the buffer */
+  private heldFrom: { checkpoint: LexerCheckpoint; text: string } | null = null;
+
+  constructor(lexer: CompiledLexer) {
+    this.lexer = lexer;
+    this.base = lexer.initialCheckpoint();
+  }
+
+  push(chunk: string): Token[] {
+    this.buffer += chunk;
+    // Without a new line break nothing can become final
+    if (!/[\r\n]/.test(chunk)) return [];
+
+    let scan = this.scanBuffer(this.buffer);
+    // A token still open at the end starts after the last line start, so it
+    // is rescanned from there, with the indentation state of that line. Once
+    // it spans a line break, scanning resumes after the last one instead, so
+    // a long comment is not rescanned from its opener with every chunk.
+    const lineStart = this.buffer.lastIndexOf("\n") + 1;
+    const open = scan.end.open ? scan.tokens[scan.tokens.length - 1] : undefined;
+    if (open && lineStart > open.range.start.offset) {
+      scan = this.scanBuffer(this.buffer.slice(0, lineStart));
+      const tokens = this.join(this.shift(scan.tokens));
+      const committed = scan.cut ? scan.committed + tokens.length - scan.tokens.length : 0;
+      if (scan.cut) {
+        this.heldFrom = { checkpoint: this.absolute(scan.cut), text: "" };
+      } else if (this.held.length === 0) {
+        this.heldFrom = { checkpoint: this.base, text: "" };
+      }
+      this.heldFrom!.text += this.buffer.slice(scan.cut?.offset ?? 0, lineStart);
+      this.held = tokens.slice(committed);
+      this.buffer = this.buffer.slice(lineStart);
+      this.base = this.absolute(scan.end);
+      return tokens.slice(0, committed);
+    }
+
+    if (!scan.cut) return [];
+    const tokens = this.join(this.shift(scan.tokens));
+    const result = tokens.slice(0, scan.committed + tokens.length - scan.tokens.length);
+    this.held = [];
+    this.heldFrom = null;
+    this.advance(scan.cut);
+    return result;
+  }
+
+  end(): Token[] {
+    let tokens: Token[] = [];
+    // Scan even an empty buffer, to close open indentation levels
+    const end = this.lexer.scan(this.buffer, this.bufferStart(), tokens);
+    if (end.open && this.heldFrom) {
+      // Never closed: rescan from the line it started on, as tokenize() does
+      tokens = [];
+      const { checkpoint, text } = this.heldFrom;
+      this.base = checkpoint;
+      this.lexer.scan(text + this.buffer, this.bufferStart(), tokens);
+      this.held = [];
+    }
+    this.buffer = "";
+    return this.join(this.shift(tokens));
+  }
+
+  /** Scan `text` from the buffer start, noting the last line start a token ends at */
+  private scanBuffer(text: string): BufferScan {
+    const tokens: Token[] = [];
+    let cut: LexerCheckpoint | null = null;
+    let committed = 0;
+    const end = this.lexer.scan(text, this.bufferStart(), tokens, {
+      partial: true,
+      onLineStart: (checkpoint) => {
+        cut = checkpoint;
+        committed = tokens.length;
+        return true;
+      },
+    });
+    return { tokens, end, cut, committed };
+  }
+
+  /** Prepend the held tokens, joining the first scanned token to the open one they end with */
+  private join(tokens: Token[]): Token[] {
+    if (this.held.length === 0 || tokens.length === 0) return tokens;
+    const open = this.held[this.held.length - 1];
+    const [piece, ...rest] = tokens;
+    const joined: Token = {
+      ...open,
+      value: open.value + piece.value,
+      range: { start: open.range.start, end: piece.range.end },
+    };
+    return [...this.held.slice(0, -1), joined, ...rest];
+  }
+
+  /** Checkpoint for scanning the buffer: buffer-relative offset, absolute line and column */
+  private bufferStart(): LexerCheckpoint {
+    return { ...this.base, offset: 0 };
+  }
+
+  /** A buffer-relative checkpoint made absolute */
+  private absolute(checkpoint: LexerCheckpoint): LexerCheckpoint {
+    return { ...checkpoint, offset: this.base.offset + checkpoint.offset };
+  }
+
+  /** Drop the buffer up to `cut` (a buffer-relative checkpoint) */
+  private advance(cut: LexerCheckpoint): void {
+    this.buffer = this.buffer.slice(cut.offset);
+    this.base = this.absolute(cut);
+  }
+
+  /** Make buffer-relative token offsets absolute */
+  private shift(tokens: Token[]): Token[] {
+    const delta = this.base.offset;
+    if (delta === 0) return tokens;
+    for (const token of tokens) {
+      token.range.start.offset += delta;
+      token.range.end.offset += delta;
+    }
+    return tokens;
+  }
+}
+
+function toCompiledLexer(lexer: LexerConfig | CompiledLexer): CompiledLexer {
+  return lexer instanceof CompiledLexer ? lexer : getCompiledLexer(lexer);
+}
@@ -0,0 +1,317 @@
+// ---------------------------------------------------------------------------
+// Documentation
+//
+// Attaches doc comments and docstrings to detected symbols, and reads them
+// into a summary, a description, the documented parameters and the return
+// value. JSDoc-style tags, Google-style sections and C# XML elements are
+// recognized.
+// ---------------------------------------------------------------------------
+
+import type { DocCommentRule, DocumentationConfig } from "../schema/structure.js";
+import type { Token } from "../types/token.js";
+import type { CodeSymbol, DocumentedParameter, SymbolDocumentation } from "../types/tree.js";
+
+/** Google-style sections listing parameters */
+const PARAMETER_SECTIONS = new Set(["Args", "Arguments", "Parameters", "Params", "Keyword Args", "Keyword Arguments"]);
+/** Google-style sections describing the return value */
+const RETURN_SECTIONS = new Set(["Returns", "Return"]);
+
+/**
+ * Set `documentation` on the symbols that have doc comments or a docstring.
+ * `tokens` is the full token stream the symbols were detected in. A doc
+ * comment takes precedence over a docstring.
+ */
+export function attachDocumentation(
+  symbols: CodeSymbol[],
+  tokens: Token[],
+  config: DocumentationConfig,
+): void {
+  const isDocComment = docCommentMatcher(config.comments ?? []);
+  const docstrings = new Set(config.docstrings ?? []);
+
+  // Index of the token each symbol starts at
+  const indexByOffset = new Map<number, number>();
+  tokens.forEach((token, i) => {
+    if (!isTrivia(token) && !indexByOffset.has(token.range.start.offset)) {
+      indexByOffset.set(token.range.start.offset, i);
+    }
+  });
+
+  for (const symbol of symbols) {
+    const start = indexByOffset.get(symbol.contentRange.start.offset);
+    if (start === undefined) continue;
+
+    let span = precedingDocComments(tokens, start, isDocComment);
+    if (!span && docstrings.size > 0 && symbol.signature !== undefined) {
+      const docstring = findDocstring(tokens, start, symbol.contentRange.end.offset, docstrings);
+      if (docstring !== undefined) span = [docstring, docstring];
+    }
+    if (span) symbol.documentation = readDocumentation(tokens, span[0], span[1]);
+  }
+}
+
+function docCommentMatcher(rules: DocCommentRule[]): (token: Token) => boolean {
+  const matchers = rules.map((rule) => ({
+    token: rule.token,
+    pattern: rule.pattern !== undefined ? new RegExp(rule.pattern) : undefined,
+  }));
+  return (token) =>
+    matchers.some(
+      (matcher) => token.type === matcher.token && (matcher.pattern === undefined || matcher.pattern.test(token.value)),
+    );
+}
+
+/**
+ * Token indices of the first and last doc comment on the lines right above
+ * tokens[start], or undefined if there are none
+ */
+function precedingDocComments(
+  tokens: Token[],
+  start: number,
+  isDocComment: (token: Token) => boolean,
+): [number, number] | undefined {
+  const line = tokens[start].range.start.line;
+  let i = start - 1;
+  // Pass over the start of the symbol's line, back to the end of a statement
+  while (
+    i >= 0 &&
+    tokens[i].range.start.line === line &&
+    !isDocComment(tokens[i]) &&
+    tokens[i].value !== ";" &&
+    tokens[i].value !== "}"
+  ) {
+    i--;
+  }
+
+  let first: number | undefined;
+  let last: number | undefined;
+  let nextLine = line;
+  for (; i >= 0; i--) {
+    const token = tokens[i];
+    if (isBlank(token)) continue;
+    if (!isDocComment(token) || token.range.end.line < nextLine - 1 || !startsLine(tokens, i)) break;
+    first = i;
+    last ??= i;
+    nextLine = token.range.start.line;
+  }
+  return first === undefined ? undefined : [first, last!];
+}
+
+/** Whether tokens[index] is the first token on its line */
+function startsLine(tokens: Token[], index: number): boolean {
+  for (let i = index - 1; i >= 0; i--) {
+    const token = tokens[i];
+    if (token.category === "newline") return true;
+    if (!isBlank(token)) return token.range.end.line < tokens[index].range.start.line;
+  }
+  return true;
+}
+
+/**
+ * Index of the docstring opening the body of the symbol starting at
+ * tokens[start]: a string after the `:` ending the header that is a
+ * statement of its own
+ */
+function findDocstring(
+  tokens: Token[],
+  start: number,
+  endOffset: number,
+  docstrings: Set<string>,
+): number | undefined {
+  let i = start;
+  let depth = 0;
+  for (; i < tokens.length && tokens[i].range.start.offset < endOffset; i++) {
+    const value = tokens[i].value;
+    if (depth === 0 && value === ":") break;
+    if (value === "(" || value === "[" || value === "{") depth++;
+    else if (value === ")" || value === "]" || value === "}") depth--;
+  }
+
+  const docstring = nextSignificant(tokens, i + 1);
+  if (docstring === undefined) return undefined;
+  const token = tokens[docstring];
+  if (!docstrings.has(token.type) || token.range.start.offset >= endOffset) return undefined;
+
+  // `"a" + b` or `"x".join(...)` start an expression, not a docstring
+  const after = nextSignificant(tokens, docstring + 1);
+  if (after !== undefined && tokens[after].range.start.line === token.range.end.line && tokens[after].value !== ";") {
+    return undefined;
+  }
+  return docstring;
+}
+
+function nextSignificant(tokens: Token[], from: number): number | undefined {
+  for (let i = from; i < tokens.length; i++) {
+    if (!isTrivia(tokens[i])) return i;
+  }
+  return undefined;
+}
+
+/** Whitespace, line breaks and zero-width tokens such as indent / dedent */
+function isBlank(token: Token): boolean {
+  return token.category === "whitespace" || token.category === "newline" || token.value === "";
+}
+
+function isTrivia(token: Token): boolean {
+  return isBlank(token) || token.category === "comment";
+}
+
+// ---------------------------------------------------------------------------
+// Reading documentation text
+// ---------------------------------------------------------------------------
+
+/** Documentation from tokens[first..last]: doc comments and the blanks between them, or a docstring */
+function readDocumentation(tokens: Token[], first: number, last: number): SymbolDocumentation {
+  const docTokens = tokens.slice(first, last + 1);
+  const lines = dedent(docTokens.filter((token) => !isBlank(token)).flatMap((token) => contentLines(token.value)));
+  const parsed = lines.some((line) => /^\s*<(summary|param|returns)\b/.test(line))
+    ? parseXmlDoc(lines.join("\n"))
+    : parseTaggedDoc(lines);
+
+  return {
+    text: docTokens.map((token) => token.value).join(""),
+    range: { start: tokens[first].range.start, end: tokens[last].range.end },
+    summary: summaryOf(parsed.description),
+    ...parsed,
+  };
+}
+
+/** Lines of a comment or docstring without its delimiters and comment markers */
+function contentLines(value: string): string[] {
+  const docstring = /^[rRuUbB]*("""|'''|"|')([\s\S]*)\1$/.exec(value);
+  if (docstring) return docstring[2].split("\n");
+
+  const block = /^\/\*+!?([\s\S]*?)\*+\/$/.exec(value);
+  if (block) return block[1].split("\n").map((line) => line.replace(/^\s*\*(?!\/)/, ""));
+
+  return value.split("\n").map((line) => line.replace(/^\s*(?:\/\/[/!]?|#+)/, ""));
+}
+
+/**
+ * Remove the indentation common to all lines but the first, which follows
+ * the opening delimiter, then blank lines at either end
+ */
+function dedent(lines: string[]): string[] {
+  const indents = lines
+    .slice(1)
+    .filter((line) => line.trim() !== "")
+    .map((line) => /^\s*/.exec(line)![0].length);
+  const indent = indents.length > 0 ? Math.min(...indents) : 0;
+  const result = lines.map((line, i) => (i === 0 ? line.trimStart() : line.slice(indent)).trimEnd());
+
+  while (result.length > 0 && result[0] === "") result.shift();
+  while (result.length > 0 && result[result.length - 1] === "") result.pop();
+  return result;
+}
+
+type ParsedDoc = Pick<SymbolDocumentation, "description" | "parameters" | "returns">;
+
+/** JSDoc / Javadoc `@param` and `@returns` tags, or Google-style `Args:` and `Returns:` sections */
+function parseTaggedDoc(lines: string[]): ParsedDoc {
+  const description: string[] = [];
+  const parameters: DocumentedParameter[] = [];
+  let returns: string | undefined;
+  // Where a line continuing the current tag or section goes
+  let append: ((line: string) => void) | undefined = (line) => description.push(line);
+  let section: string | undefined;
+  let entryIndent: number | undefined;
+
+  const addParameter = (parameter: DocumentedParameter) => {
+    parameters.push(parameter);
+    append = (line) => (parameter.description = joinLine(parameter.description, line));
+  };
+  const startReturns = (text: string) => {
+    returns = text;
+    append = (line) => (returns = joinLine(returns!, line));
+  };
+
+  for (const line of lines) {
+    const tag = /^@(\w+)\s*(.*)$/.exec(line);
+    if (tag) {
+      section = undefined;
+      append = undefined;
+      const [, name, rest] = tag;
+      if (name === "param" || name === "arg" || name === "argument") {
+        addParameter(readParamTag(rest));
+      } else if (name === "returns" || name === "return") {
+        startReturns(rest.replace(/^\{[^}]*\}\s*/, ""));
+      }
+      continue;
+    }
+
+    const header = /^([A-Z][A-Za-z ]*):$/.exec(line);
+    if (header) {
+      section = header[1];
+      entryIndent = undefined;
+      append = undefined;
+      if (RETURN_SECTIONS.has(section)) startReturns("");
+      continue;
+    }
+
+    if (section !== undefined && PARAMETER_SECTIONS.has(section) && line !== "") {
+      const indent = /^\s*/.exec(line)![0].length;
+      entryIndent ??= indent;
+      const entry = indent === entryIndent && /^\s*\**([\w.]+)\s*(?:\(([^)]*)\))?\s*:\s*(.*)$/.exec(line);
+      if (entry) {
+        const [, name, type, text] = entry;
+        addParameter({ name, ...(type !== undefined && { type }), description: text });
+        continue;
+      }
+    }
+
+    append?.(line);
+  }
+
+  return {
+    description: dedent(description).join("\n"),
+    parameters,
+    ...(returns && { returns }),
+  };
+}
+
+/** `{type} name - description`, where the name may be `[name=default]` */
+function readParamTag(text: string): DocumentedParameter {
+  const match = /^(?:\{([^}]*)\}\s*)?(\[[^\]]*\]|\S+)?\s*(?:-\s+)?(.*)$/.exec(text)!;
+  const [, type, name = "", description] = match;
+  return {
+    name: name.replace(/^\[|\]$/g, "").split("=")[0],
+    ...(type !== undefined && { type }),
+    description,
+  };
+}
+
+/** C# XML documentation: `<summary>`, `<param name="...">` and `<returns>` */
+function parseXmlDoc(xml: string): ParsedDoc {
+  const parameters: DocumentedParameter[] = [];
+  for (const [, name, text] of xml.matchAll(/<param\s+name="([^"]*)"\s*>([\s\S]*?)<\/param>/g)) {
+    parameters.push({ name, description: elementText(text).replace(/\s+/g, " ") });
+  }
+  const summary = /<summary>([\s\S]*?)<\/summary>/.exec(xml);
+  const returns = /<returns>([\s\S]*?)<\/returns>/.exec(xml);
+
+  return {
+    description: summary ? dedent(elementText(summary[1]).split("\n")).join("\n") : "",
+    parameters,
+    ...(returns && { returns: elementText(returns[1]).replace(/\s+/g, " ") }),
+  };
+}
+
+/** Element content without markup; references such as `<see cref="T"/>` keep their target */
+function elementText(content: string): string {
+  return content
+    .replace(/<\w+\s+(?:cref|name|langword)="([^"]*)"\s*\/>/g, "$1")
+    .replace(/<[^>]*>/g, "")
+    .trim();
+}
+
+/** The first paragraph on one line */
+function summaryOf(description: string): string {
+  const paragraph = description.split(/\n\s*\n/)[0];
+  return paragraph.replace(/\s+/g, " ").trim();
+}
+
+function joinLine(text: string, line: string): string {
+  const trimmed = line.trim();
+  if (trimmed === "") return text;
+  return text === "" ? trimmed : `${text} ${trimmed}`;
+}
@@ -0,0 +1,134 @@
+// ---------------------------------------------------------------------------
+// Folding Ranges
+//
+// Computes editor folding ranges from a token stream: multi-line blocks
+// (from findBlockSpans), multi-line comments, runs of import symbols, and
+// the open/close token pairs of the profile's FoldingRules.
+// ---------------------------------------------------------------------------
+
+import type { LanguageProfile } from "../schema/profile.js";
+import type { FoldingRule, FoldingTokenMatch } from "../schema/structure.js";
+import type { Token } from "../types/token.js";
+import type { CodeSymbol } from "../types/tree.js";
+import type { FoldingRange } from "../types/folding.js";
+import { tokenizeWithConfig } from "../lexer/lexer.js";
+import { findBlockSpans } from "./block-tracker.js";
+import { extractSymbolsFromTokens } from "./structure-parser.js";
+import { outerFirst } from "./symbol-hierarchy.js";
+
+/** Compute folding ranges for source code using a language profile */
+export function getFoldingRangesFromProfile(
+  source: string,
+  profile: LanguageProfile,
+): FoldingRange[] {
+  const tokens = tokenizeWithConfig(source, profile.lexer);
+  return getFoldingRangesFromTokens(tokens, profile);
+}
+
+/**
+ * Compute folding ranges from a pre-tokenized token stream.
+ * Returns ranges sorted by start line, at most one per start line (the
+ * outermost); ranges that don't span more than one line are left out.
+ */
+export function getFoldingRangesFromTokens(
+  tokens: Token[],
+  profile: LanguageProfile,
+): FoldingRange[] {
+  const ranges: FoldingRange[] = [];
+  const add = (startLine: number, endLine: number, kind: FoldingRange["kind"]) => {
+    if (endLine > startLine) ranges.push({ startLine, endLine, kind });
+  };
+
+  for (const token of tokens) {
+    if (token.category === "comment") {
+      add(token.range.start.line, token.range.end.line, "comment");
+    }
+  }
+
+  const structure = profile.structure;
+  if (structure) {
+    for (const span of findBlockSpans(tokens, structure.blocks)) {
+      add(tokens[span.openIndex].range.start.line, tokens[span.closeIndex].range.end.line, "region");
+    }
+
+    const skipTokens = new Set(profile.lexer.skipTokens ?? []);
+    const symbols = extractSymbolsFromTokens(tokens, profile);
+    for (const run of importRuns(symbols, tokens, skipTokens)) {
+      add(run.start, run.end, "imports");
+    }
+
+    for (const rule of structure.folding ?? []) {
+      for (const [open, close] of pairFoldingTokens(tokens, rule)) {
+        add(open.range.start.line, close.range.end.line, rule.kind ?? "region");
+      }
+    }
+  }
+
+  ranges.sort((a, b) => a.startLine - b.startLine || b.endLine - a.endLine);
+  return ranges.filter((range, i) => i === 0 || ranges[i - 1].startLine !== range.startLine);
+}
+
+/**
+ * Line spans of consecutive import symbols: imports with nothing but
+ * skipped tokens (whitespace, comments) between them.
+ */
+function importRuns(
+  symbols: CodeSymbol[],
+  tokens: Token[],
+  skipTokens: Set<string>,
+): Array<{ start: number; end: number }> {
+  const runs: Array<{ start: number; end: number }> = [];
+  let run: { start: number; end: number; endOffset: number } | undefined;
+  let tokenIndex = 0;
+
+  for (const symbol of outerFirst(symbols)) {
+    if (symbol.kind !== "import") continue;
+    const { start, end } = symbol.contentRange;
+
+    if (run) {
+      // Skip to the first token after the run, then look for code before this import
+      while (tokenIndex < tokens.length && tokens[tokenIndex].range.start.offset < run.endOffset) tokenIndex++;
+      let adjacent = true;
+      while (tokenIndex < tokens.length && tokens[tokenIndex].range.start.offset < start.offset) {
+        if (!skipTokens.has(tokens[tokenIndex].type)) adjacent = false;
+        tokenIndex++;
+      }
+      if (adjacent) {
+        if (end.offset > run.endOffset) {
+          run.end = end.line;
+          run.endOffset = end.offset;
+        }
+        continue;
+      }
+    }
+
+    run = { start: start.line, end: end.line, endOffset: end.offset };
+    runs.push(run);
+  }
+  return runs.map(({ start, end }) => ({ start, end }));
+}
+
+/** Open and close tokens of a folding rule, paired innermost first */
+function pairFoldingTokens(tokens: Token[], rule: FoldingRule): Array<[Token, Token]> {
+  const isOpen = tokenMatcher(rule.open);
+  const isClose = tokenMatcher(rule.close);
+  const pairs: Array<[Token, Token]> = [];
+  const open: Token[] = [];
+
+  for (const token of tokens) {
+    if (open.length > 0 && isClose(token)) {
+      pairs.push([open.pop()!, token]);
+    } else if (isOpen(token)) {
+      open.push(token);
+    }
+  }
+  return pairs;
+}
+
+function tokenMatcher(match: FoldingTokenMatch): (token: Token) => boolean {
+  const pattern = match.pattern !== undefined ? new RegExp(match.pattern) : undefined;
+  return (token) =>
+    token.type === match.token &&
+    (match.value === undefined || token.value === match.value) &&
+    (pattern === undefined || pattern.test(token.value));
+}
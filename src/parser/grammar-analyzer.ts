@@ -0,0 +1,318 @@
+// ---------------------------------------------------------------------------
+// Grammar Analyzer
+//
+// Static checks for GrammarConfig authors. Mistakes in a grammar otherwise
+// only show up as parse failures: left recursion is cut off by the parser's
+// recursion guard, a repeat over an empty-matching body stops after zero
+// iterations, and misspelled rule or token names never match.
+// ---------------------------------------------------------------------------
+
+import type {
+  GrammarConfig,
+  Production,
+  ProductionElement,
+} from "../schema/grammar.js";
+import type { LexerConfig } from "../schema/lexer.js";
+import type { DiagnosticSeverity } from "../types/diagnostic.js";
+import { compileOperatorPrecedence } from "./precedence.js";
+
+/** Category of a grammar problem */
+export type GrammarIssueKind =
+  | "left-recursion"
+  | "undefined-rule"
+  | "unknown-token-type"
+  | "unreachable-rule"
+  | "empty-repeat";
+
+/** A problem found in a GrammarConfig */
+export interface GrammarIssue {
+  kind: GrammarIssueKind;
+  severity: DiagnosticSeverity;
+  message: string;
+  /** Rule the problem was found in (absent for grammar-level settings) */
+  rule?: string;
+}
+
+/**
+ * Check a grammar for structural mistakes.
+ * Operator productions handled by precedence climbing (`[E, op, E]`) are
+ * not reported as left recursion. Returns an empty array for a sound grammar.
+ */
+export function analyzeGrammar(
+  grammar: GrammarConfig,
+  lexer: LexerConfig,
+): GrammarIssue[] {
+  const issues: GrammarIssue[] = [];
+  const rules = grammar.rules;
+  const ruleNames = Object.keys(rules);
+
+  // --- References: undefined rules and unknown token types ---
+
+  const reported = new Set<string>();
+  const report = (issue: GrammarIssue) => {
+    const key = `${issue.kind}:${issue.rule}:${issue.message}`;
+    if (reported.has(key)) return;
+    reported.add(key);
+    issues.push(issue);
+  };
+
+  const checkToken = (token: string, rule?: string) => {
+    if (token in lexer.tokenTypes) return;
+    report({
+      kind: "unknown-token-type",
+      severity: "error",
+      message: rule
+        ? `Rule "${rule}" uses unknown token type "${token}"`
+        : `Grammar skipTokens lists unknown token type "${token}"`,
+      rule,
+    });
+  };
+
+  if (!(grammar.entry in rules)) {
+    report({
+      kind: "undefined-rule",
+      severity: "error",
+      message: `Entry rule "${grammar.entry}" is not defined`,
+    });
+  }
+  for (const strategy of grammar.recovery ?? []) {
+    if (!(strategy.context in rules)) {
+      report({
+        kind: "undefined-rule",
+        severity: "error",
+        message: `Recovery context "${strategy.context}" is not defined`,
+      });
+    }
+  }
+  for (const token of grammar.skipTokens ?? []) checkToken(token);
+
+  for (const name of ruleNames) {
+    forEachElement(rules[name].alternatives, (element) => {
+      if ("rule" in element && !(element.rule in rules)) {
+        report({
+          kind: "undefined-rule",
+          severity: "error",
+          message: `Rule "${name}" references undefined rule "${element.rule}"`,
+          rule: name,
+        });
+      }
+      if ("token" in element) checkToken(element.token, name);
+      if ("repeat" in element && element.separator) {
+        checkToken(element.separator.token, name);
+      }
+    });
+  }
+
+  // --- Empty repeats ---
+
+  const nullable = computeNullable(grammar);
+  for (const name of ruleNames) {
+    forEachElement(rules[name].alternatives, (element) => {
+      if ("repeat" in element && !element.separator && isNullable(element.repeat, nullable)) {
+        report({
+          kind: "empty-repeat",
+          severity: "error",
+          message: `Rule "${name}" has a repeat whose body can match empty input`,
+          rule: name,
+        });
+      }
+    });
+  }
+
+  // --- Left recursion ---
+
+  const operatorProductions = new Set<Production>();
+  for (const table of compileOperatorPrecedence(grammar).tables.values()) {
+    for (const op of [...table.binary, ...table.unary]) {
+      operatorProductions.add(op.production);
+    }
+  }
+
+  const leftEdges = new Map<string, Set<string>>();
+  for (const name of ruleNames) {
+    const edges = new Set<string>();
+    for (const production of rules[name].alternatives) {
+      if (operatorProductions.has(production)) continue;
+      collectLeftRules(production, nullable, edges);
+    }
+    leftEdges.set(name, edges);
+  }
+
+  for (const cycle of findCycles(ruleNames, leftEdges)) {
+    const direct = cycle.length === 1;
+    report({
+      kind: "left-recursion",
+      severity: "error",
+      message: direct
+        ? `Rule "${cycle[0]}" is left-recursive`
+        : `Rules are left-recursive: ${[...cycle, cycle[0]].join(" -> ")}`,
+      rule: cycle[0],
+    });
+  }
+
+  // --- Unreachable rules ---
+
+  const reachable = new Set<string>();
+  const pending = grammar.entry in rules ? [grammar.entry] : [];
+  while (pending.length > 0) {
+    const name = pending.pop()!;
+    if (reachable.has(name)) continue;
+    reachable.add(name);
+    forEachElement(rules[name].alternatives, (element) => {
+      if ("rule" in element && element.rule in rules) pending.push(element.rule);
+    });
+  }
+  if (grammar.entry in rules) {
+    for (const name of ruleNames) {
+      if (reachable.has(name)) continue;
+      report({
+        kind: "unreachable-rule",
+        severity: "warning",
+        message: `Rule "${name}" is not reachable from entry rule "${grammar.entry}"`,
+        rule: name,
+      });
+    }
+  }
+
+  return issues;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+type Body = ProductionElement | Production;
+
+/** Call `visit` for every element, including those nested in other elements */
+function forEachElement(
+  productions: Production[],
+  visit: (element: ProductionElement) => void,
+): void {
+  const walkBody = (body: Body) => {
+    for (const element of Array.isArray(body) ? body : [body]) {
+      visit(element);
+      if ("optional" in element) walkBody(element.optional);
+      else if ("repeat" in element) walkBody(element.repeat);
+      else if ("choice" in element) element.choice.forEach(walkBody);
+      else if ("prec" in element) walkBody(element.element);
+    }
+  };
+  productions.forEach(walkBody);
+}
+
+/** Rules that can match without consuming a token, computed to a fixpoint */
+function computeNullable(grammar: GrammarConfig): Set<string> {
+  const nullable = new Set<string>();
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const [name, rule] of Object.entries(grammar.rules)) {
+      if (nullable.has(name)) continue;
+      if (rule.alternatives.some((production) => isNullable(production, nullable))) {
+        nullable.add(name);
+        changed = true;
+      }
+    }
+  }
+  return nullable;
+}
+
+function isNullable(body: Body, nullable: Set<string>): boolean {
+  if (Array.isArray(body)) return body.every((element) => isNullable(element, nullable));
+  if ("token" in body) return false;
+  if ("rule" in body) return nullable.has(body.rule);
+  if ("optional" in body) return true;
+  if ("repeat" in body) return (body.min ?? 0) === 0 || isNullable(body.repeat, nullable);
+  if ("choice" in body) return body.choice.some((production) => isNullable(production, nullable));
+  return isNullable(body.element, nullable);
+}
+
+/**
+ * Add the rules `body` can start with: its first element's rules, then
+ * the next element's as long as everything before it can match empty.
+ */
+function collectLeftRules(body: Body, nullable: Set<string>, into: Set<string>): void {
+  for (const element of Array.isArray(body) ? body : [body]) {
+    if ("rule" in element) into.add(element.rule);
+    else if ("optional" in element) collectLeftRules(element.optional, nullable, into);
+    else if ("repeat" in element) collectLeftRules(element.repeat, nullable, into);
+    else if ("choice" in element) {
+      for (const production of element.choice) collectLeftRules(production, nullable, into);
+    } else if ("prec" in element) collectLeftRules(element.element, nullable, into);
+
+    if (!isNullable(element, nullable)) return;
+  }
+}
+
+/**
+ * One cycle per strongly connected component of the left-edge graph
+ * (Tarjan's algorithm), starting at the component's first rule.
+ */
+function findCycles(names: string[], edges: Map<string, Set<string>>): string[][] {
+  const index = new Map<string, number>();
+  const low = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const components: string[][] = [];
+
+  const connect = (name: string) => {
+    index.set(name, index.size);
+    low.set(name, index.get(name)!);
+    stack.push(name);
+    onStack.add(name);
+
+    for (const next of edges.get(name) ?? []) {
+      if (!edges.has(next)) continue;
+      if (!index.has(next)) {
+        connect(next);
+        low.set(name, Math.min(low.get(name)!, low.get(next)!));
+      } else if (onStack.has(next)) {
+        low.set(name, Math.min(low.get(name)!, index.get(next)!));
+      }
+    }
+
+    if (low.get(name) === index.get(name)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== name);
+      components.push(component);
+    }
+  };
+
+  for (const name of names) {
+    if (!index.has(name)) connect(name);
+  }
+
+  const cycles: string[][] = [];
+  for (const component of components) {
+    const members = new Set(component);
+    const start = names.find((name) => members.has(name))!;
+    if (component.length === 1 && !edges.get(start)?.has(start)) continue;
+    cycles.push(cyclePath(start, members, edges));
+  }
+  return cycles.sort((a, b) => names.indexOf(a[0]) - names.indexOf(b[0]));
+}
+
+/** Shortest path from `start` back to itself within one component */
+function cyclePath(start: string, members: Set<string>, edges: Map<string, Set<string>>): string[] {
+  const previous = new Map<string, string>();
+  const queue = [start];
+  while (queue.length > 0) {
+    const name = queue.shift()!;
+    for (const next of edges.get(name) ?? []) {
+      if (next === start) {
+        const path = [name];
+        while (path[0] !== start) path.unshift(previous.get(path[0])!);
+        return path;
+      }
+      if (!members.has(next) || previous.has(next)) continue;
+      previous.set(next, name);
+      queue.push(next);
+    }
+  }
+  return [start];
+}
@@ -0,0 +1,877 @@
+// ---------------------------------------------------------------------------
+// Grammar Parser
+//
+// Level 3 engine. Interprets a profile's GrammarConfig (PEG-style rules)
+// over the significant tokens of a token stream and builds a SyntaxNode
+// tree with fields, children, parent links and ranges.
+//
+// When the input does not match, a second pass runs with error recovery:
+// once a production has consumed a token it is committed, and a failing
+// element either skips ahead (ERROR node) or is assumed absent (MISSING
+// node), resynchronizing on the sync tokens of the innermost rule that
+// declares a RecoveryStrategy.
+//
+// Operator productions (see precedence.ts) are parsed by precedence
+// climbing driven by PrecedenceLevel / PrecElement declarations.
+//
+// Rule results are memoized per (rule, token index) - packrat parsing - so
+// backtracking over alternatives stays linear in the input size.
+// ---------------------------------------------------------------------------
+
+import type { Position, Range } from "../schema/common.js";
+import type {
+  GrammarConfig,
+  Production,
+  ProductionElement,
+  RuleElement,
+} from "../schema/grammar.js";
+import type { LanguageProfile } from "../schema/profile.js";
+import type { Token } from "../types/token.js";
+import type { SyntaxNode } from "../types/tree.js";
+import { tokenizeWithConfig } from "../lexer/lexer.js";
+import { attachTrivia } from "./trivia.js";
+import {
+  compileOperatorPrecedence,
+  type OperatorPrecedence,
+  type OperatorTable,
+} from "./precedence.js";
+
+/** Options for constructing a GrammarParser */
+export interface GrammarParserOptions {
+  /** Token types ignored by the grammar (usually the lexer's skipTokens) */
+  skipTokens?: string[];
+  /**
+   * Memoize rule results per token index (default: true). Turning this off
+   * saves the memo table's memory on small inputs, at the risk of
+   * exponential backtracking on large ones.
+   */
+  memoize?: boolean;
+}
+
+/** Per-parse options */
+export interface ParseOptions {
+  /**
+   * Attach skipped tokens to the token leaves as `leadingTrivia` and
+   * `trailingTrivia`, so that printTree() reproduces the source exactly.
+   */
+  trivia?: boolean;
+  /** Memoize rule results for this parse, overriding the parser's `memoize` option */
+  memoize?: boolean;
+}
+
+/** Memoization counters of a single parse */
+export interface ParseStats {
+  /** Rule matches answered from the memo table */
+  memoHits: number;
+  /** Rule matches computed (and stored) because no memo entry existed */
+  memoMisses: number;
+}
+
+/** A syntax error found (and recovered from) while parsing */
+export interface ParseError {
+  /** Human-readable description */
+  message: string;
+  /** Source span of the ERROR node, or the zero-width MISSING position */
+  range: Range;
+  /** Descriptions of the tokens that would have been accepted */
+  expected: string[];
+  /** Grammar rule whose recovery strategy was active, if any */
+  context?: string;
+}
+
+/** Result of a parse with error reporting */
+export interface GrammarParseResult {
+  /** Root node (contains ERROR / MISSING nodes if errors were recovered) */
+  tree: SyntaxNode;
+  /** Errors in source order (empty when the input matched the grammar) */
+  errors: ParseError[];
+  /** Memoization counters (both 0 when memoization is disabled) */
+  stats: ParseStats;
+}
+
+/** Result of matching an element: nodes produced and where matching stopped */
+interface Match {
+  /** Index into the significant token array after the match */
+  end: number;
+  /** Nodes produced by the match, in source order */
+  nodes: SyntaxNode[];
+  /** Field assignments made by the match */
+  fields: Array<[string, SyntaxNode]>;
+}
+
+/** Active recovery context: rule name + its sync tokens */
+interface RecoveryContext {
+  rule: string;
+  syncTokens: Set<string>;
+}
+
+/** Grammar plus the lookup tables derived from it */
+interface CompiledGrammar {
+  grammar: GrammarConfig;
+  /** Recovery contexts keyed by rule name */
+  recovery: Map<string, RecoveryContext>;
+  /** Operator productions and precedence resolution */
+  operators: OperatorPrecedence;
+}
+
+/** Parses token streams with a compiled GrammarConfig */
+export class GrammarParser {
+  private readonly compiled: CompiledGrammar;
+  private readonly skipTokens: Set<string>;
+  private readonly memoize: boolean;
+
+  constructor(grammar: GrammarConfig, options: GrammarParserOptions = {}) {
+    if (!grammar.rules[grammar.entry]) {
+      throw new Error(`Unknown grammar entry rule: "${grammar.entry}"`);
+    }
+    this.skipTokens = new Set(options.skipTokens ?? []);
+    this.memoize = options.memoize ?? true;
+
+    const recovery = new Map<string, RecoveryContext>();
+    for (const strategy of grammar.recovery ?? []) {
+      recovery.set(strategy.context, {
+        rule: strategy.context,
+        syncTokens: new Set(strategy.syncTokens),
+      });
+    }
+    this.compiled = {
+      grammar,
+      recovery,
+      operators: compileOperatorPrecedence(grammar),
+    };
+  }
+
+  /**
+   * Parse a token stream into a SyntaxNode tree rooted at the entry rule.
+   * Syntax errors are recovered from and appear as ERROR / MISSING nodes.
+   *
+   * @param tokens - Full token stream (skip tokens included)
+   * @param source - Original source; reconstructed from tokens if omitted
+   * @param options - Per-parse options (e.g. trivia, memoize)
+   */
+  parse(tokens: Token[], source?: string, options: ParseOptions = {}): SyntaxNode {
+    return this.parseWithErrors(tokens, source, options).tree;
+  }
+
+  /**
+   * Parse a token stream and report the syntax errors that were recovered.
+   *
+   * @param tokens - Full token stream (skip tokens included)
+   * @param source - Original source; reconstructed from tokens if omitted
+   * @param options - Per-parse options (e.g. trivia, memoize)
+   */
+  parseWithErrors(
+    tokens: Token[],
+    source?: string,
+    options: ParseOptions = {},
+  ): GrammarParseResult {
+    const session = new ParseSession(
+      this.compiled,
+      tokens,
+      source ?? tokens.map((t) => t.value).join(""),
+      this.skipTokens,
+      options.memoize ?? this.memoize,
+    );
+    const result = session.run();
+    if (options.trivia) attachTrivia(result.tree, tokens, this.skipTokens);
+    return result;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Parse session: per-input state
+// ---------------------------------------------------------------------------
+
+class ParseSession {
+  /** Significant (non-skip) tokens */
+  private readonly significant: Token[] = [];
+  /** (rule, position) pairs currently being expanded - guards left recursion */
+  private readonly active = new Set<string>();
+  /** Whether the recovery pass is running */
+  private recovering = false;
+  /** Recovery contexts of the rules currently being expanded */
+  private readonly contexts: RecoveryContext[] = [];
+  /** Error details for ERROR / MISSING nodes created during recovery */
+  private readonly errorInfo = new Map<SyntaxNode, ParseError>();
+  /** Clean rule results keyed by "rule:minPrec", then token index */
+  private readonly memo = new Map<string, Map<number, Match | null>>();
+  private readonly stats: ParseStats = { memoHits: 0, memoMisses: 0 };
+  /** Times the left-recursion guard cut off a match */
+  private guardHits = 0;
+
+  private readonly grammar: GrammarConfig;
+
+  constructor(
+    private readonly compiled: CompiledGrammar,
+    tokens: Token[],
+    private readonly source: string,
+    skipTokens: Set<string>,
+    private readonly memoize: boolean,
+  ) {
+    this.grammar = compiled.grammar;
+    for (const token of tokens) {
+      if (!skipTokens.has(token.type)) this.significant.push(token);
+    }
+  }
+
+  run(): GrammarParseResult {
+    const entry = this.grammar.entry;
+    const total = this.significant.length;
+
+    const match = this.matchRule(entry, 0);
+    if (match && match.end === total) {
+      const tree = this.buildNode(entry, match, 0);
+      linkParents(tree);
+      return { tree, errors: [], stats: this.stats };
+    }
+
+    // Recovery pass: find the first position where the entry rule matches,
+    // wrapping anything before and after it in ERROR nodes. The entry skips
+    // the clean attempt: a clean match of a prefix would hide the errors.
+    this.recovering = true;
+    const result: Match = { end: 0, nodes: [], fields: [] };
+    let start = 0;
+    let entryMatch: Match | null = null;
+    while (start < total) {
+      entryMatch = this.matchRule(entry, start, 0, false);
+      if (entryMatch && entryMatch.end > start) break;
+      entryMatch = null;
+      start++;
+    }
+
+    if (entryMatch) {
+      if (start > 0) {
+        result.nodes.push(this.buildError(0, start, this.firstOf({ rule: entry })));
+      }
+      appendMatch(result, entryMatch);
+      if (entryMatch.end < total) {
+        result.nodes.push(
+          this.buildError(entryMatch.end, total, ["end of input"]),
+        );
+      }
+    } else if (total > 0) {
+      result.nodes.push(this.buildError(0, total, this.firstOf({ rule: entry })));
+    } else {
+      result.nodes.push(this.buildMissing({ rule: entry }, 0));
+    }
+    result.end = total;
+
+    const tree = this.buildNode(entry, result, 0);
+    linkParents(tree);
+    return { tree, errors: this.collectErrors(tree), stats: this.stats };
+  }
+
+  // ---- Rules ----
+
+  /**
+   * Match a rule at `pos`. For expression rules, `minPrec` is the lowest
+   * operator precedence the match may absorb.
+   *
+   * Results outside the recovery pass are memoized: they do not depend on
+   * the active recovery contexts. Results cut short by the left-recursion
+   * guard are not, since they depend on which rules were being expanded.
+   */
+  private matchRule(
+    name: string,
+    pos: number,
+    minPrec = 0,
+    cleanFirst = true,
+  ): Match | null {
+    if (!this.memoize || this.recovering) {
+      return this.expandRule(name, pos, minPrec, cleanFirst);
+    }
+
+    const memoKey = `${name}:${minPrec}`;
+    let table = this.memo.get(memoKey);
+    if (!table) {
+      table = new Map();
+      this.memo.set(memoKey, table);
+    }
+    const cached = table.get(pos);
+    if (cached !== undefined) {
+      this.stats.memoHits++;
+      return cached;
+    }
+
+    this.stats.memoMisses++;
+    const guardHits = this.guardHits;
+    const match = this.expandRule(name, pos, minPrec, cleanFirst);
+    if (this.guardHits === guardHits) table.set(pos, match);
+    return match;
+  }
+
+  private expandRule(
+    name: string,
+    pos: number,
+    minPrec: number,
+    cleanFirst: boolean,
+  ): Match | null {
+    const rule = this.grammar.rules[name];
+    if (!rule) {
+      throw new Error(`Unknown grammar rule: "${name}"`);
+    }
+
+    const key = `${name}@${pos}`;
+    if (this.active.has(key)) {
+      this.guardHits++;
+      return null;
+    }
+    this.active.add(key);
+    const context = this.compiled.recovery.get(name);
+    if (context) this.contexts.push(context);
+    try {
+      const table = this.compiled.operators.tables.get(name);
+      return table
+        ? this.matchExpression(name, table, pos, minPrec)
+        : this.matchAlternatives(rule.alternatives, pos, cleanFirst);
+    } finally {
+      if (context) this.contexts.pop();
+      this.active.delete(key);
+    }
+  }
+
+  /**
+   * Try productions in order. During recovery, every production is first
+   * tried without recovery so that a later alternative that matches cleanly
+   * wins over an earlier one that would need repairs.
+   */
+  private matchAlternatives(
+    productions: Production[],
+    pos: number,
+    cleanFirst = true,
+  ): Match | null {
+    if (cleanFirst || !this.recovering) {
+      const clean = this.withoutRecovery(() => {
+        for (const production of productions) {
+          const match = this.matchSequence(production, pos);
+          if (match) return match;
+        }
+        return null;
+      });
+      if (clean || !this.recovering) return clean;
+    }
+
+    for (const production of productions) {
+      const match = this.matchSequence(production, pos);
+      if (match) return match;
+    }
+    return null;
+  }
+
+  // ---- Operator precedence ----
+
+  /**
+   * Precedence climbing over an expression rule: parse an operand, then
+   * absorb binary operators whose precedence is at least `minPrec`.
+   */
+  private matchExpression(
+    host: string,
+    table: OperatorTable,
+    pos: number,
+    minPrec: number,
+  ): Match | null {
+    let left = this.matchOperand(host, table, pos);
+    if (!left) return null;
+
+    // Precedence of the last non-associative operator (cannot chain)
+    let nonAssoc: number | null = null;
+    for (;;) {
+      const token = this.significant[left.end];
+      if (!token) break;
+
+      let combined: Match | null = null;
+      for (const op of table.binary) {
+        const operator = this.matchElement(op.production[1], left.end);
+        if (!operator) continue;
+        const { prec, assoc } = this.compiled.operators.binary(op, token);
+        if (prec < minPrec || prec === nonAssoc) continue;
+
+        const nextMin = assoc === "right" ? prec : prec + 1;
+        const right = this.matchOperandElement(
+          op.production[2] as RuleElement,
+          operator.end,
+          nextMin,
+        );
+        if (!right) continue;
+
+        const result: Match = { end: pos, nodes: [], fields: [] };
+        appendMatch(result, this.ruleResult(op.production[0] as RuleElement, left, pos));
+        appendMatch(result, operator);
+        appendMatch(result, right);
+        combined =
+          op.rule === host ? result : this.ruleResult({ rule: op.rule }, result, pos);
+        nonAssoc = assoc === "none" ? prec : null;
+        break;
+      }
+
+      if (!combined) break;
+      left = combined;
+    }
+    return left;
+  }
+
+  /** Parse a prefix-operator expression or, failing that, a primary operand */
+  private matchOperand(
+    host: string,
+    table: OperatorTable,
+    pos: number,
+  ): Match | null {
+    const token = this.significant[pos];
+    if (token) {
+      for (const op of table.unary) {
+        const operator = this.matchElement(op.production[0], pos);
+        if (!operator) continue;
+        const prec = this.compiled.operators.unary(op, token);
+        const operand = this.matchOperandElement(
+          op.production[1] as RuleElement,
+          operator.end,
+          prec,
+        );
+        if (!operand) continue;
+
+        const result: Match = { end: pos, nodes: [], fields: [] };
+        appendMatch(result, operator);
+        appendMatch(result, operand);
+        return op.rule === host
+          ? result
+          : this.ruleResult({ rule: op.rule }, result, pos);
+      }
+    }
+    return this.matchAlternatives(table.primary, pos);
+  }
+
+  /** Match an operand after an operator; during recovery a missing operand is repaired */
+  private matchOperandElement(
+    element: RuleElement,
+    pos: number,
+    minPrec: number,
+  ): Match | null {
+    const match = this.matchRule(element.rule, pos, minPrec);
+    if (match) return this.ruleResult(element, match, pos);
+
+    const context = this.contexts[this.contexts.length - 1];
+    if (!this.recovering || !context) return null;
+    return this.recoverElement(element, pos, context);
+  }
+
+  private withoutRecovery<T>(fn: () => T): T {
+    const previous = this.recovering;
+    this.recovering = false;
+    try {
+      return fn();
+    } finally {
+      this.recovering = previous;
+    }
+  }
+
+  // ---- Elements ----
+
+  private matchSequence(production: Production, pos: number): Match | null {
+    const result: Match = { end: pos, nodes: [], fields: [] };
+    for (const element of production) {
+      let match = this.matchElement(element, result.end);
+      if (!match) {
+        // Only productions that already consumed input are committed
+        const context = this.contexts[this.contexts.length - 1];
+        if (!this.recovering || result.end === pos || !context) return null;
+        match = this.recoverElement(element, result.end, context);
+      }
+      appendMatch(result, match);
+    }
+    return result;
+  }
+
+  private matchBody(
+    body: ProductionElement | Production,
+    pos: number,
+  ): Match | null {
+    return Array.isArray(body)
+      ? this.matchSequence(body, pos)
+      : this.matchElement(body, pos);
+  }
+
+  private matchElement(element: ProductionElement, pos: number): Match | null {
+    if ("token" in element) {
+      const token = this.significant[pos];
+      if (!token || token.type !== element.token) return null;
+      if (element.value !== undefined && token.value !== element.value) {
+        return null;
+      }
+      const leaf = this.buildLeaf(token, element.value === undefined);
+      return {
+        end: pos + 1,
+        nodes: [leaf],
+        fields: element.field ? [[element.field, leaf]] : [],
+      };
+    }
+
+    if ("rule" in element) {
+      const match = this.matchRule(element.rule, pos);
+      return match ? this.ruleResult(element, match, pos) : null;
+    }
+
+    if ("optional" in element) {
+      return (
+        this.matchBody(element.optional, pos) ?? {
+          end: pos,
+          nodes: [],
+          fields: [],
+        }
+      );
+    }
+
+    if ("repeat" in element) {
+      const result: Match = { end: pos, nodes: [], fields: [] };
+      const min = element.min ?? 0;
+      let count = 0;
+      for (;;) {
+        let next = result.end;
+        let separator: Match | null = null;
+        if (count > 0 && element.separator) {
+          separator = this.matchElement(element.separator, next);
+          if (!separator) break;
+          next = separator.end;
+        }
+        const item = this.matchBody(element.repeat, next);
+        // Stop on failure or when an iteration makes no progress
+        if (!item || item.end === result.end) {
+          // A dangling separator (e.g. a trailing comma) becomes an ERROR
+          if (separator && this.recovering) {
+            result.nodes.push(
+              this.buildError(
+                result.end,
+                next,
+                this.firstOf(element.repeat),
+                this.contexts[this.contexts.length - 1],
+                `Trailing ${describeToken(this.significant[result.end])} is not allowed`,
+              ),
+            );
+            result.end = next;
+          }
+          break;
+        }
+        if (separator) appendMatch(result, separator);
+        appendMatch(result, item);
+        count++;
+      }
+      return count >= min ? result : null;
+    }
+
+    if ("choice" in element) {
+      return this.matchAlternatives(element.choice, pos);
+    }
+
+    if ("prec" in element) {
+      return this.matchElement(element.element, pos);
+    }
+
+    return null;
+  }
+
+  /** Turn a rule's match into the parent's view of it: a node, or spliced if inline */
+  private ruleResult(element: RuleElement, match: Match, pos: number): Match {
+    const inline = this.grammar.rules[element.rule].inline ?? false;
+    const nodes = inline
+      ? match.nodes
+      : [this.buildNode(element.rule, match, pos)];
+    const fields: Array<[string, SyntaxNode]> = inline
+      ? [...match.fields]
+      : [];
+    if (element.field) {
+      for (const node of nodes) fields.push([element.field, node]);
+    }
+    return { end: match.end, nodes, fields };
+  }
+
+  // ---- Error recovery ----
+
+  /**
+   * Recover from a failed element inside a committed production.
+   * Skips tokens until the element matches again (ERROR node for the
+   * skipped tokens) or a sync token of any active context is reached,
+   * in which case the element is reported as MISSING.
+   */
+  private recoverElement(
+    element: ProductionElement,
+    pos: number,
+    context: RecoveryContext,
+  ): Match {
+    const total = this.significant.length;
+    let next = pos;
+    while (next < total && !this.isSyncToken(this.significant[next])) {
+      next++;
+      const match = this.matchElement(element, next);
+      if (match) {
+        return {
+          end: match.end,
+          nodes: [
+            this.buildError(pos, next, this.firstOf(element), context),
+            ...match.nodes,
+          ],
+          fields: match.fields,
+        };
+      }
+    }
+
+    const nodes: SyntaxNode[] = [];
+    if (next > pos) {
+      nodes.push(this.buildError(pos, next, this.firstOf(element), context));
+    }
+    const missing = this.buildMissing(element, next, context);
+    nodes.push(missing);
+    return {
+      end: next,
+      nodes,
+      fields: "field" in element && element.field ? [[element.field, missing]] : [],
+    };
+  }
+
+  /**
+   * Whether a token is a sync token of any active context. Sync tokens may
+   * name either a token value or a token type; outer contexts count too, so
+   * an inner rule never skips past the token that closes its parent.
+   */
+  private isSyncToken(token: Token): boolean {
+    return this.contexts.some(
+      (context) =>
+        context.syncTokens.has(token.value) ||
+        context.syncTokens.has(token.type),
+    );
+  }
+
+  /** Describe the tokens an element can start with */
+  private firstOf(
+    body: ProductionElement | Production,
+    visited = new Set<string>(),
+  ): string[] {
+    const out = new Set<string>();
+    const elements = Array.isArray(body) ? body : [body];
+    for (const element of elements) {
+      for (const desc of this.firstOfElement(element, visited)) out.add(desc);
+      if (!this.isOptional(element)) break;
+    }
+    return [...out];
+  }
+
+  private firstOfElement(
+    element: ProductionElement,
+    visited: Set<string>,
+  ): string[] {
+    if ("token" in element) {
+      return [element.value !== undefined ? `"${element.value}"` : element.token];
+    }
+    if ("rule" in element) {
+      if (visited.has(element.rule)) return [];
+      visited.add(element.rule);
+      const rule = this.grammar.rules[element.rule];
+      if (!rule) return [element.rule];
+      return rule.alternatives.flatMap((alt) => this.firstOf(alt, visited));
+    }
+    if ("optional" in element) return this.firstOf(element.optional, visited);
+    if ("repeat" in element) return this.firstOf(element.repeat, visited);
+    if ("choice" in element) {
+      return element.choice.flatMap((alt) => this.firstOf(alt, visited));
+    }
+    return this.firstOfElement(element.element, visited);
+  }
+
+  private isOptional(element: ProductionElement): boolean {
+    return (
+      "optional" in element ||
+      ("repeat" in element && (element.min ?? 0) === 0)
+    );
+  }
+
+  private collectErrors(root: SyntaxNode): ParseError[] {
+    const errors: ParseError[] = [];
+    const visit = (node: SyntaxNode): void => {
+      const info = this.errorInfo.get(node);
+      if (info) errors.push(info);
+      for (const child of node.children) visit(child);
+    };
+    visit(root);
+    return errors;
+  }
+
+  // ---- Node construction ----
+
+  private buildLeaf(token: Token, isNamed: boolean): SyntaxNode {
+    return {
+      type: token.type,
+      isNamed,
+      fields: {},
+      children: [],
+      text: token.value,
+      range: token.range,
+      parent: null,
+    };
+  }
+
+  private buildNode(type: string, match: Match, start: number): SyntaxNode {
+    const startPos =
+      match.end > start
+        ? this.significant[start].range.start
+        : this.positionAt(start);
+    const endPos =
+      match.end > start
+        ? this.significant[match.end - 1].range.end
+        : startPos;
+
+    const fields: Record<string, SyntaxNode | SyntaxNode[]> = {};
+    for (const [name, node] of match.fields) {
+      const existing = fields[name];
+      if (existing === undefined) {
+        fields[name] = node;
+      } else if (Array.isArray(existing)) {
+        existing.push(node);
+      } else {
+        fields[name] = [existing, node];
+      }
+    }
+
+    const node: SyntaxNode = {
+      type,
+      isNamed: true,
+      fields,
+      children: match.nodes,
+      text: this.source.slice(startPos.offset, endPos.offset),
+      range: { start: startPos, end: endPos },
+      parent: null,
+    };
+    for (const child of match.nodes) child.parent = node;
+    return node;
+  }
+
+  /** ERROR node wrapping the significant tokens in [start, end) */
+  private buildError(
+    start: number,
+    end: number,
+    expected: string[],
+    context?: RecoveryContext,
+    message = `Unexpected ${describeToken(this.significant[start])}`,
+  ): SyntaxNode {
+    const leaves = this.significant
+      .slice(start, end)
+      .map((token) => this.buildLeaf(token, true));
+    const node = this.buildNode(
+      "ERROR",
+      { end, nodes: leaves, fields: [] },
+      start,
+    );
+    this.errorInfo.set(node, {
+      message,
+      range: node.range,
+      expected,
+      context: context?.rule,
+    });
+    return node;
+  }
+
+  /** Zero-width MISSING node standing in for an absent element */
+  private buildMissing(
+    element: ProductionElement,
+    pos: number,
+    context?: RecoveryContext,
+  ): SyntaxNode {
+    const node = this.buildNode("MISSING", { end: pos, nodes: [], fields: [] }, pos);
+    const expected = this.firstOf(element);
+    this.errorInfo.set(node, {
+      message: `Missing ${expected.join(" or ") || "element"}`,
+      range: node.range,
+      expected,
+      context: context?.rule,
+    });
+    return node;
+  }
+
+  /** Zero-width position before the significant token at `index` */
+  private positionAt(index: number): Position {
+    const token = this.significant[index];
+    if (token) return token.range.start;
+    const last = this.significant[this.significant.length - 1];
+    return last ? last.range.end : { line: 1, column: 0, offset: 0 };
+  }
+}
+
+function appendMatch(target: Match, match: Match): void {
+  target.end = match.end;
+  target.nodes.push(...match.nodes);
+  target.fields.push(...match.fields);
+}
+
+/**
+ * Point every child at its parent in the final tree. Memoized nodes can be
+ * wrapped by several candidate parents while backtracking, and the last one
+ * built is not necessarily the one that was kept.
+ */
+function linkParents(root: SyntaxNode): void {
+  const stack = [root];
+  while (stack.length > 0) {
+    const node = stack.pop()!;
+    for (const child of node.children) {
+      child.parent = node;
+      stack.push(child);
+    }
+  }
+}
+
+function describeToken(token: Token | undefined): string {
+  if (!token) return "end of input";
+  // A string token brings its own quotes
+  return /^(["'`]).*\1$/s.test(token.value) && token.value.length > 1 ? token.value : `"${token.value}"`;
+}
+
+// ---------------------------------------------------------------------------
+// Convenience: profile-level parsing
+// ---------------------------------------------------------------------------
+
+/** Cache of grammar parsers keyed by profile reference */
+const parserCache = new WeakMap<LanguageProfile, GrammarParser>();
+
+/**
+ * Get or create a grammar parser for the given profile.
+ * Returns undefined if the profile has no grammar (Level 3).
+ */
+export function getGrammarParser(
+  profile: LanguageProfile,
+): GrammarParser | undefined {
+  if (!profile.grammar) return undefined;
+  let parser = parserCache.get(profile);
+  if (!parser) {
+    parser = new GrammarParser(profile.grammar, {
+      skipTokens: profile.grammar.skipTokens ?? profile.lexer.skipTokens,
+    });
+    parserCache.set(profile, parser);
+  }
+  return parser;
+}
+
+/**
+ * Parse source code into a SyntaxNode tree using a language profile.
+ * Returns null if the profile has no grammar.
+ */
+export function parseFromProfile(
+  source: string,
+  profile: LanguageProfile,
+  options: ParseOptions = {},
+): SyntaxNode | null {
+  const parser = getGrammarParser(profile);
+  if (!parser) return null;
+
+  const tokens = tokenizeWithConfig(source, profile.lexer);
+  return parser.parse(tokens, source, options);
+}
+
+/**
+ * Parse a pre-tokenized token stream into a SyntaxNode tree.
+ * Useful when you already have tokens and want to avoid re-tokenizing.
+ */
+export function parseFromTokens(
+  tokens: Token[],
+  profile: LanguageProfile,
+  options: ParseOptions = {},
+): SyntaxNode | null {
+  const parser = getGrammarParser(profile);
+  if (!parser) return null;
+  return parser.parse(tokens, undefined, options);
+}
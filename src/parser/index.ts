@@ -4,8 +4,32 @@ export {
   findNextBlock,
   type BlockSpan,
 } from "./block-tracker.js";
-export { detectSymbols } from "./symbol-detector.js";
+export { detectSymbols, type DetectSymbolsOptions } from "./symbol-detector.js";
 export {
   extractSymbolsFromProfile,
   extractSymbolsFromTokens,
+  extractSymbolTreeFromProfile,
 } from "./structure-parser.js";
+export { buildSymbolHierarchy } from "./symbol-hierarchy.js";
+export { attachDocumentation } from "./documentation.js";
+export {
+  getFoldingRangesFromProfile,
+  getFoldingRangesFromTokens,
+} from "./folding.js";
+export {
+  GrammarParser,
+  getGrammarParser,
+  parseFromProfile,
+  parseFromTokens,
+  type GrammarParserOptions,
+  type GrammarParseResult,
+  type ParseError,
+  type ParseOptions,
+  type ParseStats,
+} from "./grammar-parser.js";
+export { validateFromProfile, validateTokens } from "./validator.js";
+export {
+  analyzeGrammar,
+  type GrammarIssue,
+  type GrammarIssueKind,
+} from "./grammar-analyzer.js";
@@ -0,0 +1,181 @@
+// ---------------------------------------------------------------------------
+// Operator Precedence
+//
+// Finds operator productions in a GrammarConfig so the grammar parser can
+// parse them with precedence climbing instead of PEG backtracking (which
+// cannot handle the left recursion of `expr op expr`).
+//
+// A rule E is an expression rule when it has operator alternatives, either
+// directly or through an alternative [{ rule: R }] whose alternatives are
+// all operator productions over E:
+// - binary: [{ rule: E }, operator, { rule: E }]
+// - unary (prefix): [operator, { rule: E }]
+// where `operator` is a TokenElement or a PrecElement wrapping one.
+// ---------------------------------------------------------------------------
+
+import type {
+  GrammarConfig,
+  PrecedenceLevel,
+  Production,
+  ProductionElement,
+  RuleElement,
+} from "../schema/grammar.js";
+import type { Token } from "../types/token.js";
+
+/** Operator associativity */
+export type Associativity = "left" | "right" | "none";
+
+/** An operator production recognized for precedence climbing */
+export interface OperatorProduction {
+  /** Rule whose node the production builds */
+  rule: string;
+  /** The production itself (operands and operator) */
+  production: Production;
+  /** Explicit precedence from a PrecElement, if any */
+  prec?: number;
+  /** Explicit associativity from a PrecElement, if any */
+  assoc?: Associativity;
+}
+
+/** Operator productions of one expression rule */
+export interface OperatorTable {
+  /** Binary productions: [operand, operator, operand] */
+  binary: OperatorProduction[];
+  /** Prefix productions: [operator, operand] */
+  unary: OperatorProduction[];
+  /** Remaining alternatives, parsed as operands */
+  primary: Production[];
+}
+
+/** Compiled operator information for a whole grammar */
+export interface OperatorPrecedence {
+  /** Operator tables keyed by expression rule name */
+  tables: Map<string, OperatorTable>;
+  /** Resolve the precedence of a binary operator token */
+  binary(op: OperatorProduction, token: Token): { prec: number; assoc: Associativity };
+  /** Resolve the precedence of a prefix operator token */
+  unary(op: OperatorProduction, token: Token): number;
+}
+
+/**
+ * Collect operator productions from a grammar.
+ *
+ * Binary precedence comes from the operator's PrecElement, else from the
+ * `precedence` level listing the operator token's value, else 0 (left).
+ * Prefix operators without a PrecElement bind tighter than every binary
+ * operator.
+ */
+export function compileOperatorPrecedence(
+  grammar: GrammarConfig,
+): OperatorPrecedence {
+  const levels = new Map<string, PrecedenceLevel>();
+  for (const level of grammar.precedence ?? []) {
+    for (const op of level.operators) levels.set(op, level);
+  }
+
+  const tables = new Map<string, OperatorTable>();
+  for (const [name, rule] of Object.entries(grammar.rules)) {
+    const table: OperatorTable = { binary: [], unary: [], primary: [] };
+
+    for (const production of rule.alternatives) {
+      const own = toOperatorProduction(name, production, name);
+      if (own) {
+        (production.length === 3 ? table.binary : table.unary).push(own);
+        continue;
+      }
+
+      const delegated = operatorRuleAlternative(grammar, name, production);
+      if (delegated) {
+        for (const op of delegated) {
+          (op.production.length === 3 ? table.binary : table.unary).push(op);
+        }
+        continue;
+      }
+
+      table.primary.push(production);
+    }
+
+    if (table.binary.length > 0 || table.unary.length > 0) {
+      tables.set(name, table);
+    }
+  }
+
+  let highest = 0;
+  for (const level of grammar.precedence ?? []) {
+    highest = Math.max(highest, level.level);
+  }
+  for (const table of tables.values()) {
+    for (const op of table.binary) {
+      if (op.prec !== undefined) highest = Math.max(highest, op.prec);
+    }
+  }
+
+  return {
+    tables,
+    binary(op, token) {
+      if (op.prec !== undefined) {
+        return { prec: op.prec, assoc: op.assoc ?? "left" };
+      }
+      const level = levels.get(token.value);
+      if (level) return { prec: level.level, assoc: level.associativity };
+      return { prec: 0, assoc: "left" };
+    },
+    unary(op) {
+      return op.prec ?? highest + 1;
+    },
+  };
+}
+
+/**
+ * If `production` is [{ rule: R }] and every alternative of R is an
+ * operator production over `host`, return those productions.
+ */
+function operatorRuleAlternative(
+  grammar: GrammarConfig,
+  host: string,
+  production: Production,
+): OperatorProduction[] | null {
+  if (production.length !== 1) return null;
+  const element = production[0];
+  if (!("rule" in element) || element.rule === host) return null;
+
+  const rule = grammar.rules[element.rule];
+  if (!rule || rule.alternatives.length === 0) return null;
+
+  const ops: OperatorProduction[] = [];
+  for (const alt of rule.alternatives) {
+    const op = toOperatorProduction(element.rule, alt, host);
+    if (!op) return null;
+    ops.push(op);
+  }
+  return ops;
+}
+
+function toOperatorProduction(
+  rule: string,
+  production: Production,
+  host: string,
+): OperatorProduction | null {
+  let operator: ProductionElement;
+  if (production.length === 3) {
+    if (!isOperand(production[0], host) || !isOperand(production[2], host)) {
+      return null;
+    }
+    operator = production[1];
+  } else if (production.length === 2) {
+    if (!isOperand(production[1], host)) return null;
+    operator = production[0];
+  } else {
+    return null;
+  }
+
+  if ("token" in operator) return { rule, production };
+  if ("prec" in operator && "token" in operator.element) {
+    return { rule, production, prec: operator.prec, assoc: operator.assoc };
+  }
+  return null;
+}
+
+function isOperand(element: ProductionElement, host: string): element is RuleElement {
+  return "rule" in element && element.rule === host;
+}
@@ -0,0 +1,237 @@
+// ---------------------------------------------------------------------------
+// Semantic Checks
+//
+// Language-specific rules that a grammar cannot express, run over the
+// syntax tree after parsing (e.g. TOML forbids defining a key twice).
+// Checks are keyed by profile name.
+// ---------------------------------------------------------------------------
+
+import type { Diagnostic } from "../types/diagnostic.js";
+import type { SyntaxNode } from "../types/tree.js";
+
+/** Inspect a syntax tree and report problems */
+export type SemanticCheck = (tree: SyntaxNode) => Diagnostic[];
+
+const semanticChecks: Record<string, SemanticCheck> = {
+  toml: checkToml,
+};
+
+/** Get the semantic check for a profile, if one exists */
+export function getSemanticCheck(profileName: string): SemanticCheck | undefined {
+  return semanticChecks[profileName];
+}
+
+// ---------------------------------------------------------------------------
+// TOML: duplicate keys and table redefinitions
+// ---------------------------------------------------------------------------
+
+/** How a TOML table came into existence */
+type TomlOrigin =
+  | "implicit" // a parent of a [header], may still be defined later
+  | "header" // defined by a [header]
+  | "dotted" // created by a dotted key (a.b = 1)
+  | "inline"; // an inline table value, closed to additions
+
+interface TomlTable {
+  kind: "table";
+  origin: TomlOrigin;
+  keys: Map<string, TomlEntry>;
+}
+
+type TomlEntry = TomlTable | { kind: "array"; tables: TomlTable[] } | { kind: "value" };
+
+type Report = (node: SyntaxNode, message: string) => void;
+
+function newTable(origin: TomlOrigin): TomlTable {
+  return { kind: "table", origin, keys: new Map() };
+}
+
+function checkToml(tree: SyntaxNode): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const report: Report = (node, message) => {
+    diagnostics.push({
+      message,
+      severity: "error",
+      range: node.range,
+      expected: [],
+      source: "semantic",
+    });
+  };
+
+  const root = newTable("header");
+  let current = root;
+
+  for (const child of tree.children) {
+    const name = child.fields.name as SyntaxNode | undefined;
+    const path = name ? tomlKeyPath(name) : null;
+
+    if (child.type === "table" && path) {
+      const table = defineTable(root, path, name!, report);
+      current = table ?? newTable("header");
+    } else if (child.type === "array_table" && path) {
+      const table = appendArrayTable(root, path, name!, report);
+      current = table ?? newTable("header");
+    } else if (child.type === "pair") {
+      addPair(current, child, report);
+    }
+  }
+  return diagnostics;
+}
+
+/** Walk to the table holding `path`'s last key, creating implicit tables */
+function walkTables(
+  root: TomlTable,
+  path: string[],
+  node: SyntaxNode,
+  report: Report,
+): TomlTable | null {
+  let table = root;
+  for (let i = 0; i < path.length - 1; i++) {
+    let next = table.keys.get(path[i]);
+    if (!next) {
+      next = newTable("implicit");
+      table.keys.set(path[i], next);
+    }
+    if (next.kind === "array") next = next.tables[next.tables.length - 1];
+    if (next.kind !== "table" || next.origin === "inline") {
+      report(node, `Key "${path.slice(0, i + 1).join(".")}" is not a table`);
+      return null;
+    }
+    table = next;
+  }
+  return table;
+}
+
+function defineTable(
+  root: TomlTable,
+  path: string[],
+  node: SyntaxNode,
+  report: Report,
+): TomlTable | null {
+  const parent = walkTables(root, path, node, report);
+  if (!parent) return null;
+
+  const last = path[path.length - 1];
+  const existing = parent.keys.get(last);
+  if (!existing) {
+    const table = newTable("header");
+    parent.keys.set(last, table);
+    return table;
+  }
+  if (existing.kind === "table" && existing.origin === "implicit") {
+    existing.origin = "header";
+    return existing;
+  }
+  report(node, `Table "${path.join(".")}" is already defined`);
+  return null;
+}
+
+function appendArrayTable(
+  root: TomlTable,
+  path: string[],
+  node: SyntaxNode,
+  report: Report,
+): TomlTable | null {
+  const parent = walkTables(root, path, node, report);
+  if (!parent) return null;
+
+  const last = path[path.length - 1];
+  let array = parent.keys.get(last);
+  if (!array) {
+    array = { kind: "array", tables: [] };
+    parent.keys.set(last, array);
+  }
+  if (array.kind !== "array") {
+    report(node, `Table "${path.join(".")}" is already defined`);
+    return null;
+  }
+  const table = newTable("header");
+  array.tables.push(table);
+  return table;
+}
+
+function addPair(table: TomlTable, pair: SyntaxNode, report: Report): void {
+  const keyNode = pair.fields.key as SyntaxNode | undefined;
+  const path = keyNode ? tomlKeyPath(keyNode) : null;
+  if (!path) return;
+
+  // Dotted keys may only extend tables that dotted keys created
+  let target = table;
+  for (let i = 0; i < path.length - 1; i++) {
+    let next = target.keys.get(path[i]);
+    if (!next) {
+      next = newTable("dotted");
+      target.keys.set(path[i], next);
+    }
+    if (next.kind !== "table" || next.origin !== "dotted") {
+      report(keyNode!, `Duplicate key "${path.slice(0, i + 1).join(".")}"`);
+      return;
+    }
+    target = next;
+  }
+
+  const last = path[path.length - 1];
+  if (target.keys.has(last)) {
+    report(keyNode!, `Duplicate key "${path.join(".")}"`);
+    return;
+  }
+
+  const value = pair.fields.value as SyntaxNode | undefined;
+  const inline = value?.children[0];
+  if (inline?.type === "inline_table") {
+    const entry = newTable("dotted");
+    for (const member of inline.children) {
+      if (member.type === "pair") addPair(entry, member, report);
+    }
+    entry.origin = "inline";
+    target.keys.set(last, entry);
+  } else {
+    target.keys.set(last, { kind: "value" });
+    if (inline?.type === "array") checkArrayTables(inline, report);
+  }
+}
+
+/** Inline tables inside arrays are checked for duplicates on their own */
+function checkArrayTables(array: SyntaxNode, report: Report): void {
+  for (const element of array.children) {
+    const inner = element.type === "value" ? element.children[0] : undefined;
+    if (inner?.type === "inline_table") {
+      const scope = newTable("dotted");
+      for (const member of inner.children) {
+        if (member.type === "pair") addPair(scope, member, report);
+      }
+    } else if (inner?.type === "array") {
+      checkArrayTables(inner, report);
+    }
+  }
+}
+
+/**
+ * Split a key node into its parts. Bare keys lex with their dots
+ * ("a.b."), quoted parts are single strings. Returns null for keys
+ * that failed to parse.
+ */
+function tomlKeyPath(key: SyntaxNode): string[] | null {
+  if (key.type !== "key") return null;
+  const path: string[] = [];
+  for (const part of key.children) {
+    if (part.type === "ERROR" || part.type === "MISSING") return null;
+    if (part.type === "string") {
+      path.push(unquote(part.text));
+    } else {
+      path.push(...part.text.split(".").map((s) => s.trim()).filter(Boolean));
+    }
+  }
+  return path.length > 0 ? path : null;
+}
+
+function unquote(text: string): string {
+  if (text.startsWith('"')) {
+    try {
+      return JSON.parse(text) as string;
+    } catch {
+      return text.slice(1, -1);
+    }
+  }
+  return text.slice(1, -1);
+}
@@ -2,15 +2,18 @@
 // Structure Parser
 //
 // High-level API that combines the lexer, block tracker, and symbol
-// detector to extract CodeSymbol[] from source code.
+// detector to extract CodeSymbol[] from source code, with the doc comments
+// and docstrings that document them.
 // ---------------------------------------------------------------------------
 
 import type { LanguageProfile } from "../schema/profile.js";
 import type { Token } from "../types/token.js";
-import type { CodeSymbol } from "../types/tree.js";
+import type { CodeSymbol, CodeSymbolNode } from "../types/tree.js";
 import { tokenizeWithConfig } from "../lexer/lexer.js";
 import { findBlockSpans } from "./block-tracker.js";
+import { attachDocumentation } from "./documentation.js";
 import { detectSymbols } from "./symbol-detector.js";
+import { buildSymbolHierarchy } from "./symbol-hierarchy.js";
 
 /**
  * Extract code symbols from source code using a language profile.
@@ -27,6 +30,17 @@ export function extractSymbolsFromProfile(
   return extractSymbolsFromTokens(tokens, profile);
 }
 
+/**
+ * Extract code symbols nested by containment: a method is a child of its
+ * class. Returns the top-level symbols.
+ */
+export function extractSymbolTreeFromProfile(
+  source: string,
+  profile: LanguageProfile,
+): CodeSymbolNode[] {
+  return buildSymbolHierarchy(extractSymbolsFromProfile(source, profile));
+}
+
 /**
  * Extract code symbols from a pre-tokenized token stream.
  * Useful when you already have tokens and want to avoid re-tokenizing.
@@ -44,5 +58,16 @@ export function extractSymbolsFromTokens(
   const blockSpans = findBlockSpans(tokens, blocks);
 
   // Detect symbols using pattern matching
-  return detectSymbols(tokens, symbolRules, blockSpans, skipTokens);
+  const { caseInsensitive, keywordBlocks, parameters } = profile.structure;
+  const symbols = detectSymbols(tokens, symbolRules, blockSpans, skipTokens, {
+    indentation: profile.lexer.indentation,
+    caseInsensitive,
+    keywordBlocks,
+    parameters,
+  });
+
+  if (profile.structure.documentation) {
+    attachDocumentation(symbols, tokens, profile.structure.documentation);
+  }
+  return symbols;
 }
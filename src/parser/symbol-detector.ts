@@ -5,11 +5,24 @@
 // structural constructs (functions, classes, headings, tables, etc.).
 // ---------------------------------------------------------------------------
 
-import type { SymbolRule, TokenPatternStep } from "../schema/structure.js";
+import type { IndentationConfig } from "../schema/lexer.js";
+import type {
+  KeywordBlockConfig,
+  ParameterConfig,
+  SymbolRule,
+  TokenPatternStep,
+} from "../schema/structure.js";
 import type { Token } from "../types/token.js";
-import type { CodeSymbol } from "../types/tree.js";
+import type { CodeSymbol, SymbolParameter } from "../types/tree.js";
 import type { BlockSpan } from "./block-tracker.js";
 import { findNextBlock } from "./block-tracker.js";
+import { encloses, outerFirst } from "./symbol-hierarchy.js";
+
+/** A significant token and its index in the full token array */
+interface FilteredToken {
+  token: Token;
+  originalIndex: number;
+}
 
 /** Internal match result from pattern matching */
 interface PatternMatch {
@@ -17,10 +30,30 @@ interface PatternMatch {
   startIndex: number;
   /** Token index after the last matched token */
   endIndex: number;
-  /** Captured values by name */
-  captures: Record<string, string>;
-  /** Captured token positions by capture name (index in filtered token array) */
-  captureIndices: Record<string, number>;
+  /** Captures in match order */
+  captures: Capture[];
+}
+
+/** Tokens captured by a pattern step (indices in the filtered token array) */
+interface Capture {
+  name: string;
+  start: number;
+  /** Index after the last captured token */
+  end: number;
+  /** Closing value, for a captured group */
+  close?: string;
+}
+
+/** Language settings for detectSymbols, from the profile's lexer and structure configs */
+export interface DetectSymbolsOptions {
+  /** Indentation bodies end at the lexer's dedent tokens instead of being guessed from token columns */
+  indentation?: IndentationConfig;
+  /** Pattern values match tokens in any case */
+  caseInsensitive?: boolean;
+  /** The openers that 'end-keyword' bodies count against their end keyword */
+  keywordBlocks?: KeywordBlockConfig;
+  /** How to read captured parameter lists */
+  parameters?: ParameterConfig;
 }
 
 /**
@@ -32,44 +65,73 @@ export function detectSymbols(
   rules: SymbolRule[],
   blockSpans: BlockSpan[],
   skipTokens: Set<string>,
+  options: DetectSymbolsOptions = {},
 ): CodeSymbol[] {
+  const { indentation, caseInsensitive = false, keywordBlocks, parameters } = options;
+  const sameValue: ValueComparer = caseInsensitive
+    ? (a, b) => a.toLowerCase() === b.toLowerCase()
+    : (a, b) => a === b;
+
   // Build a filtered token array (skip whitespace/comments) but keep index mapping
-  const filtered: Array<{ token: Token; originalIndex: number }> = [];
+  const filtered: FilteredToken[] = [];
   for (let i = 0; i < tokens.length; i++) {
     if (!skipTokens.has(tokens[i].type)) {
       filtered.push({ token: tokens[i], originalIndex: i });
     }
   }
 
-  const symbols: CodeSymbol[] = [];
+  // Computed on first use, per end keyword
+  const keywordBlockIndexes: Record<string, KeywordBlockIndex> = {};
+
+  const detected: Array<{ symbol: CodeSymbol; rule: SymbolRule }> = [];
   const used = new Set<number>(); // filtered indices already claimed
 
   for (const rule of rules) {
     for (let fi = 0; fi < filtered.length; fi++) {
       if (used.has(fi)) continue;
 
-      const match = tryMatch(filtered, fi, rule.pattern);
+      const match = tryMatch(filtered, fi, rule.pattern, sameValue);
       if (!match) continue;
 
-      const name = match.captures["name"] ?? rule.name;
+      const nameCapture = match.captures.filter((c) => c.name === "name").pop();
+      const name = nameCapture ? filtered[nameCapture.start].token.value : rule.name;
       const startOriginalIndex = filtered[match.startIndex].originalIndex;
       const lastMatchOriginalIndex = filtered[match.endIndex - 1]?.originalIndex ?? startOriginalIndex;
 
       let endOriginalIndex = lastMatchOriginalIndex;
+      let bodyOpenIndex: number | undefined;
 
       // Find the body end
       if (rule.hasBody) {
         if (rule.bodyStyle === "braces") {
-          // Find the next brace block after the pattern match
+          // Find the next brace block after the pattern match, unless a `;`
+          // ends the declaration first (a prototype or overload signature)
           const block = findNextBlock(blockSpans, lastMatchOriginalIndex, "braces");
-          if (block) {
+          const declarationEnd = findDeclarationEnd(tokens, lastMatchOriginalIndex, block?.openIndex ?? tokens.length);
+          if (declarationEnd !== undefined) {
+            endOriginalIndex = declarationEnd;
+          } else if (block) {
             endOriginalIndex = block.closeIndex;
+            bodyOpenIndex = block.openIndex;
           }
+        } else if (rule.bodyStyle === "indentation" && indentation) {
+          endOriginalIndex = findIndentedBlockEndIndex(tokens, lastMatchOriginalIndex, indentation);
         } else if (rule.bodyStyle === "indentation") {
           // For indentation-based bodies, find where indentation returns to
           // the same or lower level
           const baseIndent = tokens[startOriginalIndex].range.start.column;
           endOriginalIndex = findIndentationEndIndex(tokens, lastMatchOriginalIndex, baseIndent);
+        } else if (rule.bodyStyle === "end-keyword") {
+          const endKeyword = rule.endKeyword ?? "end";
+          const index = (keywordBlockIndexes[endKeyword] ??= indexKeywordBlocks(
+            filtered,
+            endKeyword,
+            keywordBlocks,
+            sameValue,
+          ));
+          endOriginalIndex = index.bodyless.has(match.startIndex)
+            ? findStatementEndIndex(tokens, lastMatchOriginalIndex)
+            : (findEndKeywordIndex(filtered, index, match.endIndex) ?? endOriginalIndex);
         } else if (rule.bodyStyle === "markup-block") {
           // For markup blocks (Markdown tables, lists, blockquotes), find next blank line or EOF
           endOriginalIndex = findMarkupBlockEndIndex(tokens, lastMatchOriginalIndex);
@@ -79,23 +141,29 @@ export function detectSymbols(
         endOriginalIndex = findStatementEndIndex(tokens, lastMatchOriginalIndex);
       }
 
-      const nameOriginalIndex =
-        match.captureIndices["name"] !== undefined
-          ? filtered[match.captureIndices["name"]].originalIndex
-          : startOriginalIndex;
+      const nameOriginalIndex = nameCapture ? filtered[nameCapture.start].originalIndex : startOriginalIndex;
 
       const nameToken = tokens[nameOriginalIndex] ?? tokens[startOriginalIndex];
       const startToken = tokens[startOriginalIndex];
       const endToken = tokens[endOriginalIndex] ?? tokens[lastMatchOriginalIndex];
 
-      symbols.push({
-        name,
-        kind: rule.kind,
-        nameRange: nameToken.range,
-        contentRange: {
-          start: startToken.range.start,
-          end: endToken.range.end,
+      detected.push({
+        symbol: {
+          name,
+          kind: rule.kind,
+          nodeType: rule.name,
+          nameRange: nameToken.range,
+          contentRange: {
+            start: startToken.range.start,
+            end: endToken.range.end,
+          },
+          ...(rule.hasBody &&
+            rule.bodyStyle !== "markup-block" && {
+              signature: headerText(tokens, startOriginalIndex, bodyOpenIndex, rule.bodyStyle),
+            }),
+          ...captureMetadata(match.captures, filtered, tokens, parameters),
         },
+        rule,
       });
 
       // Mark the matched filtered indices as used
@@ -105,6 +173,8 @@ export function detectSymbols(
     }
   }
 
+  const symbols = dropNestedSymbols(detected);
+
   // Sort by content start position
   symbols.sort((a, b) => {
     if (a.contentRange.start.line === b.contentRange.start.line) {
@@ -115,115 +185,396 @@ export function detectSymbols(
   return symbols;
 }
 
+/** Drop symbols of `nested: false` rules that lie inside another symbol */
+function dropNestedSymbols(detected: Array<{ symbol: CodeSymbol; rule: SymbolRule }>): CodeSymbol[] {
+  const nestable = new Map(detected.map(({ symbol, rule }) => [symbol, rule.nested !== false]));
+  const kept: CodeSymbol[] = [];
+  const stack: CodeSymbol[] = [];
+  for (const symbol of outerFirst(detected.map((d) => d.symbol))) {
+    while (stack.length > 0 && !encloses(stack[stack.length - 1], symbol)) {
+      stack.pop();
+    }
+    if (stack.length > 0 && !nestable.get(symbol)) continue;
+    kept.push(symbol);
+    stack.push(symbol);
+  }
+  return kept;
+}
+
 // ---------------------------------------------------------------------------
 // Pattern matching against filtered tokens
 // ---------------------------------------------------------------------------
 
+/** Compares a token value with a pattern value */
+type ValueComparer = (tokenValue: string, patternValue: string) => boolean;
+
+/** State shared by the steps of one pattern match */
+interface MatchContext {
+  captures: Capture[];
+  sameValue: ValueComparer;
+}
+
 function tryMatch(
-  filtered: Array<{ token: Token; originalIndex: number }>,
+  filtered: FilteredToken[],
   startIdx: number,
   pattern: TokenPatternStep[],
+  sameValue: ValueComparer,
 ): PatternMatch | null {
-  const captures: Record<string, string> = {};
-  const captureIndices: Record<string, number> = {};
-  let idx = startIdx;
+  const captures: Capture[] = [];
+  const endIndex = matchSteps(filtered, startIdx, pattern, { captures, sameValue });
+  return endIndex === null ? null : { startIndex: startIdx, endIndex, captures };
+}
 
-  for (let pi = 0; pi < pattern.length; pi++) {
-    const step = pattern[pi];
+/**
+ * Match a sequence of steps from `idx`. Returns the index after the match,
+ * or null; a failed sequence leaves no captures behind.
+ */
+function matchSteps(
+  filtered: FilteredToken[],
+  idx: number,
+  steps: TokenPatternStep[],
+  ctx: MatchContext,
+): number | null {
+  const mark = ctx.captures.length;
 
-    if (idx >= filtered.length) return null;
+  for (let pi = 0; pi < steps.length; pi++) {
+    const step = steps[pi];
 
     if ("skip" in step && step.skip) {
-      // Skip: find next step match within maxTokens
-      const nextStep = pattern[pi + 1];
-      if (!nextStep) return null; // skip at end makes no sense
-      const maxTokens = step.maxTokens ?? 50;
-      let found = false;
-      const limit = Math.min(idx + maxTokens, filtered.length);
-      for (let si = idx; si < limit; si++) {
-        if (matchSingleStep(filtered[si].token, nextStep, captures, captureIndices, si)) {
-          idx = si;
-          found = true;
-          break;
+      // Skip: find the next step's match within maxTokens and continue after it
+      const nextStep = steps[pi + 1];
+      let end: number | null = null;
+      if (nextStep) {
+        const limit = Math.min(idx + (step.maxTokens ?? 50), filtered.length);
+        for (let si = idx; si < limit && end === null; si++) {
+          end = matchStep(filtered, si, nextStep, ctx);
+          if (end !== null && step.capture && si > idx) {
+            ctx.captures.push({ name: step.capture, start: idx, end: si });
+          }
         }
       }
-      if (!found) return null;
-      // The next iteration of the outer loop will re-process the nextStep
-      // So we skip the pi++ that would skip it
-      // Actually, we already matched nextStep at idx, so advance past it
-      idx++;
-      pi++; // skip the next pattern step since we matched it here
-      continue;
-    }
-
-    if ("optional" in step) {
-      // Try to match, but don't fail if it doesn't
-      if (matchSingleStep(filtered[idx].token, step.optional, captures, captureIndices, idx)) {
-        idx++;
+      if (end === null) {
+        ctx.captures.length = mark;
+        return null;
       }
+      idx = end;
+      pi++; // the next step is already matched
       continue;
     }
 
-    if ("anyOf" in step) {
-      let anyMatched = false;
-      for (const alt of step.anyOf) {
-        if (matchSingleStep(filtered[idx].token, alt, captures, captureIndices, idx)) {
-          anyMatched = true;
-          idx++;
-          break;
-        }
-      }
-      if (!anyMatched) return null;
-      continue;
+    const end = matchStep(filtered, idx, step, ctx);
+    if (end === null) {
+      ctx.captures.length = mark;
+      return null;
     }
+    idx = end;
+  }
 
-    // Regular token match
-    if ("token" in step) {
-      if (!matchTokenStep(filtered[idx].token, step)) return null;
-      if (step.capture) {
-        captures[step.capture] = filtered[idx].token.value;
-        captureIndices[step.capture] = idx;
-      }
-      idx++;
-      continue;
+  return idx;
+}
+
+/** Match one step at `idx`; returns the index after it, or null */
+function matchStep(
+  filtered: FilteredToken[],
+  idx: number,
+  step: TokenPatternStep,
+  ctx: MatchContext,
+): number | null {
+  if ("optional" in step) {
+    return matchSteps(filtered, idx, asSteps(step.optional), ctx) ?? idx;
+  }
+
+  if ("repeat" in step) {
+    const steps = asSteps(step.repeat);
+    for (;;) {
+      const end = matchSteps(filtered, idx, steps, ctx);
+      if (end === null || end === idx) return idx;
+      idx = end;
     }
+  }
 
-    return null; // unknown step type
+  if ("anyOf" in step) {
+    for (const alt of step.anyOf) {
+      const end = matchStep(filtered, idx, alt, ctx);
+      if (end !== null) return end;
+    }
+    return null;
   }
 
-  return { startIndex: startIdx, endIndex: idx, captures, captureIndices };
-}
+  if ("group" in step) {
+    const end = findGroupEnd(filtered, idx, step.group);
+    if (end !== null && step.capture) {
+      ctx.captures.push({ name: step.capture, start: idx, end, close: step.group[1] });
+    }
+    return end;
+  }
 
-function matchSingleStep(
-  token: Token,
-  step: TokenPatternStep,
-  captures: Record<string, string>,
-  captureIndices: Record<string, number>,
-  index: number,
-): boolean {
   if ("token" in step) {
-    if (!matchTokenStep(token, step)) return false;
+    if (idx >= filtered.length || !matchTokenStep(filtered[idx].token, step, ctx.sameValue)) return null;
     if (step.capture) {
-      captures[step.capture] = token.value;
-      captureIndices[step.capture] = index;
+      ctx.captures.push({ name: step.capture, start: idx, end: idx + 1 });
     }
-    return true;
+    return idx + 1;
   }
-  if ("anyOf" in step) {
-    return step.anyOf.some((alt) => matchSingleStep(token, alt, captures, captureIndices, index));
+
+  return null; // a skip outside a sequence
+}
+
+function asSteps(steps: TokenPatternStep | TokenPatternStep[]): TokenPatternStep[] {
+  return Array.isArray(steps) ? steps : [steps];
+}
+
+/** Index after the group opened at `idx`, or null if it does not open or close there */
+function findGroupEnd(
+  filtered: FilteredToken[],
+  idx: number,
+  [open, close]: [string, string],
+): number | null {
+  if (filtered[idx]?.token.value !== open) return null;
+  let depth = 0;
+  for (let fi = idx; fi < filtered.length; fi++) {
+    const value = filtered[fi].token.value;
+    if (value === open) depth++;
+    else depth -= closeCount(value, close);
+    if (depth <= 0) return fi + 1;
+  }
+  return null;
+}
+
+/** How many `close` delimiters a token value closes: `>>` closes two `>` */
+function closeCount(value: string, close: string): number {
+  if (value === close) return 1;
+  if (close.length !== 1 || value.length < 2) return 0;
+  for (const char of value) {
+    if (char !== close) return 0;
   }
-  return false;
+  return value.length;
 }
 
 function matchTokenStep(
   token: Token,
   step: { token: string; value?: string },
+  sameValue: ValueComparer,
 ): boolean {
   if (token.type !== step.token) return false;
-  if (step.value !== undefined && token.value !== step.value) return false;
+  if (step.value !== undefined && !sameValue(token.value, step.value)) return false;
   return true;
 }
 
+// ---------------------------------------------------------------------------
+// Symbol metadata from captures
+// ---------------------------------------------------------------------------
+
+/** A comma-separated item of a captured list (indices in the filtered token array) */
+interface ListItem {
+  start: number;
+  /** Index after the last token of the item */
+  end: number;
+  /** Text the item ends with beyond its tokens: the first `>` of a group-closing `>>` */
+  suffix: string;
+}
+
+/** Modifiers, parameters, return type and type parameters from a match's captures */
+function captureMetadata(
+  captures: Capture[],
+  filtered: FilteredToken[],
+  tokens: Token[],
+  parameters: ParameterConfig | undefined,
+): Partial<CodeSymbol> {
+  const metadata: Partial<CodeSymbol> = {};
+  const text = (start: number, end: number) =>
+    tokensText(tokens, filtered[start].originalIndex, filtered[end - 1].originalIndex);
+
+  for (const capture of captures) {
+    if (capture.name === "modifier") {
+      (metadata.modifiers ??= []).push(text(capture.start, capture.end));
+    } else if (capture.name === "returnType") {
+      const first = captures.find((c) => c.name === "returnType")!;
+      metadata.returnType = text(first.start, capture.end);
+    } else if (capture.name === "typeParameters") {
+      metadata.typeParameters = listItems(capture, filtered).map(
+        (item) => text(item.start, item.end) + item.suffix,
+      );
+    } else if (capture.name === "parameters") {
+      metadata.parameters = readParameters(listItems(capture, filtered), filtered, text, parameters);
+    }
+  }
+  return metadata;
+}
+
+/** Split a capture at top-level commas; a captured group's delimiters are left out */
+function listItems(capture: Capture, filtered: FilteredToken[]): ListItem[] {
+  let from = capture.start;
+  let to = capture.end;
+  let suffix = "";
+  if (capture.close !== undefined) {
+    from++;
+    to--;
+    suffix = filtered[to].token.value.slice(capture.close.length);
+  }
+
+  const items: ListItem[] = [];
+  let depth = 0;
+  let itemStart = from;
+  for (let fi = from; fi < to; fi++) {
+    const value = filtered[fi].token.value;
+    depth += nestingChange(value);
+    if (value === "," && depth === 0) {
+      items.push({ start: itemStart, end: fi, suffix: "" });
+      itemStart = fi + 1;
+    }
+  }
+  if (itemStart < to) items.push({ start: itemStart, end: to, suffix });
+  return items;
+}
+
+/** How much a token changes bracket nesting inside a list */
+function nestingChange(value: string): number {
+  if (value === "(" || value === "[" || value === "{" || value === "<") return 1;
+  if (value === ")" || value === "]" || value === "}") return -1;
+  return -closeCount(value, ">");
+}
+
+function readParameters(
+  items: ListItem[],
+  filtered: FilteredToken[],
+  text: (start: number, end: number) => string,
+  config: ParameterConfig | undefined,
+): SymbolParameter[] {
+  const params = items.map((item) => readParameter(item, filtered, text, config));
+
+  // Go: in `a, b int` the names without a type share the next one's
+  if (config?.typePosition === "after" && config.typeSeparator === undefined) {
+    for (let i = params.length - 2; i >= 0; i--) {
+      params[i].type ??= params[i + 1].type;
+    }
+  }
+  return params;
+}
+
+function readParameter(
+  item: ListItem,
+  filtered: FilteredToken[],
+  text: (start: number, end: number) => string,
+  config: ParameterConfig | undefined,
+): SymbolParameter {
+  const range = {
+    start: filtered[item.start].token.range.start,
+    end: filtered[item.end - 1].token.range.end,
+  };
+
+  // Top-level tokens of the declaration, which ends at a default value
+  const topLevel: number[] = [];
+  let declEnd = item.end;
+  let depth = 0;
+  for (let fi = item.start; fi < item.end; fi++) {
+    const value = filtered[fi].token.value;
+    if (depth === 0) {
+      if (value === "=") {
+        declEnd = fi;
+        break;
+      }
+      topLevel.push(fi);
+    }
+    depth += nestingChange(value);
+  }
+  const isName = (fi: number) => ["identifier", "variable"].includes(filtered[fi].token.category);
+  /** The last name token in [start, end), or the text there if there is none */
+  const nameIn = (start: number, end: number) => {
+    const nameIndex = topLevel.filter((fi) => fi >= start && fi < end && isName(fi)).pop();
+    return nameIndex !== undefined ? filtered[nameIndex].token.value : start < end ? text(start, end) : "";
+  };
+
+  if (config?.typePosition === "before") {
+    // A declarator in parentheses names a function pointer or array reference (`int (*fn)(int)`)
+    const declarator = topLevel.find(
+      (fi) => filtered[fi].token.value === "(" && ["*", "&", "^"].includes(filtered[fi + 1]?.token.value),
+    );
+    const declaratorEnd = declarator !== undefined ? findGroupEnd(filtered, declarator, ["(", ")"]) : null;
+    if (declarator !== undefined && declaratorEnd !== null) {
+      let nameIndex = declaratorEnd - 2;
+      while (nameIndex > declarator && !isName(nameIndex)) nameIndex--;
+      if (nameIndex > declarator) {
+        const type = text(item.start, nameIndex) + text(nameIndex + 1, declEnd);
+        return { name: filtered[nameIndex].token.value, type, range };
+      }
+    }
+
+    const nameIndex = topLevel.filter(isName).pop();
+    // A lone token is a type without a name (`void f(int)`)
+    if (nameIndex === undefined || nameIndex === item.start) {
+      return { name: "", type: text(item.start, declEnd), range };
+    }
+    // Array dimensions after the name belong to the type (`int values[16]`)
+    const suffix = nameIndex + 1 < declEnd ? text(nameIndex + 1, declEnd) : "";
+    return { name: filtered[nameIndex].token.value, type: text(item.start, nameIndex) + suffix, range };
+  }
+
+  if (config?.typePosition === "after" && config.typeSeparator !== undefined) {
+    const separator = topLevel.find((fi) => filtered[fi].token.value === config.typeSeparator);
+    if (separator === undefined) return { name: nameIn(item.start, declEnd), range };
+    const name = nameIn(item.start, separator);
+    return separator + 1 < declEnd ? { name, type: text(separator + 1, declEnd), range } : { name, range };
+  }
+
+  if (config?.typePosition === "after") {
+    const name = filtered[item.start].token.value;
+    return declEnd > item.start + 1 ? { name, type: text(item.start + 1, declEnd), range } : { name, range };
+  }
+
+  return { name: nameIn(item.start, declEnd), range };
+}
+
+/**
+ * Header text of a symbol with a body: its tokens up to the body. A braces
+ * body starts at `bodyOpenIndex`, an indentation body at the `:` ending
+ * the header, and other bodies on the next line.
+ */
+function headerText(
+  tokens: Token[],
+  startIndex: number,
+  bodyOpenIndex: number | undefined,
+  bodyStyle: SymbolRule["bodyStyle"],
+): string {
+  let last = startIndex;
+  let depth = 0;
+  for (let i = startIndex; i < tokens.length && i !== bodyOpenIndex; i++) {
+    const { value, category } = tokens[i];
+    if (depth === 0) {
+      if (value === ";") break;
+      if (bodyStyle !== "braces" && category === "newline") break;
+      if (bodyStyle === "indentation" && value === ":") break;
+    }
+    if (value === "(" || value === "[" || value === "{") depth++;
+    else if (value === ")" || value === "]" || value === "}") depth--;
+    if (value !== "" && !isTrivia(tokens[i])) last = i;
+  }
+  return tokensText(tokens, startIndex, last);
+}
+
+/**
+ * Text of tokens[from..to] with whitespace and comments collapsed to single
+ * spaces, and dropped inside parentheses and brackets and before commas
+ */
+function tokensText(tokens: Token[], from: number, to: number): string {
+  let text = "";
+  let space = false;
+  for (let i = from; i <= to; i++) {
+    const { value } = tokens[i];
+    if (isTrivia(tokens[i])) {
+      space = text !== "" && !/[([]$/.test(text);
+    } else if (value !== "") {
+      text += (space && !/^[)\],]/.test(value) ? " " : "") + value;
+      space = false;
+    }
+  }
+  return text;
+}
+
+function isTrivia(token: Token): boolean {
+  return token.category === "whitespace" || token.category === "newline" || token.category === "comment";
+}
+
 // ---------------------------------------------------------------------------
 // End-line detection helpers
 // ---------------------------------------------------------------------------
@@ -265,6 +616,179 @@ function findIndentationEndIndex(
   return lastContentIndex;
 }
 
+/**
+ * Find where an indentation-based body ends using indent / dedent tokens:
+ * the rest of the header line, plus the indented block that follows it.
+ */
+function findIndentedBlockEndIndex(
+  tokens: Token[],
+  afterIndex: number,
+  indentation: IndentationConfig,
+): number {
+  let lastContentIndex = afterIndex;
+  let depth = 0;
+
+  for (let i = afterIndex + 1; i < tokens.length; i++) {
+    const tok = tokens[i];
+    if (tok.type === indentation.indentToken) {
+      depth++;
+    } else if (tok.type === indentation.dedentToken) {
+      depth--;
+      if (depth <= 0) return lastContentIndex;
+    } else if (tok.category === "newline" && depth === 0) {
+      // End of the header line: the body continues only if a block follows
+      let next = i + 1;
+      while (
+        next < tokens.length &&
+        tokens[next].type !== indentation.indentToken &&
+        ["whitespace", "newline", "comment"].includes(tokens[next].category)
+      ) {
+        next++;
+      }
+      if (next === tokens.length || tokens[next].type !== indentation.indentToken) return lastContentIndex;
+    } else if (tok.category !== "whitespace" && tok.category !== "newline") {
+      lastContentIndex = i;
+    }
+  }
+
+  return lastContentIndex;
+}
+
+/**
+ * Keyword-delimited blocks of a token stream, matched in one pass: the
+ * openers and end keywords in order, and which end closes each opener.
+ */
+interface KeywordBlockIndex {
+  /** Filtered indices of the counted openers and end keywords, ascending */
+  markers: number[];
+  /** Per marker: -1 for an end keyword, else the marker index of the end closing it, or -2 if none does */
+  closeAt: number[];
+  /** Filtered indices of openers that open no block (`def name = expr`) */
+  bodyless: Set<number>;
+}
+
+const END_MARKER = -1;
+const UNCLOSED = -2;
+
+/** Match every opener against its end keyword, as a stack pass over the filtered tokens */
+function indexKeywordBlocks(
+  filtered: FilteredToken[],
+  endKeyword: string,
+  blocks: KeywordBlockConfig | undefined,
+  sameValue: ValueComparer,
+): KeywordBlockIndex {
+  const listed = (words: string[] | undefined, value: string) =>
+    words?.some((word) => sameValue(value, word)) ?? false;
+  const index: KeywordBlockIndex = { markers: [], closeAt: [], bodyless: new Set() };
+  // Marker indices of the openers not closed yet
+  const open: number[] = [];
+  // Line of a loop opener whose optional `do` is still allowed
+  let loopLine = -1;
+
+  for (let fi = 0; fi < filtered.length; fi++) {
+    const { token } = filtered[fi];
+    if (token.category !== "keyword") continue;
+    const prev = filtered[fi - 1]?.token;
+    // Method calls such as `range.end` or `obj.class`
+    if (prev?.value === ".") continue;
+    if (isKeywordLiteral(filtered, fi)) continue;
+
+    if (sameValue(token.value, endKeyword)) {
+      const opener = open.pop();
+      if (opener !== undefined) index.closeAt[opener] = index.markers.length;
+      index.markers.push(fi);
+      index.closeAt.push(END_MARKER);
+      continue;
+    }
+    if (!listed(blocks?.openers, token.value)) continue;
+    if (listed(blocks?.modifiers, token.value) && !startsExpression(prev, token)) continue;
+    if (sameValue(token.value, "do") && token.range.start.line === loopLine) {
+      loopLine = -1;
+      continue;
+    }
+    if (listed(blocks?.endless, token.value) && isEndlessDefinition(filtered, fi)) {
+      index.bodyless.add(fi);
+      continue;
+    }
+
+    open.push(index.markers.length);
+    index.markers.push(fi);
+    index.closeAt.push(UNCLOSED);
+    if (listed(blocks?.loops, token.value)) loopLine = token.range.start.line;
+  }
+  return index;
+}
+
+/**
+ * Find the end keyword closing a keyword-delimited body that starts at
+ * filtered index `from`; the symbol's own opener is already open. Blocks
+ * opened inside the body are skipped whole. Returns the end token's
+ * original index, or null if the body is not closed.
+ */
+function findEndKeywordIndex(filtered: FilteredToken[], index: KeywordBlockIndex, from: number): number | null {
+  const { markers, closeAt } = index;
+  let low = 0;
+  let high = markers.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (markers[mid] < from) low = mid + 1;
+    else high = mid;
+  }
+
+  for (let k = low; k < markers.length; ) {
+    if (closeAt[k] === END_MARKER) return filtered[markers[k]].originalIndex;
+    if (closeAt[k] === UNCLOSED) return null;
+    k = closeAt[k] + 1;
+  }
+  return null;
+}
+
+/**
+ * Whether the opener at `fi` starts an endless definition, `def name = expr`
+ * or `def name(args) = expr`, rather than a setter `def name=(value)`
+ */
+function isEndlessDefinition(filtered: FilteredToken[], fi: number): boolean {
+  let j = fi + 1;
+  // Receiver: `def self.name`
+  while (filtered[j + 1]?.token.value === ".") j += 2;
+  const name = filtered[j];
+  if (!name) return false;
+  j++;
+  if (filtered[j]?.token.value === "(") j = findGroupEnd(filtered, j, ["(", ")"]) ?? j;
+
+  const equals = filtered[j];
+  if (equals?.token.value !== "=" || equals.token.range.start.line !== name.token.range.end.line) return false;
+  return filtered[j - 1] !== name || name.token.range.end.offset < equals.token.range.start.offset;
+}
+
+/** Whether the keyword at `fi` is a symbol (`:end`) or a label (`class: "btn"`), written without a space */
+function isKeywordLiteral(filtered: FilteredToken[], fi: number): boolean {
+  const { token } = filtered[fi];
+  const prev = filtered[fi - 1]?.token;
+  const next = filtered[fi + 1]?.token;
+  if (prev?.value === ":" && prev.range.end.offset === token.range.start.offset) return true;
+  return next?.value === ":" && next.range.start.offset === token.range.end.offset;
+}
+
+/** Whether `token` starts an expression, given the significant token before it */
+function startsExpression(prev: Token | undefined, token: Token): boolean {
+  if (!prev || prev.range.end.line < token.range.start.line) return true;
+  if (prev.category === "operator") return true;
+  return prev.category === "punctuation" && !")]}".includes(prev.value);
+}
+
+/** Index of a `;` in [from, to) outside parentheses and brackets, if any */
+function findDeclarationEnd(tokens: Token[], from: number, to: number): number | undefined {
+  let depth = 0;
+  for (let i = from; i < to; i++) {
+    const { value } = tokens[i];
+    if (value === "(" || value === "[") depth++;
+    else if (value === ")" || value === "]") depth--;
+    else if (value === ";" && depth <= 0) return i;
+  }
+  return undefined;
+}
+
 /** Find the end of a statement (next newline or semicolon at depth 0) */
 function findStatementEndIndex(tokens: Token[], fromIndex: number): number {
   let endIndex = fromIndex;
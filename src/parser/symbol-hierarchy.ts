@@ -0,0 +1,48 @@
+// ---------------------------------------------------------------------------
+// Symbol Hierarchy
+//
+// Nests a flat CodeSymbol[] by containment of content ranges: a method
+// whose content lies inside a class's content becomes one of the class's
+// children. Used for outlines and for breadcrumbs such as `Foo > bar`.
+// ---------------------------------------------------------------------------
+
+import type { CodeSymbol, CodeSymbolNode } from "../types/tree.js";
+
+/** Build the symbol hierarchy; returns the top-level symbols in source order */
+export function buildSymbolHierarchy(symbols: CodeSymbol[]): CodeSymbolNode[] {
+  const roots: CodeSymbolNode[] = [];
+  const stack: CodeSymbolNode[] = [];
+  for (const symbol of outerFirst(symbols)) {
+    while (stack.length > 0 && !encloses(stack[stack.length - 1], symbol)) {
+      stack.pop();
+    }
+
+    const parent = stack[stack.length - 1];
+    const node: CodeSymbolNode = {
+      ...symbol,
+      ...(parent && { containerName: parent.name }),
+      children: [],
+    };
+    (parent ? parent.children : roots).push(node);
+    stack.push(node);
+  }
+  return roots;
+}
+
+/**
+ * Symbols sorted by start, containers before the symbols they contain, so
+ * a stack walk sees each symbol's containers first.
+ */
+export function outerFirst<T extends CodeSymbol>(symbols: T[]): T[] {
+  return [...symbols].sort(
+    (a, b) =>
+      a.contentRange.start.offset - b.contentRange.start.offset ||
+      b.contentRange.end.offset - a.contentRange.end.offset,
+  );
+}
+
+/** Whether `inner`, which does not start before `outer`, lies inside it */
+export function encloses(outer: CodeSymbol, inner: CodeSymbol): boolean {
+  const end = outer.contentRange.end.offset;
+  return inner.contentRange.start.offset < end && inner.contentRange.end.offset <= end;
+}
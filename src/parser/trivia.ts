@@ -0,0 +1,70 @@
+// ---------------------------------------------------------------------------
+// Trivia
+//
+// Attaches the tokens the grammar skips (whitespace, comments) to the leaves
+// of a syntax tree, so that the leaves plus their trivia cover the source
+// without gaps. Trivia following a token on the same line, up to and
+// including the line break, is that token's trailing trivia; trivia on the
+// lines after it is leading trivia of the next token.
+// ---------------------------------------------------------------------------
+
+import type { Token } from "../types/token.js";
+import type { SyntaxNode } from "../types/tree.js";
+
+/**
+ * Set `leadingTrivia` / `trailingTrivia` on the token leaves of `root`.
+ * `tokens` is the full token stream the tree was parsed from. If the tree
+ * has no token leaves, all trivia becomes the root's leading trivia.
+ */
+export function attachTrivia(
+  root: SyntaxNode,
+  tokens: Token[],
+  skipTokens: Set<string>,
+): void {
+  const leaves = tokenLeaves(root);
+
+  let pending: Token[] = [];
+  let previous: SyntaxNode | null = null;
+  let next = 0;
+  for (const token of tokens) {
+    if (skipTokens.has(token.type)) {
+      pending.push(token);
+      continue;
+    }
+
+    const leaf = leaves[next++];
+    if (!leaf) break;
+    const split = previous ? trailingLength(pending) : 0;
+    if (previous) previous.trailingTrivia = pending.slice(0, split);
+    leaf.leadingTrivia = pending.slice(split);
+    pending = [];
+    previous = leaf;
+  }
+
+  if (previous) {
+    previous.trailingTrivia = [...(previous.trailingTrivia ?? []), ...pending];
+  } else {
+    root.leadingTrivia = pending;
+  }
+}
+
+/** Leaves that stand for a token (everything but zero-width MISSING nodes) */
+function tokenLeaves(root: SyntaxNode): SyntaxNode[] {
+  const leaves: SyntaxNode[] = [];
+  const stack = [root];
+  while (stack.length > 0) {
+    const node = stack.pop()!;
+    if (node.children.length === 0) {
+      if (node.type !== "MISSING" && node !== root) leaves.push(node);
+      continue;
+    }
+    for (let i = node.children.length - 1; i >= 0; i--) stack.push(node.children[i]);
+  }
+  return leaves;
+}
+
+/** Number of trivia tokens up to and including the first line break */
+function trailingLength(trivia: Token[]): number {
+  const index = trivia.findIndex((token) => token.value.includes("\n"));
+  return index === -1 ? trivia.length : index + 1;
+}
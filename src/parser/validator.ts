@@ -0,0 +1,168 @@
+// ---------------------------------------------------------------------------
+// Validator
+//
+// Collects syntax diagnostics from every level a profile provides:
+// - Level 1: lexer diagnostics (characters no rule could match, unterminated
+//   strings and comments, states left open, indentation that mixes tabs and
+//   spaces)
+// - Level 2: unbalanced block delimiters (from findBlockSpans)
+// - Level 3: grammar errors recovered by the grammar parser, plus
+//   language-specific semantic checks over the tree (semantic-checks.ts)
+// ---------------------------------------------------------------------------
+
+import type { BlockRule } from "../schema/structure.js";
+import type { LanguageProfile } from "../schema/profile.js";
+import type { Diagnostic, LexerDiagnostic } from "../types/diagnostic.js";
+import type { Token } from "../types/token.js";
+import { tokenizeWithConfig } from "../lexer/lexer.js";
+import { findBlockSpans } from "./block-tracker.js";
+import { getGrammarParser, type ParseError } from "./grammar-parser.js";
+import { getSemanticCheck } from "./semantic-checks.js";
+
+/**
+ * Validate source code using a language profile.
+ * Returns diagnostics sorted by position (empty when no problems are found).
+ */
+export function validateFromProfile(
+  source: string,
+  profile: LanguageProfile,
+): Diagnostic[] {
+  const { tokens, diagnostics } = tokenizeWithConfig(source, profile.lexer, { diagnostics: true });
+  return validateTokens(tokens, profile, source, diagnostics);
+}
+
+/**
+ * Validate a pre-tokenized token stream.
+ * Useful when you already have tokens and want to avoid re-tokenizing.
+ * Without `lexerDiagnostics` (from tokenize with `{ diagnostics: true }`),
+ * lexer problems are derived from the stream's `error` tokens.
+ */
+export function validateTokens(
+  tokens: Token[],
+  profile: LanguageProfile,
+  source?: string,
+  lexerDiagnostics?: LexerDiagnostic[],
+): Diagnostic[] {
+  const blocks = blockDiagnostics(tokens, profile.structure?.blocks ?? []);
+  const diagnostics: Diagnostic[] = [...(lexerDiagnostics ?? errorTokenDiagnostics(tokens)), ...blocks];
+
+  const parser = getGrammarParser(profile);
+  if (parser) {
+    const { tree, errors } = parser.parseWithErrors(tokens, source);
+    const repeats = blockRepeats(blocks);
+    for (const error of errors) {
+      if (repeats(error)) continue;
+      diagnostics.push({
+        message: error.message,
+        severity: "error",
+        range: error.range,
+        expected: error.expected,
+        source: "grammar",
+      });
+    }
+
+    const check = getSemanticCheck(profile.name);
+    if (check) diagnostics.push(...check(tree));
+  }
+
+  diagnostics.sort(
+    (a, b) =>
+      a.range.start.offset - b.range.start.offset ||
+      a.range.end.offset - b.range.end.offset,
+  );
+  return diagnostics;
+}
+
+// ---------------------------------------------------------------------------
+// Diagnostic sources
+// ---------------------------------------------------------------------------
+
+/** One diagnostic per `error` token emitted by the lexer */
+function errorTokenDiagnostics(tokens: Token[]): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  for (const token of tokens) {
+    if (token.type !== "error") continue;
+    // The lexer marks indentation that mixes tabs and spaces as an error token
+    const indentation = token.range.start.column === 0 && /^[ \t]+$/.test(token.value);
+    diagnostics.push({
+      message: indentation
+        ? "Inconsistent indentation: tabs and spaces are mixed"
+        : `Unexpected character${token.value.length > 1 ? "s" : ""} "${token.value}"`,
+      severity: "error",
+      range: token.range,
+      expected: [],
+      source: "lexer",
+    });
+  }
+  return diagnostics;
+}
+
+/**
+ * Tells the grammar errors that repeat a block diagnostic: one at the same
+ * range (an unmatched closer), or a missing closer of an unclosed block
+ * opened before it. Each block diagnostic absorbs one grammar error.
+ */
+function blockRepeats(blocks: Diagnostic[]): (error: ParseError) => boolean {
+  const unused = new Set(blocks);
+  return (error) => {
+    const repeated = [...unused].find(
+      (block) =>
+        (block.range.start.offset === error.range.start.offset &&
+          block.range.end.offset === error.range.end.offset) ||
+        (error.message.startsWith("Missing ") &&
+          block.range.start.offset <= error.range.start.offset &&
+          block.expected.length > 0 &&
+          block.expected.every((value) => error.expected.includes(value))),
+    );
+    if (repeated) unused.delete(repeated);
+    return repeated !== undefined;
+  };
+}
+
+/** Block delimiters that findBlockSpans could not pair up */
+function blockDiagnostics(tokens: Token[], blockRules: BlockRule[]): Diagnostic[] {
+  if (blockRules.length === 0) return [];
+
+  const opens = new Map<string, BlockRule>();
+  const closes = new Map<string, BlockRule>();
+  for (const rule of blockRules) {
+    opens.set(rule.open, rule);
+    closes.set(rule.close, rule);
+  }
+
+  const matched = new Set<number>();
+  for (const span of findBlockSpans(tokens, blockRules)) {
+    matched.add(span.openIndex);
+    matched.add(span.closeIndex);
+  }
+
+  const diagnostics: Diagnostic[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    if (matched.has(i)) continue;
+    const token = tokens[i];
+
+    const open = opens.get(token.value);
+    if (open) {
+      diagnostics.push({
+        message: `Unclosed "${open.open}"`,
+        severity: "error",
+        range: token.range,
+        expected: [`"${open.close}"`],
+        source: "blocks",
+      });
+      continue;
+    }
+
+    const close = closes.get(token.value);
+    if (close) {
+      diagnostics.push({
+        message: `Unmatched "${close.close}"`,
+        severity: "error",
+        range: token.range,
+        expected: [],
+        source: "blocks",
+      });
+    }
+  }
+  return diagnostics;
+}
@@ -1,4 +1,4 @@
-import { createGenericCodeProfile } from "./common.js";
+import { SHELL_HEREDOCS, createGenericCodeProfile } from "./common.js";
 
 export const bash = createGenericCodeProfile({
     name: "bash",
@@ -6,6 +6,7 @@ export const bash = createGenericCodeProfile({
     fileExtensions: [".bash"],
     mimeTypes: ["application/x-sh"],
     lineComment: "#",
+    dynamicStrings: SHELL_HEREDOCS,
     keywords: [
         "if", "then", "else", "elif", "fi", "for", "while", "until", "do", "done", "case", "esac", "in",
         "function", "select", "time", "coproc", "return", "break", "continue", "readonly", "local", "export",
@@ -1,4 +1,6 @@
+import type { DynamicDelimitedMatcher, KeywordPromotion } from "../schema/lexer.js";
 import type { LanguageProfile } from "../schema/profile.js";
+import type { KeywordBlockConfig, SymbolRule } from "../schema/structure.js";
 
 interface GenericCodeProfileOptions {
     name: string;
@@ -9,8 +11,38 @@ interface GenericCodeProfileOptions {
     lineComment?: string;
     blockComment?: { open: string; close: string; nested?: boolean };
     stringDelimiters?: Array<'"' | "'" | "`">;
+    /** Strings with source-chosen delimiters (heredocs, raw strings), tried before stringDelimiters */
+    dynamicStrings?: DynamicDelimitedMatcher[];
+    /** Keywords match in any case (SQL); symbol patterns then ignore case too */
+    caseInsensitiveKeywords?: boolean;
+    /** Identifiers promoted to the `type` or `constant` token type */
+    keywordPromotion?: KeywordPromotion;
+    /** Blocks closed by `end` (Ruby); class, module and function symbols then span their body */
+    keywordBlocks?: KeywordBlockConfig;
+    /** Patterns of the comments that document the symbol after them, e.g. `^///` */
+    docComments?: string[];
 }
 
+/**
+ * POSIX shell heredocs: `<<EOF`, `<<'EOF'`, and `<<-EOF` with an indented end
+ * line. The `<<<` of a here-string is not one.
+ */
+export const SHELL_HEREDOCS: DynamicDelimitedMatcher[] = [
+    {
+        kind: "dynamicDelimited",
+        open: `(?<!<)<<-[ \\t]*(?:'(\\w+)'|"(\\w+)"|\\\\?([A-Za-z_]\\w*))`,
+        close: "{tag}",
+        body: "nextLine",
+        indentedClose: true,
+    },
+    {
+        kind: "dynamicDelimited",
+        open: `(?<!<)<<(?!<)[ \\t]*(?:'(\\w+)'|"(\\w+)"|\\\\?([A-Za-z_]\\w*))`,
+        close: "{tag}",
+        body: "nextLine",
+    },
+];
+
 interface MarkupProfileOptions {
     name: string;
     displayName: string;
@@ -34,6 +66,11 @@ export function createGenericCodeProfile(
         lineComment,
         blockComment,
         stringDelimiters = ['"', "'"],
+        dynamicStrings = [],
+        caseInsensitiveKeywords = false,
+        keywordPromotion,
+        keywordBlocks,
+        docComments,
     } = options;
 
     const keywordSet = new Set(keywords.map((keyword) => keyword.toLowerCase()));
@@ -78,6 +115,10 @@ export function createGenericCodeProfile(
     const hasSqlCreate = keywordSet.has("create") && sqlObjectKeywords.some((keyword) => keywordSet.has(keyword));
 
     const symbols: NonNullable<LanguageProfile["structure"]>["symbols"] = [];
+    // Body of declarations that keywordBlocks close with `end`
+    const endBody: Pick<SymbolRule, "hasBody" | "bodyStyle" | "endKeyword"> = keywordBlocks
+        ? { hasBody: true, bodyStyle: "end-keyword", endKeyword: "end" }
+        : { hasBody: false };
 
     if (availableClassKeywords.length > 0) {
         symbols.push({
@@ -89,7 +130,7 @@ export function createGenericCodeProfile(
                 },
                 { token: "identifier", capture: "name" },
             ],
-            hasBody: false,
+            ...endBody,
         });
     }
 
@@ -145,7 +186,7 @@ export function createGenericCodeProfile(
                 },
                 { token: "identifier", capture: "name" },
             ],
-            hasBody: false,
+            ...endBody,
         });
     }
 
@@ -187,7 +228,7 @@ export function createGenericCodeProfile(
                 },
                 { token: "identifier", capture: "name" },
             ],
-            hasBody: false,
+            ...endBody,
         });
     }
 
@@ -362,6 +403,10 @@ export function createGenericCodeProfile(
         });
     }
 
+    for (const matcher of dynamicStrings) {
+        rules.push({ match: matcher, token: "string" });
+    }
+
     for (const delimiter of stringDelimiters) {
         rules.push({
             match: { kind: "delimited", open: delimiter, close: delimiter, escape: "\\" },
@@ -385,7 +430,7 @@ export function createGenericCodeProfile(
 
     if (keywords.length > 0) {
         rules.push({
-            match: { kind: "keywords", words: keywords },
+            match: { kind: "keywords", words: keywords, caseInsensitive: caseInsensitiveKeywords },
             token: "keyword",
         });
     }
@@ -485,6 +530,8 @@ export function createGenericCodeProfile(
                 number: { category: "number" },
                 keyword: { category: "keyword" },
                 identifier: { category: "identifier" },
+                type: { category: "type" },
+                constant: { category: "constant" },
                 operator: { category: "operator" },
                 punctuation: { category: "punctuation" },
                 text: { category: "plain" },
@@ -498,10 +545,18 @@ export function createGenericCodeProfile(
                     rules,
                 },
             },
+            keywordPromotion,
         },
         structure: {
             blocks: [{ name: "braces", open: "{", close: "}" }],
             symbols,
+            caseInsensitive: caseInsensitiveKeywords,
+            keywordBlocks,
+            ...(docComments && {
+                documentation: {
+                    comments: docComments.map((pattern) => ({ token: "comment", pattern })),
+                },
+            }),
         },
     };
 }
@@ -1,6 +1,16 @@
 import type { LanguageProfile } from "../schema/profile.js";
+import type { TokenPatternStep } from "../schema/structure.js";
+
+/** Specifiers before a function's return type, captured as `modifier` */
+const leadingModifiers: TokenPatternStep[] = [
+  "static", "inline", "virtual", "constexpr", "extern", "explicit", "friend",
+].map((value) => ({ token: "keyword", value, capture: "modifier" }));
+
+/** Specifiers after a function's parameters, captured as `modifier` */
+const trailingModifiers: TokenPatternStep[] = ["const", "override", "final", "noexcept"].map(
+  (value) => ({ token: "keyword", value, capture: "modifier" }),
+);
 
-/** C++ language profile - Level 1 (Lexer) + Level 2 (Structure) */
 export const cpp: LanguageProfile = {
   name: "cpp",
   displayName: "C++",
@@ -52,12 +62,18 @@ export const cpp: LanguageProfile = {
           // Line comments
           { match: { kind: "line", start: "//" }, token: "comment" },
           // Preprocessor directives
-          { match: { kind: "line", start: "#" }, token: "preprocessor" },
+          {
+            match: { kind: "line", start: "#" },
+            token: "preprocessor",
+            atLineStart: true,
+          },
           // Raw strings R"delimiter(content)delimiter"
           {
             match: {
-              kind: "pattern",
-              regex: 'R"([^(\\s]*)\\([\\s\\S]*?\\)\\1"',
+              kind: "dynamicDelimited",
+              open: 'R"([^()\\\\\\s]{0,16})\\(',
+              close: '){tag}"',
+              multiline: true,
             },
             token: "raw_string",
           },
@@ -208,15 +224,43 @@ export const cpp: LanguageProfile = {
         name: "function_definition",
         kind: "function",
         pattern: [
+          {
+            optional: [
+              { token: "keyword", value: "template" },
+              { group: ["<", ">"], capture: "typeParameters" },
+            ],
+          },
+          { repeat: { anyOf: leadingModifiers } },
+          // Return type, e.g. `std::vector<int>`
+          {
+            repeat: [
+              {
+                anyOf: [
+                  { token: "identifier", capture: "returnType" },
+                  { token: "type_name", capture: "returnType" },
+                ],
+              },
+              { token: "operator", value: "::", capture: "returnType" },
+            ],
+          },
           {
             anyOf: [
-              { token: "type_keyword" },
-              { token: "type_name" },
-              { token: "identifier" },
+              { token: "type_keyword", capture: "returnType" },
+              { token: "type_name", capture: "returnType" },
+              { token: "identifier", capture: "returnType" },
+            ],
+          },
+          { optional: { group: ["<", ">"], capture: "returnType" } },
+          // Class qualifier of an out-of-line member, e.g. `Foo::`
+          {
+            repeat: [
+              { anyOf: [{ token: "identifier" }, { token: "type_name" }] },
+              { token: "operator", value: "::" },
             ],
           },
           { token: "identifier", capture: "name" },
-          { token: "punctuation", value: "(" },
+          { group: ["(", ")"], capture: "parameters" },
+          { repeat: { anyOf: trailingModifiers } },
         ],
         hasBody: true,
         bodyStyle: "braces",
@@ -262,6 +306,8 @@ export const cpp: LanguageProfile = {
         hasBody: true,
         bodyStyle: "braces",
       },
+      // Class and alias templates; a function template's `template <...>`
+      // is part of its function_definition
       {
         name: "template_declaration",
         kind: "typeParameter",
@@ -287,9 +333,24 @@ export const cpp: LanguageProfile = {
         hasBody: false,
       },
     ],
+    parameters: { typePosition: "before" },
+    // Doxygen
+    documentation: {
+      comments: [
+        { token: "comment", pattern: "^///(?!/)" },
+        { token: "comment", pattern: "^/\\*\\*(?![*/])" },
+      ],
+    },
     folding: [
       { open: { token: "punctuation", value: "{" }, close: { token: "punctuation", value: "}" } },
-      { open: { token: "preprocessor" }, close: { token: "preprocessor" } },
+      {
+        open: { token: "preprocessor", pattern: "^#\\s*pragma\\s+region\\b" },
+        close: { token: "preprocessor", pattern: "^#\\s*pragma\\s+endregion\\b" },
+      },
+      {
+        open: { token: "preprocessor", pattern: "^#\\s*if" },
+        close: { token: "preprocessor", pattern: "^#\\s*endif\\b" },
+      },
     ],
   },
 };
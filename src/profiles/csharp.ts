@@ -7,6 +7,7 @@ export const csharp = createGenericCodeProfile({
     mimeTypes: ["text/x-csharp"],
     lineComment: "//",
     blockComment: { open: "/*", close: "*/" },
+    docComments: ["^///(?!/)"],
     stringDelimiters: ['"', "'", "`"],
     keywords: [
         "abstract", "as", "base", "bool", "break", "byte", "case", "catch", "char", "checked",
@@ -1,4 +1,21 @@
 import type { LanguageProfile } from "../schema/profile.js";
+import type { TokenPatternStep } from "../schema/structure.js";
+
+/** Type parameters, parameters and results after a function's name */
+const signature: TokenPatternStep[] = [
+  { optional: { group: ["[", "]"], capture: "typeParameters" } },
+  {
+    optional: [
+      { group: ["(", ")"], capture: "parameters" },
+      {
+        optional: [
+          { skip: true, maxTokens: 30, capture: "returnType" },
+          { token: "punctuation", value: "{" },
+        ],
+      },
+    ],
+  },
+];
 
 /** Go language profile - Level 1 (Lexer) + Level 2 (Structure) */
 export const go: LanguageProfile = {
@@ -208,7 +225,14 @@ export const go: LanguageProfile = {
         kind: "function",
         pattern: [
           { token: "keyword", value: "func" },
-          { token: "identifier", capture: "name" },
+          // Exported names are lexed as type names
+          {
+            anyOf: [
+              { token: "identifier", capture: "name" },
+              { token: "type_name", capture: "name" },
+            ],
+          },
+          ...signature,
         ],
         hasBody: true,
         bodyStyle: "braces",
@@ -218,10 +242,14 @@ export const go: LanguageProfile = {
         kind: "method",
         pattern: [
           { token: "keyword", value: "func" },
-          { token: "punctuation", value: "(" },
-          { skip: true, maxTokens: 10 },
-          { token: "punctuation", value: ")" },
-          { token: "identifier", capture: "name" },
+          { group: ["(", ")"] },
+          {
+            anyOf: [
+              { token: "identifier", capture: "name" },
+              { token: "type_name", capture: "name" },
+            ],
+          },
+          ...signature,
         ],
         hasBody: true,
         bodyStyle: "braces",
@@ -288,6 +316,9 @@ export const go: LanguageProfile = {
         hasBody: false,
       },
     ],
+    parameters: { typePosition: "after" },
+    // Go doc comments are runs of // lines
+    documentation: { comments: [{ token: "comment", pattern: "^//" }] },
     folding: [
       { open: { token: "punctuation", value: "{" }, close: { token: "punctuation", value: "}" } },
     ],
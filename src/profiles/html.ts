@@ -52,6 +52,7 @@ export const html: LanguageProfile = {
             match: {
               kind: "pattern",
               regex: "<!DOCTYPE[^>]*>",
+              flags: "i",
             },
             token: "doctype",
           },
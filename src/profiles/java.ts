@@ -7,6 +7,7 @@ export const java = createGenericCodeProfile({
     mimeTypes: ["text/x-java-source", "text/java"],
     lineComment: "//",
     blockComment: { open: "/*", close: "*/" },
+    docComments: ["^/\\*\\*(?![*/])"],
     keywords: [
         "abstract", "assert", "boolean", "break", "byte", "case", "catch", "char",
         "class", "const", "continue", "default", "do", "double", "else", "enum",
@@ -58,6 +58,19 @@ export const javascript: LanguageProfile = {
           },
           // Line comments
           { match: { kind: "line", start: "//" }, token: "comment" },
+          // Regex literals: only where an operand may start, otherwise `/` is division
+          {
+            match: {
+              kind: "pattern",
+              regex: "/(?:\\\\.|\\[(?:\\\\.|[^\\]\\\\\\n])*\\]|[^/\\\\\\n\\[])+/[dgimsuvy]*",
+            },
+            token: "regexp",
+            precededByToken: {
+              negate: true,
+              categories: ["identifier", "type", "number", "string", "constant", "regexp"],
+              values: [")", "]", "}", "this", "super"],
+            },
+          },
           // Template strings
           {
             match: { kind: "string", value: "`" },
@@ -191,7 +204,30 @@ export const javascript: LanguageProfile = {
             token: "template_end",
             pop: true,
           },
-          // Template content: any chars (handled by engine consuming until ` or ${)
+          // Template content, including escapes and a `$` not opening a hole
+          {
+            match: {
+              kind: "charSequence",
+              first: { negate: { chars: "`$\\\r\n" } },
+              rest: { negate: { chars: "`$\\\r\n" } },
+            },
+            token: "template_content",
+          },
+          {
+            match: {
+              kind: "sequence",
+              elements: [
+                { kind: "string", value: "\\" },
+                { kind: "charSequence", first: { negate: { predefined: "newline" } } },
+              ],
+            },
+            token: "template_content",
+          },
+          { match: { kind: "string", value: ["$", "\\"] }, token: "template_content" },
+          {
+            match: { kind: "charSequence", first: { predefined: "newline" } },
+            token: "newline",
+          },
         ],
       },
       template_expr: {
@@ -427,9 +463,13 @@ export const javascript: LanguageProfile = {
         hasBody: false,
       },
     ],
+    documentation: { comments: [{ token: "comment", pattern: "^/\\*\\*(?![*/])" }] },
     folding: [
       { open: { token: "punctuation", value: "{" }, close: { token: "punctuation", value: "}" } },
-      { open: { token: "comment" }, close: { token: "comment" } },
+      {
+        open: { token: "comment", pattern: "^//\\s*#region\\b" },
+        close: { token: "comment", pattern: "^//\\s*#endregion\\b" },
+      },
     ],
   },
 };
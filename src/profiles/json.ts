@@ -119,8 +119,11 @@ export const json: LanguageProfile = {
   },
 
   grammar: {
-    entry: "value",
+    entry: "document",
     rules: {
+      document: {
+        alternatives: [[{ rule: "value" }]],
+      },
       value: {
         alternatives: [
           [{ rule: "object" }],
@@ -136,7 +139,7 @@ export const json: LanguageProfile = {
             { token: "punctuation", value: "{" },
             {
               optional: {
-                repeat: [{ rule: "pair" }],
+                repeat: [{ rule: "member" }],
                 min: 1,
                 separator: { token: "punctuation", value: "," },
               },
@@ -145,7 +148,7 @@ export const json: LanguageProfile = {
           ],
         ],
       },
-      pair: {
+      member: {
         alternatives: [
           [
             { token: "string", field: "key" },
@@ -160,7 +163,7 @@ export const json: LanguageProfile = {
             { token: "punctuation", value: "[" },
             {
               optional: {
-                repeat: [{ rule: "value" }],
+                repeat: [{ rule: "value", field: "element" }],
                 min: 1,
                 separator: { token: "punctuation", value: "," },
               },
@@ -7,6 +7,7 @@ export const kotlin = createGenericCodeProfile({
     mimeTypes: ["text/x-kotlin"],
     lineComment: "//",
     blockComment: { open: "/*", close: "*/" },
+    docComments: ["^/\\*\\*(?![*/])"],
     keywords: [
         "as", "as?", "break", "class", "continue", "do", "else", "false", "for", "fun", "if", "in",
         "interface", "is", "null", "object", "package", "return", "super", "this", "throw", "true", "try",
@@ -70,6 +70,7 @@ export const markdown: LanguageProfile = {
               ],
             },
             token: "heading",
+            atLineStart: true,
           },
           // Inline code
           {
@@ -7,6 +7,17 @@ export const php = createGenericCodeProfile({
     mimeTypes: ["application/x-httpd-php"],
     lineComment: "//",
     blockComment: { open: "/*", close: "*/" },
+    docComments: ["^/\\*\\*(?![*/])"],
+    dynamicStrings: [
+        // Heredoc <<<EOT and nowdoc <<<'EOT'; the end line may be indented
+        {
+            kind: "dynamicDelimited",
+            open: `<<<[ \\t]*(?:'(\\w+)'|"(\\w+)"|([A-Za-z_]\\w*))`,
+            close: "{tag}",
+            body: "nextLine",
+            indentedClose: true,
+        },
+    ],
     keywords: [
         "abstract", "and", "array", "as", "break", "callable", "case", "catch", "class", "clone", "const",
         "continue", "declare", "default", "do", "echo", "else", "elseif", "empty", "enddeclare", "endfor",
@@ -296,19 +296,22 @@ export const python: LanguageProfile = {
         name: "function_definition",
         kind: "function",
         pattern: [
+          { optional: { token: "keyword", value: "async", capture: "modifier" } },
           { token: "keyword", value: "def" },
           { token: "identifier", capture: "name" },
-        ],
-        hasBody: true,
-        bodyStyle: "indentation",
-      },
-      {
-        name: "async_function_definition",
-        kind: "function",
-        pattern: [
-          { token: "keyword", value: "async" },
-          { token: "keyword", value: "def" },
-          { token: "identifier", capture: "name" },
+          { optional: { group: ["[", "]"], capture: "typeParameters" } },
+          {
+            optional: [
+              { group: ["(", ")"], capture: "parameters" },
+              {
+                optional: [
+                  { token: "operator", value: "->" },
+                  { skip: true, maxTokens: 30, capture: "returnType" },
+                  { token: "punctuation", value: ":" },
+                ],
+              },
+            ],
+          },
         ],
         hasBody: true,
         bodyStyle: "indentation",
@@ -324,6 +327,8 @@ export const python: LanguageProfile = {
               { token: "type_name", capture: "name" },
             ],
           },
+          { optional: { group: ["[", "]"], capture: "typeParameters" } },
+          { optional: { group: ["(", ")"] } },
         ],
         hasBody: true,
         bodyStyle: "indentation",
@@ -360,5 +365,7 @@ export const python: LanguageProfile = {
         hasBody: false,
       },
     ],
+    parameters: { typePosition: "after", typeSeparator: ":" },
+    documentation: { docstrings: ["string"] },
   },
 };
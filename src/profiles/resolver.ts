@@ -94,6 +94,7 @@ function mergeLexerConfig(
     initialState: child.initialState ?? parent.initialState,
     skipTokens: child.skipTokens ?? parent.skipTokens,
     indentation: child.indentation ?? parent.indentation,
+    keywordPromotion: child.keywordPromotion ?? parent.keywordPromotion,
   };
 }
 
@@ -112,5 +113,9 @@ function mergeStructureConfig(
     symbols: [...child.symbols, ...parent.symbols],
     // Child folding overrides
     folding: child.folding ?? parent.folding,
+    caseInsensitive: child.caseInsensitive ?? parent.caseInsensitive,
+    keywordBlocks: child.keywordBlocks ?? parent.keywordBlocks,
+    parameters: child.parameters ?? parent.parameters,
+    documentation: child.documentation ?? parent.documentation,
   };
 }
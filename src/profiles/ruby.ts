@@ -6,10 +6,32 @@ export const ruby = createGenericCodeProfile({
     fileExtensions: [".rb", ".rake", ".gemspec"],
     mimeTypes: ["application/x-ruby"],
     lineComment: "#",
+    dynamicStrings: [
+        // <<~SQL and <<-SQL allow an indented end line
+        {
+            kind: "dynamicDelimited",
+            open: `<<[~-](?:'(\\w+)'|"(\\w+)"|([A-Za-z_]\\w*))`,
+            close: "{tag}",
+            body: "nextLine",
+            indentedClose: true,
+        },
+        {
+            kind: "dynamicDelimited",
+            open: `<<(?:'(\\w+)'|"(\\w+)"|([A-Z_][A-Z0-9_]*))`,
+            close: "{tag}",
+            body: "nextLine",
+        },
+    ],
     keywords: [
         "BEGIN", "END", "alias", "and", "begin", "break", "case", "class", "def", "defined?", "do",
         "else", "elsif", "end", "ensure", "false", "for", "if", "in", "module", "next", "nil", "not",
         "or", "redo", "rescue", "retry", "return", "self", "super", "then", "true", "undef", "unless",
         "until", "when", "while", "yield",
     ],
+    keywordBlocks: {
+        openers: ["begin", "case", "class", "def", "do", "for", "if", "module", "unless", "until", "while"],
+        modifiers: ["if", "unless", "until", "while"],
+        loops: ["for", "until", "while"],
+        endless: ["def"],
+    },
 });
@@ -7,6 +7,11 @@ export const rust = createGenericCodeProfile({
     mimeTypes: ["text/rust"],
     lineComment: "//",
     blockComment: { open: "/*", close: "*/", nested: true },
+    docComments: ["^///(?!/)", "^/\\*\\*(?![*/])"],
+    dynamicStrings: [
+        // Raw strings: r"...", r#"..."#, br##"..."##
+        { kind: "dynamicDelimited", open: 'b?r(#*)"', close: '"{tag}', multiline: true },
+    ],
     keywords: [
         "as", "break", "const", "continue", "crate", "else", "enum", "extern", "false", "fn",
         "for", "if", "impl", "in", "let", "loop", "match", "mod", "move", "mut", "pub", "ref",
@@ -7,6 +7,15 @@ export const sql = createGenericCodeProfile({
     mimeTypes: ["application/sql", "text/x-sql"],
     lineComment: "--",
     blockComment: { open: "/*", close: "*/" },
+    dynamicStrings: [
+        // PostgreSQL dollar quoting: $$...$$, $fn$...$fn$
+        {
+            kind: "dynamicDelimited",
+            open: "\\$([A-Za-z_]\\w*)?\\$",
+            close: "${tag}$",
+            multiline: true,
+        },
+    ],
     keywords: [
         "select", "from", "where", "insert", "into", "update", "delete", "create", "alter", "drop", "table",
         "view", "index", "join", "left", "right", "inner", "outer", "on", "group", "by", "order", "having",
@@ -14,4 +23,16 @@ export const sql = createGenericCodeProfile({
         "between", "like", "case", "when", "then", "else", "end", "primary", "key", "foreign", "references",
         "constraint", "values", "set", "begin", "commit", "rollback",
     ],
+    caseInsensitiveKeywords: true,
+    keywordPromotion: {
+        to: {
+            type: [
+                "int", "integer", "smallint", "bigint", "serial", "bigserial", "decimal", "numeric", "real",
+                "float", "double", "char", "varchar", "text", "boolean", "bool", "date", "time", "timestamp",
+                "timestamptz", "interval", "uuid", "json", "jsonb", "bytea", "blob",
+            ],
+            constant: ["true", "false"],
+        },
+        caseInsensitive: true,
+    },
 });
@@ -7,6 +7,7 @@ export const swift = createGenericCodeProfile({
     mimeTypes: ["text/x-swift"],
     lineComment: "//",
     blockComment: { open: "/*", close: "*/", nested: true },
+    docComments: ["^///(?!/)", "^/\\*\\*(?![*/])"],
     keywords: [
         "associatedtype", "class", "deinit", "enum", "extension", "func", "import", "init", "inout", "internal",
         "let", "operator", "private", "protocol", "public", "static", "struct", "subscript", "typealias", "var",
@@ -1,5 +1,6 @@
 import type { LanguageProfile } from "../schema/profile.js";
 
+/** TOML language profile - Level 1 (Lexer) + Level 2 (Structure) + Level 3 (Grammar) */
 export const toml: LanguageProfile = {
     name: "toml",
     displayName: "TOML",
@@ -42,6 +43,14 @@ export const toml: LanguageProfile = {
                         },
                         token: "datetime",
                     },
+                    // Signed numbers (a leading sign would otherwise lex as a bare key)
+                    {
+                        match: {
+                            kind: "pattern",
+                            regex: "[+-](?:inf|nan|\\d[\\d_]*(?:\\.\\d[\\d_]*)?(?:[eE][+-]?\\d+)?)",
+                        },
+                        token: "number",
+                    },
                     {
                         match: { kind: "delimited", open: '"""', close: '"""', multiline: true, escape: "\\" },
                         token: "string",
@@ -71,6 +80,10 @@ export const toml: LanguageProfile = {
                         },
                         token: "number",
                     },
+                    {
+                        match: { kind: "keywords", words: ["inf", "nan"] },
+                        token: "number",
+                    },
                     {
                         match: {
                             kind: "keywords",
@@ -93,7 +106,8 @@ export const toml: LanguageProfile = {
                         token: "operator",
                     },
                     {
-                        match: { kind: "string", value: ["[[", "]]", "[", "]", "{", "}", ","] },
+                        // "[[" / "]]" are two tokens so nested arrays lex correctly
+                        match: { kind: "string", value: ["[", "]", "{", "}", ","] },
                         token: "punctuation",
                     },
                     {
@@ -127,23 +141,26 @@ export const toml: LanguageProfile = {
             { name: "array", open: "[", close: "]" },
         ],
         symbols: [
+            // Before "table" so the inner brackets of [[x]] are claimed first
             {
-                name: "table",
-                kind: "table",
+                name: "array_table",
+                kind: "arrayTable",
                 pattern: [
+                    { token: "punctuation", value: "[" },
                     { token: "punctuation", value: "[" },
                     { token: "key", capture: "name" },
                     { token: "punctuation", value: "]" },
+                    { token: "punctuation", value: "]" },
                 ],
                 hasBody: false,
             },
             {
-                name: "array_table",
-                kind: "arrayTable",
+                name: "table",
+                kind: "table",
                 pattern: [
-                    { token: "punctuation", value: "[[" },
+                    { token: "punctuation", value: "[" },
                     { token: "key", capture: "name" },
-                    { token: "punctuation", value: "]]" },
+                    { token: "punctuation", value: "]" },
                 ],
                 hasBody: false,
             },
@@ -158,4 +175,141 @@ export const toml: LanguageProfile = {
             },
         ],
     },
+    grammar: {
+        entry: "document",
+        // Newlines end key/value pairs and table headers, so only
+        // whitespace and comments are insignificant
+        skipTokens: ["whitespace", "comment"],
+        rules: {
+            document: {
+                alternatives: [
+                    [
+                        { repeat: { rule: "line" } },
+                        { optional: { rule: "statement" } },
+                    ],
+                ],
+            },
+            line: {
+                inline: true,
+                alternatives: [
+                    [
+                        { optional: { rule: "statement" } },
+                        { token: "newline" },
+                    ],
+                ],
+            },
+            statement: {
+                inline: true,
+                alternatives: [
+                    [{ rule: "array_table" }],
+                    [{ rule: "table" }],
+                    [{ rule: "pair" }],
+                ],
+            },
+            table: {
+                alternatives: [
+                    [
+                        { token: "punctuation", value: "[" },
+                        { rule: "key", field: "name" },
+                        { token: "punctuation", value: "]" },
+                    ],
+                ],
+            },
+            array_table: {
+                alternatives: [
+                    [
+                        { token: "punctuation", value: "[" },
+                        { token: "punctuation", value: "[" },
+                        { rule: "key", field: "name" },
+                        { token: "punctuation", value: "]" },
+                        { token: "punctuation", value: "]" },
+                    ],
+                ],
+            },
+            pair: {
+                alternatives: [
+                    [
+                        { rule: "key", field: "key" },
+                        { token: "operator", value: "=" },
+                        { rule: "value", field: "value" },
+                    ],
+                ],
+            },
+            // Bare keys lex with their dots ("a.b"); quoted parts are strings
+            key: {
+                alternatives: [
+                    [
+                        {
+                            repeat: {
+                                choice: [
+                                    [{ token: "key" }],
+                                    [{ token: "string" }],
+                                    [{ token: "number" }],
+                                    [{ token: "constant" }],
+                                ],
+                            },
+                            min: 1,
+                        },
+                    ],
+                ],
+            },
+            value: {
+                alternatives: [
+                    [{ token: "string" }],
+                    [{ token: "datetime" }],
+                    [{ token: "number" }],
+                    [{ token: "constant" }],
+                    [{ rule: "array" }],
+                    [{ rule: "inline_table" }],
+                ],
+            },
+            // Arrays may span lines and end with a trailing comma
+            array: {
+                alternatives: [
+                    [
+                        { token: "punctuation", value: "[" },
+                        { repeat: { token: "newline" } },
+                        {
+                            optional: [
+                                { rule: "value", field: "element" },
+                                {
+                                    repeat: [
+                                        { repeat: { token: "newline" } },
+                                        { token: "punctuation", value: "," },
+                                        { repeat: { token: "newline" } },
+                                        { rule: "value", field: "element" },
+                                    ],
+                                },
+                                { repeat: { token: "newline" } },
+                                { optional: { token: "punctuation", value: "," } },
+                                { repeat: { token: "newline" } },
+                            ],
+                        },
+                        { token: "punctuation", value: "]" },
+                    ],
+                ],
+            },
+            // Inline tables are single-line and have no trailing comma
+            inline_table: {
+                alternatives: [
+                    [
+                        { token: "punctuation", value: "{" },
+                        {
+                            optional: {
+                                repeat: [{ rule: "pair" }],
+                                min: 1,
+                                separator: { token: "punctuation", value: "," },
+                            },
+                        },
+                        { token: "punctuation", value: "}" },
+                    ],
+                ],
+            },
+        },
+        recovery: [
+            { context: "document", syncTokens: ["newline"] },
+            { context: "array", syncTokens: ["]", ","] },
+            { context: "inline_table", syncTokens: ["}", ","] },
+        ],
+    },
 };
@@ -1,4 +1,33 @@
 import type { LanguageProfile } from "../schema/profile.js";
+import type { TokenPatternStep } from "../schema/structure.js";
+
+/** Modifiers that may precede any declaration, captured as `modifier` */
+const declarationModifiers: TokenPatternStep[] = [
+  { token: "keyword", value: "export", capture: "modifier" },
+  { token: "keyword", value: "default", capture: "modifier" },
+  { token: "ts_keyword", value: "declare", capture: "modifier" },
+];
+
+/** Tokens of a return type annotation, up to the function body */
+const returnTypeTokens: TokenPatternStep[] = [
+  { group: ["<", ">"], capture: "returnType" },
+  { group: ["(", ")"], capture: "returnType" },
+  { group: ["[", "]"], capture: "returnType" },
+  { token: "type_name", capture: "returnType" },
+  { token: "identifier", capture: "returnType" },
+  { token: "keyword", capture: "returnType" },
+  { token: "ts_keyword", capture: "returnType" },
+  { token: "constant", capture: "returnType" },
+  { token: "string", capture: "returnType" },
+  { token: "number", capture: "returnType" },
+  ...["|", "&", "?", ":", "."].map((value) => ({ token: "operator", value, capture: "returnType" })),
+  { token: "punctuation", value: ".", capture: "returnType" },
+];
+
+/** A function declaration's return type, which may be a function type */
+const returnType: TokenPatternStep = {
+  repeat: { anyOf: [...returnTypeTokens, { token: "operator", value: "=>", capture: "returnType" }] },
+};
 
 /**
  * TypeScript language profile - extends JavaScript.
@@ -39,6 +68,7 @@ export const typescript: LanguageProfile = {
       template_end: { category: "string", subcategory: "template" },
       number: { category: "number" },
       comment: { category: "comment" },
+      regexp: { category: "regexp" },
       operator: { category: "operator" },
       punctuation: { category: "punctuation" },
       jsx_tag_open: { category: "tag" },
@@ -64,6 +94,19 @@ export const typescript: LanguageProfile = {
           },
           // Line comments
           { match: { kind: "line", start: "//" }, token: "comment" },
+          // Regex literals: only where an operand may start, otherwise `/` is division
+          {
+            match: {
+              kind: "pattern",
+              regex: "/(?:\\\\.|\\[(?:\\\\.|[^\\]\\\\\\n])*\\]|[^/\\\\\\n\\[])+/[dgimsuvy]*",
+            },
+            token: "regexp",
+            precededByToken: {
+              negate: true,
+              categories: ["identifier", "type", "number", "string", "constant", "regexp"],
+              values: [")", "]", "}", "this", "super"],
+            },
+          },
           // Template strings
           {
             match: { kind: "string", value: "`" },
@@ -226,6 +269,30 @@ export const typescript: LanguageProfile = {
             token: "template_end",
             pop: true,
           },
+          // Template content, including escapes and a `$` not opening a hole
+          {
+            match: {
+              kind: "charSequence",
+              first: { negate: { chars: "`$\\\r\n" } },
+              rest: { negate: { chars: "`$\\\r\n" } },
+            },
+            token: "template_content",
+          },
+          {
+            match: {
+              kind: "sequence",
+              elements: [
+                { kind: "string", value: "\\" },
+                { kind: "charSequence", first: { negate: { predefined: "newline" } } },
+              ],
+            },
+            token: "template_content",
+          },
+          { match: { kind: "string", value: ["$", "\\"] }, token: "template_content" },
+          {
+            match: { kind: "charSequence", first: { predefined: "newline" } },
+            token: "newline",
+          },
         ],
       },
       template_expr: {
@@ -354,32 +421,15 @@ export const typescript: LanguageProfile = {
         name: "function_declaration",
         kind: "function",
         pattern: [
+          { repeat: { anyOf: [...declarationModifiers, { token: "keyword", value: "async", capture: "modifier" }] } },
           { token: "keyword", value: "function" },
+          { optional: { token: "operator", value: "*" } },
           { token: "identifier", capture: "name" },
-        ],
-        hasBody: true,
-        bodyStyle: "braces",
-      },
-      {
-        name: "async_function_declaration",
-        kind: "function",
-        pattern: [
-          { token: "keyword", value: "async" },
-          { token: "keyword", value: "function" },
-          { token: "identifier", capture: "name" },
-        ],
-        hasBody: true,
-        bodyStyle: "braces",
-      },
-      {
-        name: "class_declaration",
-        kind: "class",
-        pattern: [
-          { token: "keyword", value: "class" },
+          { optional: { group: ["<", ">"], capture: "typeParameters" } },
           {
-            anyOf: [
-              { token: "identifier", capture: "name" },
-              { token: "type_name", capture: "name" },
+            optional: [
+              { group: ["(", ")"], capture: "parameters" },
+              { optional: [{ token: "operator", value: ":" }, returnType] },
             ],
           },
         ],
@@ -387,10 +437,10 @@ export const typescript: LanguageProfile = {
         bodyStyle: "braces",
       },
       {
-        name: "abstract_class_declaration",
+        name: "class_declaration",
         kind: "class",
         pattern: [
-          { token: "ts_keyword", value: "abstract" },
+          { repeat: { anyOf: [...declarationModifiers, { token: "ts_keyword", value: "abstract", capture: "modifier" }] } },
           { token: "keyword", value: "class" },
           {
             anyOf: [
@@ -398,6 +448,7 @@ export const typescript: LanguageProfile = {
               { token: "type_name", capture: "name" },
             ],
           },
+          { optional: { group: ["<", ">"], capture: "typeParameters" } },
         ],
         hasBody: true,
         bodyStyle: "braces",
@@ -406,8 +457,10 @@ export const typescript: LanguageProfile = {
         name: "interface_declaration",
         kind: "interface",
         pattern: [
+          { repeat: { anyOf: declarationModifiers } },
           { token: "ts_keyword", value: "interface" },
           { token: "type_name", capture: "name" },
+          { optional: { group: ["<", ">"], capture: "typeParameters" } },
         ],
         hasBody: true,
         bodyStyle: "braces",
@@ -416,8 +469,10 @@ export const typescript: LanguageProfile = {
         name: "type_alias_declaration",
         kind: "type",
         pattern: [
+          { repeat: { anyOf: declarationModifiers } },
           { token: "ts_keyword", value: "type" },
           { token: "type_name", capture: "name" },
+          { optional: { group: ["<", ">"], capture: "typeParameters" } },
         ],
         hasBody: false,
       },
@@ -425,6 +480,7 @@ export const typescript: LanguageProfile = {
         name: "enum_declaration",
         kind: "enum",
         pattern: [
+          { repeat: { anyOf: [...declarationModifiers, { token: "keyword", value: "const", capture: "modifier" }] } },
           { token: "ts_keyword", value: "enum" },
           {
             anyOf: [
@@ -440,6 +496,7 @@ export const typescript: LanguageProfile = {
         name: "namespace_declaration",
         kind: "namespace",
         pattern: [
+          { repeat: { anyOf: declarationModifiers } },
           { token: "ts_keyword", value: "namespace" },
           {
             anyOf: [
@@ -455,9 +512,18 @@ export const typescript: LanguageProfile = {
         name: "arrow_function_const",
         kind: "function",
         pattern: [
+          { repeat: { anyOf: declarationModifiers } },
           { token: "keyword", value: "const" },
           { token: "identifier", capture: "name" },
           { token: "operator", value: "=" },
+          {
+            optional: [
+              { optional: { token: "keyword", value: "async", capture: "modifier" } },
+              { optional: { group: ["<", ">"], capture: "typeParameters" } },
+              { group: ["(", ")"], capture: "parameters" },
+              { optional: [{ token: "operator", value: ":" }, { repeat: { anyOf: returnTypeTokens } }] },
+            ],
+          },
           { skip: true, maxTokens: 50 },
           { token: "operator", value: "=>" },
         ],
@@ -468,6 +534,7 @@ export const typescript: LanguageProfile = {
         name: "lexical_declaration",
         kind: "variable",
         pattern: [
+          { repeat: { anyOf: declarationModifiers } },
           {
             anyOf: [
               { token: "keyword", value: "const" },
@@ -482,6 +549,7 @@ export const typescript: LanguageProfile = {
         name: "variable_declaration",
         kind: "variable",
         pattern: [
+          { repeat: { anyOf: declarationModifiers } },
           { token: "keyword", value: "var" },
           { token: "identifier", capture: "name" },
         ],
@@ -493,6 +561,8 @@ export const typescript: LanguageProfile = {
         pattern: [{ token: "keyword", value: "import" }],
         hasBody: false,
       },
+      // Exports without a declaration (`export { a }`, `export * from`); an
+      // exported declaration captures `export` as a modifier instead
       {
         name: "export_statement",
         kind: "export",
@@ -500,8 +570,14 @@ export const typescript: LanguageProfile = {
         hasBody: false,
       },
     ],
+    parameters: { typePosition: "after", typeSeparator: ":" },
+    documentation: { comments: [{ token: "comment", pattern: "^/\\*\\*(?![*/])" }] },
     folding: [
       { open: { token: "punctuation", value: "{" }, close: { token: "punctuation", value: "}" } },
+      {
+        open: { token: "comment", pattern: "^//\\s*#region\\b" },
+        close: { token: "comment", pattern: "^//\\s*#endregion\\b" },
+      },
     ],
   },
 };
@@ -0,0 +1,20 @@
+export {
+  parseQuery,
+  type QueryPattern,
+  type QueryQuantifier,
+  type NodePattern,
+  type AnonymousPattern,
+  type WildcardPattern,
+  type AlternationPattern,
+  type QueryPredicate,
+  type PredicateArg,
+  type ParsedPattern,
+} from "./query-parser.js";
+export {
+  Query,
+  getQueryTree,
+  queryFromProfile,
+  type QueryCapture,
+  type QueryMatch,
+} from "./query.js";
+export { buildSymbolTree } from "./symbol-tree.js";
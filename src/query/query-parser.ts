@@ -0,0 +1,341 @@
+// ---------------------------------------------------------------------------
+// Query Parser
+//
+// Parses tree-sitter style S-expression queries into pattern trees:
+//
+//   (function_declaration name: (identifier) @fn.name)
+//   ((identifier) @constant (#match? @constant "^[A-Z_]+$"))
+//   [(string) (number)] @literal
+//
+// Supported syntax: node patterns `(type ...)`, wildcards `(_)` and `_`,
+// anonymous nodes `"("`, fields `name: pattern`, negated fields `!name`,
+// alternations `[...]`, quantifiers `?` `*` `+`, anchors `.`, captures
+// `@name`, predicates `(#eq? ...)` and `;` comments.
+// ---------------------------------------------------------------------------
+
+/** How often a pattern may repeat among its siblings */
+export type QueryQuantifier = "one" | "optional" | "zeroOrMore" | "oneOrMore";
+
+interface PatternBase {
+  /** Capture names attached with `@name` */
+  captures: string[];
+  quantifier: QueryQuantifier;
+  /** Preceded by an anchor `.` among its siblings: no named sibling may be skipped before it */
+  anchored?: boolean;
+}
+
+/** `(type child...)`, or `(_ ...)` when `type` is null */
+export interface NodePattern extends PatternBase {
+  kind: "node";
+  type: string | null;
+  /** Child patterns, matched in order (siblings in between are skipped) */
+  children: QueryPattern[];
+  /** Whether an anchor `.` ends the children: the last one must match the last named child */
+  anchoredEnd: boolean;
+  /** `field: pattern` constraints */
+  fields: { field: string; pattern: QueryPattern }[];
+  /** `!field` constraints: the field must be absent */
+  negatedFields: string[];
+}
+
+/** `"text"`: an anonymous node with the given text */
+export interface AnonymousPattern extends PatternBase {
+  kind: "anonymous";
+  text: string;
+}
+
+/** `_`: any node, named or anonymous */
+export interface WildcardPattern extends PatternBase {
+  kind: "wildcard";
+}
+
+/** `[a b c]`: the first alternative that matches */
+export interface AlternationPattern extends PatternBase {
+  kind: "alternation";
+  alternatives: QueryPattern[];
+}
+
+export type QueryPattern =
+  | NodePattern
+  | AnonymousPattern
+  | WildcardPattern
+  | AlternationPattern;
+
+/** Predicate argument: a capture reference or a string literal */
+export type PredicateArg =
+  | { kind: "capture"; name: string }
+  | { kind: "string"; value: string };
+
+/** `(#name? arg...)` */
+export interface QueryPredicate {
+  name: string;
+  args: PredicateArg[];
+}
+
+/** One top-level pattern with the predicates found anywhere inside it */
+export interface ParsedPattern {
+  pattern: QueryPattern;
+  predicates: QueryPredicate[];
+}
+
+const PREDICATES = new Set(["eq?", "not-eq?", "match?", "not-match?", "any-of?"]);
+
+/**
+ * Parse query source into its top-level patterns.
+ * Throws an Error with the offending offset on invalid syntax.
+ */
+export function parseQuery(source: string): ParsedPattern[] {
+  const parser = new QueryParser(source);
+  const patterns: ParsedPattern[] = [];
+  while (parser.peek()) {
+    const predicates: QueryPredicate[] = [];
+    const pattern = parser.parsePattern(predicates);
+    patterns.push({ pattern, predicates });
+  }
+  return patterns;
+}
+
+// ---------------------------------------------------------------------------
+// Tokenizer
+// ---------------------------------------------------------------------------
+
+type QueryTokenKind =
+  | "(" | ")" | "[" | "]" | ":" | "!" | "?" | "*" | "+" | "."
+  | "capture" | "predicate" | "string" | "identifier";
+
+interface QueryToken {
+  kind: QueryTokenKind;
+  value: string;
+  offset: number;
+}
+
+const IDENTIFIER = /[A-Za-z0-9_\-.]/;
+
+function tokenizeQuery(source: string): QueryToken[] {
+  const tokens: QueryToken[] = [];
+  let pos = 0;
+
+  while (pos < source.length) {
+    const ch = source[pos];
+
+    if (/\s/.test(ch)) {
+      pos++;
+    } else if (ch === ";") {
+      while (pos < source.length && source[pos] !== "\n") pos++;
+    } else if ("()[]:!?*+.".includes(ch)) {
+      tokens.push({ kind: ch as QueryTokenKind, value: ch, offset: pos });
+      pos++;
+    } else if (ch === '"') {
+      const start = pos++;
+      let value = "";
+      while (pos < source.length && source[pos] !== '"') {
+        if (source[pos] === "\\" && pos + 1 < source.length) {
+          const escaped = source[pos + 1];
+          value += escaped === "n" ? "\n" : escaped === "t" ? "\t" : escaped;
+          pos += 2;
+        } else {
+          value += source[pos++];
+        }
+      }
+      if (pos >= source.length) throw syntaxError(start, "unterminated string");
+      pos++;
+      tokens.push({ kind: "string", value, offset: start });
+    } else if (ch === "@" || ch === "#") {
+      const start = pos++;
+      while (pos < source.length && /[A-Za-z0-9_\-.?!]/.test(source[pos])) pos++;
+      const value = source.slice(start + 1, pos);
+      if (!value) throw syntaxError(start, `expected a name after "${ch}"`);
+      tokens.push({ kind: ch === "@" ? "capture" : "predicate", value, offset: start });
+    } else if (IDENTIFIER.test(ch)) {
+      const start = pos;
+      while (pos < source.length && IDENTIFIER.test(source[pos])) pos++;
+      tokens.push({ kind: "identifier", value: source.slice(start, pos), offset: start });
+    } else {
+      throw syntaxError(pos, `unexpected "${ch}"`);
+    }
+  }
+  return tokens;
+}
+
+function syntaxError(offset: number, message: string): Error {
+  return new Error(`Invalid query at offset ${offset}: ${message}`);
+}
+
+// ---------------------------------------------------------------------------
+// Parser
+// ---------------------------------------------------------------------------
+
+class QueryParser {
+  private tokens: QueryToken[];
+  private pos = 0;
+  private end: number;
+
+  constructor(source: string) {
+    this.tokens = tokenizeQuery(source);
+    this.end = source.length;
+  }
+
+  peek(offset = 0): QueryToken | undefined {
+    return this.tokens[this.pos + offset];
+  }
+
+  /** pattern := primary quantifier? capture* */
+  parsePattern(predicates: QueryPredicate[]): QueryPattern {
+    const pattern = this.parsePrimary(predicates);
+
+    const next = this.peek();
+    if (next?.kind === "?") pattern.quantifier = "optional";
+    if (next?.kind === "*") pattern.quantifier = "zeroOrMore";
+    if (next?.kind === "+") pattern.quantifier = "oneOrMore";
+    if (pattern.quantifier !== "one") this.pos++;
+
+    while (this.peek()?.kind === "capture") {
+      pattern.captures.push(this.next().value);
+    }
+    return pattern;
+  }
+
+  private parsePrimary(predicates: QueryPredicate[]): QueryPattern {
+    const token = this.next();
+    switch (token.kind) {
+      case "string":
+        return { kind: "anonymous", text: token.value, captures: [], quantifier: "one" };
+      case "identifier":
+        if (token.value === "_") {
+          return { kind: "wildcard", captures: [], quantifier: "one" };
+        }
+        throw syntaxError(token.offset, `bare node type "${token.value}" must be parenthesized`);
+      case "[":
+        return this.parseAlternation(predicates);
+      case "(":
+        return this.parseParenthesized(token, predicates);
+      default:
+        throw syntaxError(token.offset, `unexpected "${token.value}"`);
+    }
+  }
+
+  private parseAlternation(predicates: QueryPredicate[]): AlternationPattern {
+    const alternatives: QueryPattern[] = [];
+    while (this.peek()?.kind !== "]") {
+      alternatives.push(this.parsePattern(predicates));
+    }
+    this.next();
+    return { kind: "alternation", alternatives, captures: [], quantifier: "one" };
+  }
+
+  /** `(type ...)`, `(_ ...)`, or a group `((pattern) (#predicate))` */
+  private parseParenthesized(open: QueryToken, predicates: QueryPredicate[]): QueryPattern {
+    const head = this.peek();
+    if (head?.kind === "predicate") {
+      throw syntaxError(head.offset, "predicates must be inside a pattern");
+    }
+
+    if (head?.kind !== "identifier") {
+      const group: QueryPattern[] = [];
+      while (this.peek()?.kind !== ")") {
+        if (this.isPredicateStart()) {
+          predicates.push(this.parsePredicate());
+        } else {
+          group.push(this.parsePattern(predicates));
+        }
+      }
+      this.next();
+      if (group.length !== 1) {
+        throw syntaxError(open.offset, "a group must contain exactly one pattern");
+      }
+      return group[0];
+    }
+
+    this.next();
+    const pattern: NodePattern = {
+      kind: "node",
+      type: head.value === "_" ? null : head.value,
+      children: [],
+      anchoredEnd: false,
+      fields: [],
+      negatedFields: [],
+      captures: [],
+      quantifier: "one",
+    };
+
+    while (this.peek()?.kind !== ")") {
+      const token = this.peek();
+      if (!token) throw syntaxError(this.end, `unclosed "(" at offset ${open.offset}`);
+
+      if (token.kind === "!") {
+        this.next();
+        pattern.negatedFields.push(this.expect("identifier").value);
+      } else if (token.kind === "identifier" && this.peek(1)?.kind === ":") {
+        this.pos += 2;
+        pattern.fields.push({ field: token.value, pattern: this.parsePattern(predicates) });
+      } else if (token.kind === ".") {
+        this.next();
+        const next = this.peek()?.kind;
+        if (next === ")") {
+          pattern.anchoredEnd = true;
+        } else if (next === "." || next === "!" || this.peek(1)?.kind === ":" || this.isPredicateStart()) {
+          throw syntaxError(token.offset, 'an anchor must be followed by a child pattern or ")"');
+        } else {
+          const child = this.parsePattern(predicates);
+          child.anchored = true;
+          pattern.children.push(child);
+        }
+      } else if (this.isPredicateStart()) {
+        predicates.push(this.parsePredicate());
+      } else {
+        pattern.children.push(this.parsePattern(predicates));
+      }
+    }
+    this.next();
+    return pattern;
+  }
+
+  private isPredicateStart(): boolean {
+    return this.peek()?.kind === "(" && this.peek(1)?.kind === "predicate";
+  }
+
+  /** `(#name arg...)` */
+  private parsePredicate(): QueryPredicate {
+    this.next();
+    const name = this.next();
+    if (!PREDICATES.has(name.value)) {
+      throw syntaxError(name.offset, `unknown predicate "#${name.value}"`);
+    }
+
+    const args: PredicateArg[] = [];
+    while (this.peek()?.kind !== ")") {
+      const arg = this.next();
+      if (arg.kind === "capture") {
+        args.push({ kind: "capture", name: arg.value });
+      } else if (arg.kind === "string" || arg.kind === "identifier") {
+        args.push({ kind: "string", value: arg.value });
+      } else {
+        throw syntaxError(arg.offset, `unexpected "${arg.value}" in predicate`);
+      }
+    }
+    this.next();
+
+    if (args.length < 2 || args[0].kind !== "capture") {
+      throw syntaxError(name.offset, `"#${name.value}" expects a capture and a value`);
+    }
+    if ((name.value === "match?" || name.value === "not-match?") && args[1].kind !== "string") {
+      throw syntaxError(name.offset, `"#${name.value}" expects a regular expression string`);
+    }
+    return { name: name.value, args };
+  }
+
+  private next(): QueryToken {
+    const token = this.tokens[this.pos];
+    if (!token) throw syntaxError(this.end, "unexpected end of query");
+    this.pos++;
+    return token;
+  }
+
+  private expect(kind: QueryTokenKind): QueryToken {
+    const token = this.next();
+    if (token.kind !== kind) {
+      throw syntaxError(token.offset, `expected ${kind}, found "${token.value}"`);
+    }
+    return token;
+  }
+}
@@ -0,0 +1,315 @@
+// ---------------------------------------------------------------------------
+// Query
+//
+// Runs parsed query patterns against a SyntaxNode tree. Every node is tried
+// against every pattern; a pattern matches when the node, its fields and
+// (in order, skipping siblings in between unless anchored) its children
+// match and all of the pattern's predicates hold for the captured nodes. A
+// node yields a match for every assignment that passes, except those whose
+// captures an earlier match of the node already holds (such as the shorter
+// runs of a quantified child).
+// ---------------------------------------------------------------------------
+
+import type { Range } from "../schema/common.js";
+import type { LanguageProfile } from "../schema/profile.js";
+import type { SyntaxNode } from "../types/tree.js";
+import { parseFromProfile } from "../parser/grammar-parser.js";
+import { extractSymbolsFromProfile } from "../parser/structure-parser.js";
+import { walk } from "../tree/tree-utils.js";
+import {
+  parseQuery,
+  type ParsedPattern,
+  type QueryPattern,
+  type QueryPredicate,
+} from "./query-parser.js";
+import { buildSymbolTree } from "./symbol-tree.js";
+
+/** A node captured with `@name` */
+export interface QueryCapture {
+  /** Capture name without the `@` */
+  name: string;
+  node: SyntaxNode;
+  range: Range;
+  text: string;
+}
+
+/** One successful match of a pattern */
+export interface QueryMatch {
+  /** Index of the matching pattern in the query source */
+  pattern: number;
+  captures: QueryCapture[];
+}
+
+/** A compiled query that can be run against any number of trees */
+export class Query {
+  private patterns: ParsedPattern[];
+  private regexes = new Map<string, RegExp>();
+
+  /** Capture names used by the query, in order of first appearance */
+  readonly captureNames: string[];
+
+  /** Throws an Error describing the problem if the query is invalid */
+  constructor(source: string) {
+    this.patterns = parseQuery(source);
+
+    const names = new Set<string>();
+    for (const { pattern, predicates } of this.patterns) {
+      const own = new Set<string>();
+      collectCaptureNames(pattern, own);
+      for (const name of own) names.add(name);
+
+      for (const predicate of predicates) {
+        for (const arg of predicate.args) {
+          if (arg.kind === "capture" && !own.has(arg.name)) {
+            throw new Error(`Invalid query: predicate "#${predicate.name}" uses unknown capture "@${arg.name}"`);
+          }
+        }
+        if (predicate.name.endsWith("match?")) {
+          const arg = predicate.args[1];
+          if (arg.kind === "string") this.regexes.set(arg.value, compileRegex(arg.value));
+        }
+      }
+    }
+    this.captureNames = [...names];
+  }
+
+  /** Number of top-level patterns */
+  get patternCount(): number {
+    return this.patterns.length;
+  }
+
+  /** All matches in the tree, in document order of the matched nodes */
+  matches(root: SyntaxNode): QueryMatch[] {
+    const matches: QueryMatch[] = [];
+    walk(root, {
+      enter: (node) => {
+        this.patterns.forEach(({ pattern, predicates }, index) => {
+          const captures: QueryCapture[] = [];
+          const found: QueryCapture[][] = [];
+          for (const _ of matchPattern(pattern, node, captures)) {
+            if (found.some((earlier) => containsCaptures(earlier, captures))) continue;
+            if (this.checkPredicates(predicates, captures)) {
+              found.push([...captures]);
+              matches.push({ pattern: index, captures: [...captures] });
+            }
+          }
+        });
+      },
+    });
+    return matches;
+  }
+
+  /** All captures of all matches, ordered by position */
+  captures(root: SyntaxNode): QueryCapture[] {
+    return this.matches(root)
+      .flatMap((match) => match.captures)
+      .sort(
+        (a, b) =>
+          a.range.start.offset - b.range.start.offset ||
+          b.range.end.offset - a.range.end.offset,
+      );
+  }
+
+  private checkPredicates(predicates: QueryPredicate[], captures: QueryCapture[]): boolean {
+    return predicates.every((predicate) => {
+      const [subject, ...values] = predicate.args;
+      const texts = captures
+        .filter((c) => subject.kind === "capture" && c.name === subject.name)
+        .map((c) => c.text);
+      // Predicates on captures that matched nothing (optional patterns) hold
+      if (texts.length === 0) return true;
+
+      const value = values[0];
+      const expected =
+        value.kind === "string"
+          ? value.value
+          : captures.find((c) => c.name === value.name)?.text;
+
+      switch (predicate.name) {
+        case "eq?":
+          return texts.every((t) => t === expected);
+        case "not-eq?":
+          return texts.every((t) => t !== expected);
+        case "match?":
+          return texts.every((t) => this.regexes.get(expected!)!.test(t));
+        case "not-match?":
+          return texts.every((t) => !this.regexes.get(expected!)!.test(t));
+        case "any-of?": {
+          const options = values.map((v) => (v.kind === "string" ? v.value : ""));
+          return texts.every((t) => options.includes(t));
+        }
+        default:
+          return false;
+      }
+    });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Matching
+//
+// Matchers are generators that push captures, yield once per way the
+// pattern can match, and pop their captures when resumed. This lets the
+// caller backtrack into other assignments when predicates fail.
+// ---------------------------------------------------------------------------
+
+function* matchPattern(
+  pattern: QueryPattern,
+  node: SyntaxNode,
+  captures: QueryCapture[],
+): Generator<void> {
+  switch (pattern.kind) {
+    case "wildcard":
+      break;
+    case "anonymous":
+      if (node.isNamed || node.text !== pattern.text) return;
+      break;
+    case "alternation":
+      for (const alternative of pattern.alternatives) {
+        for (const _ of matchPattern(alternative, node, captures)) {
+          yield* withCaptures(pattern.captures, node, captures);
+        }
+      }
+      return;
+    case "node": {
+      if (pattern.type === null ? !node.isNamed : node.type !== pattern.type) return;
+      if (pattern.negatedFields.some((field) => node.fields[field] !== undefined)) return;
+
+      const mark = captures.length;
+      pushCaptures(pattern.captures, node, captures);
+      for (const _ of matchFields(pattern.fields, 0, node, captures)) {
+        yield* matchSequence(pattern.children, pattern.anchoredEnd, 0, node.children, 0, false, captures);
+      }
+      captures.length = mark;
+      return;
+    }
+  }
+  yield* withCaptures(pattern.captures, node, captures);
+}
+
+function* matchFields(
+  fields: { field: string; pattern: QueryPattern }[],
+  index: number,
+  node: SyntaxNode,
+  captures: QueryCapture[],
+): Generator<void> {
+  if (index === fields.length) {
+    yield;
+    return;
+  }
+  const { field, pattern } = fields[index];
+  const value = node.fields[field];
+  const nodes = value === undefined ? [] : Array.isArray(value) ? value : [value];
+
+  for (const _ of matchSequence([pattern], false, 0, nodes, 0, false, captures)) {
+    yield* matchFields(fields, index + 1, node, captures);
+  }
+}
+
+/**
+ * Match `patterns[index..]` against `nodes[start..]`. Siblings may be
+ * skipped before a pattern, but repetitions of a quantified pattern and
+ * anchored patterns only skip anonymous nodes (e.g. the "," between list
+ * elements). With `anchoredEnd`, no named node may follow the last match.
+ */
+function* matchSequence(
+  patterns: QueryPattern[],
+  anchoredEnd: boolean,
+  index: number,
+  nodes: SyntaxNode[],
+  start: number,
+  repeating: boolean,
+  captures: QueryCapture[],
+): Generator<void> {
+  if (index === patterns.length) {
+    if (!anchoredEnd || !nodes.slice(start).some((node) => node.isNamed)) yield;
+    return;
+  }
+  const pattern = patterns[index];
+  const many = pattern.quantifier === "zeroOrMore" || pattern.quantifier === "oneOrMore";
+  const optional = repeating || pattern.quantifier === "optional" || pattern.quantifier === "zeroOrMore";
+
+  for (let i = start; i < nodes.length; i++) {
+    for (const _ of matchPattern(pattern, nodes[i], captures)) {
+      if (many) {
+        yield* matchSequence(patterns, anchoredEnd, index, nodes, i + 1, true, captures);
+      } else {
+        yield* matchSequence(patterns, anchoredEnd, index + 1, nodes, i + 1, false, captures);
+      }
+    }
+    if ((repeating || pattern.anchored) && nodes[i].isNamed) break;
+  }
+
+  if (optional) {
+    yield* matchSequence(patterns, anchoredEnd, index + 1, nodes, start, false, captures);
+  }
+}
+
+function* withCaptures(
+  names: string[],
+  node: SyntaxNode,
+  captures: QueryCapture[],
+): Generator<void> {
+  const mark = captures.length;
+  pushCaptures(names, node, captures);
+  yield;
+  captures.length = mark;
+}
+
+/** Whether `captures` are all among `earlier` (same names and nodes) */
+function containsCaptures(earlier: QueryCapture[], captures: QueryCapture[]): boolean {
+  return captures.every((capture) =>
+    earlier.some((other) => other.name === capture.name && other.node === capture.node),
+  );
+}
+
+function pushCaptures(names: string[], node: SyntaxNode, captures: QueryCapture[]): void {
+  for (const name of names) {
+    captures.push({ name, node, range: node.range, text: node.text });
+  }
+}
+
+function collectCaptureNames(pattern: QueryPattern, names: Set<string>): void {
+  for (const name of pattern.captures) names.add(name);
+  if (pattern.kind === "alternation") {
+    for (const alternative of pattern.alternatives) collectCaptureNames(alternative, names);
+  } else if (pattern.kind === "node") {
+    for (const { pattern: field } of pattern.fields) collectCaptureNames(field, names);
+    for (const child of pattern.children) collectCaptureNames(child, names);
+  }
+}
+
+function compileRegex(source: string): RegExp {
+  try {
+    return new RegExp(source);
+  } catch (err) {
+    throw new Error(`Invalid query: bad regular expression "${source}": ${(err as Error).message}`);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Convenience: profile-level queries
+// ---------------------------------------------------------------------------
+
+/**
+ * Get the tree queries run against: the Level 3 syntax tree if the profile
+ * has a grammar, otherwise a node view of its Level 2 symbols.
+ * Returns null for Level 1 profiles.
+ */
+export function getQueryTree(source: string, profile: LanguageProfile): SyntaxNode | null {
+  const tree = parseFromProfile(source, profile);
+  if (tree) return tree;
+  if (!profile.structure) return null;
+  return buildSymbolTree(extractSymbolsFromProfile(source, profile), source);
+}
+
+/** Run a query over source code and return its captures in document order */
+export function queryFromProfile(
+  source: string,
+  profile: LanguageProfile,
+  query: string | Query,
+): QueryCapture[] {
+  const compiled = typeof query === "string" ? new Query(query) : query;
+  const tree = getQueryTree(source, profile);
+  return tree ? compiled.captures(tree) : [];
+}
@@ -0,0 +1,65 @@
+// ---------------------------------------------------------------------------
+// Symbol Tree
+//
+// A SyntaxNode view of Level 2 CodeSymbols, so queries can run on profiles
+// without a grammar. The root is a `document` node; each symbol becomes a
+// node typed by the symbol rule that matched it (e.g. `function_declaration`,
+// `class_declaration`) with a `name` field holding an `identifier` node.
+// Symbols nest by content range.
+//
+//   (class_declaration name: (identifier) @class.name (method_declaration) @method)
+// ---------------------------------------------------------------------------
+
+import type { Position } from "../schema/common.js";
+import type { CodeSymbol, CodeSymbolNode, SyntaxNode } from "../types/tree.js";
+import { buildSymbolHierarchy } from "../parser/symbol-hierarchy.js";
+
+/** Build a node tree from symbols extracted out of `source` */
+export function buildSymbolTree(symbols: CodeSymbol[], source: string): SyntaxNode {
+  const root: SyntaxNode = {
+    type: "document",
+    isNamed: true,
+    fields: {},
+    children: [],
+    text: source,
+    range: { start: { line: 1, column: 0, offset: 0 }, end: endPosition(source) },
+    parent: null,
+  };
+
+  root.children = buildSymbolHierarchy(symbols).map((symbol) => symbolNode(symbol, source, root));
+  return root;
+}
+
+function symbolNode(symbol: CodeSymbolNode, source: string, parent: SyntaxNode): SyntaxNode {
+  const node: SyntaxNode = {
+    type: symbol.nodeType ?? symbol.kind,
+    isNamed: true,
+    fields: {},
+    children: [],
+    text: source.slice(symbol.contentRange.start.offset, symbol.contentRange.end.offset),
+    range: symbol.contentRange,
+    parent,
+  };
+
+  const name: SyntaxNode = {
+    type: "identifier",
+    isNamed: true,
+    fields: {},
+    children: [],
+    text: source.slice(symbol.nameRange.start.offset, symbol.nameRange.end.offset),
+    range: symbol.nameRange,
+    parent: node,
+  };
+  node.fields.name = name;
+  node.children.push(name, ...symbol.children.map((child) => symbolNode(child, source, node)));
+  return node;
+}
+
+function endPosition(source: string): Position {
+  const lastBreak = source.lastIndexOf("\n");
+  let line = 1;
+  for (let i = 0; i < source.length; i++) {
+    if (source[i] === "\n") line++;
+  }
+  return { line, column: source.length - lastBreak - 1, offset: source.length };
+}
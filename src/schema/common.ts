@@ -81,6 +81,9 @@ export type TokenCategory =
   | "error"
   | "plain"; // fallback / unknown
 
+/** Kinds of folding ranges, as in LSP */
+export type FoldingRangeKind = "region" | "comment" | "imports";
+
 /**
  * Symbol kinds for structure classification.
  * Compatible with ragts CodeSymbol.kind and extends VS Code/LSP SymbolKind
@@ -19,6 +19,11 @@ export interface GrammarConfig {
   precedence?: PrecedenceLevel[];
   /** Error recovery strategies */
   recovery?: RecoveryStrategy[];
+  /**
+   * Token types the grammar ignores. Defaults to the lexer's skipTokens;
+   * set this when the grammar needs tokens the lexer skips (e.g. newlines).
+   */
+  skipTokens?: string[];
 }
 
 // ---------------------------------------------------------------------------
@@ -85,7 +90,17 @@ export interface ChoiceElement {
   choice: Production[];
 }
 
-/** Precedence annotation for operator expressions */
+/**
+ * Precedence annotation for operator expressions.
+ * Wraps the operator of a binary production `[{ rule: E }, op, { rule: E }]`
+ * or a prefix production `[op, { rule: E }]`; such productions are parsed
+ * by precedence climbing instead of (left-recursive) PEG matching.
+ *
+ * @example // Exponent binds tighter than the precedence table and is right-associative
+ * [{ rule: 'expression' },
+ *  { prec: 7, assoc: 'right', element: { token: 'operator', value: '**' } },
+ *  { rule: 'expression' }]
+ */
 export interface PrecElement {
   /** Precedence level (higher binds tighter) */
   prec: number;
@@ -99,7 +114,13 @@ export interface PrecElement {
 // Precedence and error recovery
 // ---------------------------------------------------------------------------
 
-/** Operator precedence level */
+/**
+ * Operator precedence level.
+ * Applies to operator productions whose operator token value is listed in
+ * `operators` and that carry no PrecElement of their own.
+ *
+ * @example { level: 2, associativity: 'left', operators: ['*', '/', '%'] }
+ */
 export interface PrecedenceLevel {
   /** Numeric level (higher = binds tighter) */
   level: number;
@@ -6,6 +6,7 @@ export type {
   CharClass,
   TokenCategory,
   SymbolKind,
+  FoldingRangeKind,
 } from "./common.js";
 
 export type {
@@ -34,7 +35,14 @@ export type {
   TokenSkipStep,
   TokenOptionalStep,
   TokenAnyOfStep,
+  TokenRepeatStep,
+  TokenGroupStep,
   FoldingRule,
+  FoldingTokenMatch,
+  KeywordBlockConfig,
+  ParameterConfig,
+  DocumentationConfig,
+  DocCommentRule,
 } from "./structure.js";
 
 export type {
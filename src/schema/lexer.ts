@@ -33,6 +33,25 @@ export interface LexerConfig {
 
   /** Indentation tracking for Python/YAML-like languages */
   indentation?: IndentationConfig;
+
+  /** Reclassify matched tokens by their text (e.g. builtin identifiers as types) */
+  keywordPromotion?: KeywordPromotion;
+}
+
+/**
+ * Gives tokens of the `from` types a new type when their text is listed,
+ * after the rule matched. One identifier rule plus a promotion list avoids
+ * ordering keywords rules before the identifier rule.
+ *
+ * @example { to: { type: ['int', 'varchar'], constant: ['true', 'false'] }, caseInsensitive: true }
+ */
+export interface KeywordPromotion {
+  /** Token types that can be promoted (default: ['identifier']) */
+  from?: string[];
+  /** New token type (must be in tokenTypes) to the words that get it */
+  to: Record<string, string[]>;
+  /** Compare words ignoring case (default false) */
+  caseInsensitive?: boolean;
 }
 
 /** Token type definition with highlighting metadata */
@@ -60,6 +79,9 @@ export interface LexerState {
  * - push: enter a new state (e.g., entering a template string)
  * - pop: return to the previous state (e.g., closing a template expression)
  * - switchTo: replace current state (e.g., switching from tag to attribute mode)
+ *
+ * Conditions (followedBy, notFollowedBy, precededByToken, atLineStart) are
+ * checked before a match is accepted; if one fails, the next rule is tried.
  */
 export interface LexerRule {
   /** Matcher that detects this token */
@@ -72,6 +94,35 @@ export interface LexerRule {
   pop?: boolean;
   /** Replace current state (switch without push/pop) */
   switchTo?: string;
+  /** Only match if this matcher matches right after the token */
+  followedBy?: Matcher;
+  /** Only match if this matcher does not match right after the token */
+  notFollowedBy?: Matcher;
+  /**
+   * Only match if the previous significant token satisfies this condition.
+   * Tokens in skipTokens and unmatched characters (error tokens) do not count.
+   */
+  precededByToken?: PrecedingTokenCondition;
+  /** Only match at the start of a line (after leading whitespace at most) */
+  atLineStart?: boolean;
+}
+
+/**
+ * Condition on the previous significant token. Satisfied when its type,
+ * category or value is listed; at the start of input nothing is listed.
+ *
+ * @example // "/" starts a regex unless it follows an operand
+ * { negate: true, categories: ['identifier', 'number', 'string'], values: [')', ']'] }
+ */
+export interface PrecedingTokenCondition {
+  /** Token types */
+  types?: string[];
+  /** Token categories */
+  categories?: TokenCategory[];
+  /** Exact token values */
+  values?: string[];
+  /** Invert: satisfied when the previous token matches none of the lists (default false) */
+  negate?: boolean;
 }
 
 // ---------------------------------------------------------------------------
@@ -94,6 +145,7 @@ export type Matcher =
   | StringMatcher
   | KeywordsMatcher
   | DelimitedMatcher
+  | DynamicDelimitedMatcher
   | LineMatcher
   | CharSequenceMatcher
   | NumberMatcher
@@ -121,6 +173,8 @@ export interface StringMatcher {
 export interface KeywordsMatcher {
   kind: "keywords";
   words: string[];
+  /** Match words in any case, e.g. SELECT, Select and select (default false) */
+  caseInsensitive?: boolean;
 }
 
 /**
@@ -145,6 +199,40 @@ export interface DelimitedMatcher {
   nested?: boolean;
 }
 
+/**
+ * Delimited content whose closing delimiter is chosen in the source: heredocs,
+ * C++ and Rust raw strings, PostgreSQL dollar quoting. `open` is a regex for
+ * the opening delimiter; the first capture group that matched is the tag,
+ * and `close` is the closing delimiter with `{tag}` replaced by it.
+ *
+ * With `body: 'nextLine'` (heredocs) the content starts on the line after
+ * the opening delimiter and ends at a line that starts with the closing
+ * delimiter, followed by the end of the line or a non-word character. The
+ * opening delimiter is a token of its own and the rest of its line is
+ * tokenized as usual (`cat <<EOF | grep x`); the content and closing
+ * delimiter form a second token of the same type. Several heredocs opened
+ * on one line take their content from the following lines in order.
+ *
+ * @example { kind: 'dynamicDelimited', open: 'R"([^()\\\\\\s]{0,16})\\(', close: '){tag}"', multiline: true }
+ * @example { kind: 'dynamicDelimited', open: '\\$(\\w*)\\$', close: '${tag}$', multiline: true }
+ * @example { kind: 'dynamicDelimited', open: "<<'?(\\w+)'?", close: '{tag}', body: 'nextLine' }
+ */
+export interface DynamicDelimitedMatcher {
+  kind: "dynamicDelimited";
+  /** Regex for the opening delimiter (without flags), capturing the tag */
+  open: string;
+  /** Closing delimiter; `{tag}` stands for the captured tag */
+  close: string;
+  /** Escape character, for inline bodies */
+  escape?: string;
+  /** Whether an inline body can span multiple lines (default: false) */
+  multiline?: boolean;
+  /** Where the content starts: after the opening delimiter (default), or on the next line */
+  body?: "inline" | "nextLine";
+  /** For nextLine bodies: whether the closing delimiter may be indented (e.g. `<<-` and `<<~`) */
+  indentedClose?: boolean;
+}
+
 /**
  * Line content match. From marker to end of line.
  * For line comments, preprocessor directives, etc.
@@ -221,12 +309,19 @@ export interface SequenceMatcher {
  * Regex pattern escape hatch. DISCOURAGED - use other matchers when possible.
  * For truly complex edge cases that can't be expressed with other matchers.
  *
+ * The regex is matched at the current position against the whole source, so
+ * lookbehind and `\\b` see the text before it, and `^` only matches at the
+ * start of input (or of a line, with the `m` flag).
+ *
  * @example { kind: 'pattern', regex: '\\b0[xX][0-9a-fA-F]+\\b' }
+ * @example { kind: 'pattern', regex: '<!doctype[^>]*>', flags: 'i' }
  */
 export interface PatternMatcher {
   kind: "pattern";
-  /** Regex pattern string (without flags) */
+  /** Regex pattern string (without delimiters or flags) */
   regex: string;
+  /** Regex flags: any of `i`, `m`, `s` and `u` (default none) */
+  flags?: string;
 }
 
 // ---------------------------------------------------------------------------
@@ -6,7 +6,7 @@
 // chunking, folding, and symbol outline.
 // ---------------------------------------------------------------------------
 
-import type { SymbolKind } from "./common.js";
+import type { FoldingRangeKind, SymbolKind } from "./common.js";
 
 // ---------------------------------------------------------------------------
 // Structure config
@@ -22,6 +22,100 @@ export interface StructureConfig {
 
   /** Folding region rules for editors */
   folding?: FoldingRule[];
+
+  /** Compare token `value`s in symbol patterns ignoring case, for languages like SQL (default false) */
+  caseInsensitive?: boolean;
+
+  /** Keywords that open blocks closed by an end keyword, for bodyStyle 'end-keyword' */
+  keywordBlocks?: KeywordBlockConfig;
+
+  /** How to read the names and types of `parameters` captures */
+  parameters?: ParameterConfig;
+
+  /** Which comments and docstrings document a symbol */
+  documentation?: DocumentationConfig;
+}
+
+/**
+ * Keyword-delimited blocks (Ruby, Lua). A symbol with bodyStyle
+ * 'end-keyword' ends at the end keyword that closes its own opener; every
+ * opener in between must be closed first.
+ *
+ * @example // Ruby
+ * {
+ *   openers: ['begin', 'case', 'class', 'def', 'do', 'for', 'if', 'module', 'unless', 'until', 'while'],
+ *   modifiers: ['if', 'unless', 'until', 'while'],
+ *   loops: ['for', 'until', 'while'],
+ *   endless: ['def']
+ * }
+ */
+export interface KeywordBlockConfig {
+  /** Keyword tokens that open a block */
+  openers: string[];
+  /**
+   * Openers that only open a block where an expression starts: first on
+   * a line, or after an operator or opening punctuation. Elsewhere they
+   * are modifiers without a block (`return x if y`)
+   */
+  modifiers?: string[];
+  /** Openers that may take a `do` on the same line (`while x do`), which then opens no block */
+  loops?: string[];
+  /**
+   * Openers that open no block when an `=` follows their name or parameter
+   * list, like Ruby's endless `def name(args) = expr`
+   */
+  endless?: string[];
+}
+
+/**
+ * Parameter syntax. Anything from a top-level `=` on is a default value
+ * and is left out of the type.
+ *
+ * @example // TypeScript and Python: `name: type`
+ * { typePosition: 'after', typeSeparator: ':' }
+ * @example // Go: `a, b int`
+ * { typePosition: 'after' }
+ * @example // C++: `const std::string& s`
+ * { typePosition: 'before' }
+ */
+export interface ParameterConfig {
+  /** Whether a parameter's type comes before or after its name */
+  typePosition: "before" | "after";
+  /**
+   * Token between name and type, for typePosition 'after'. Without it the
+   * type directly follows the name, and names without a type share the
+   * next parameter's type
+   */
+  typeSeparator?: string;
+}
+
+/**
+ * Doc comments and docstrings. A doc comment documents the symbol starting
+ * on the line after it, and consecutive doc comments on adjacent lines
+ * (`///` or `//` blocks) document it together. Tokens before the symbol on
+ * its own line, such as modifiers its pattern leaves out, are passed over.
+ *
+ * @example // JSDoc
+ * { comments: [{ token: 'comment', pattern: '^/\\*\\*(?![*\/])' }] }
+ * @example // Python docstrings
+ * { docstrings: ['string'] }
+ */
+export interface DocumentationConfig {
+  /** Comment tokens that document the symbol after them */
+  comments?: DocCommentRule[];
+  /**
+   * String token types that document a symbol with a body when they are
+   * its first statement, right after the `:` ending its header
+   */
+  docstrings?: string[];
+}
+
+/** A comment token that is a doc comment */
+export interface DocCommentRule {
+  /** Token type */
+  token: string;
+  /** Regex the token value must match, e.g. `^///` for Rust doc comments */
+  pattern?: string;
 }
 
 // ---------------------------------------------------------------------------
@@ -70,6 +164,29 @@ export interface BlockRule {
  *   hasBody: true,
  *   bodyStyle: 'indentation'
  * }
+ *
+ * Besides `name`, these captures fill in the symbol's metadata:
+ * - `modifier`: one modifier per captured token (`export`, `static`, ...)
+ * - `parameters`: a `group` step holding the parameter list
+ * - `typeParameters`: a `group` step holding the type parameter list
+ * - `returnType`: the captured tokens; repeated captures span from the
+ *   first to the last
+ *
+ * @example // TypeScript function with metadata
+ * {
+ *   name: 'function_declaration',
+ *   kind: 'function',
+ *   pattern: [
+ *     { repeat: { token: 'keyword', value: 'export', capture: 'modifier' } },
+ *     { token: 'keyword', value: 'function' },
+ *     { token: 'identifier', capture: 'name' },
+ *     { optional: { group: ['<', '>'], capture: 'typeParameters' } },
+ *     { group: ['(', ')'], capture: 'parameters' },
+ *     { optional: [{ token: 'operator', value: ':' }, { skip: true, capture: 'returnType' }, { token: 'punctuation', value: '{' }] }
+ *   ],
+ *   hasBody: true,
+ *   bodyStyle: 'braces'
+ * }
  */
 export interface SymbolRule {
   /** Rule name (becomes the node type, compatible with tree-sitter names) */
@@ -80,11 +197,17 @@ export interface SymbolRule {
   pattern: TokenPatternStep[];
   /** Whether this symbol has a body (block) */
   hasBody?: boolean;
-  /** How the body is delimited */
+  /**
+   * How the body is delimited. A 'braces' body is the next brace block,
+   * unless a `;` outside parentheses ends the declaration first
+   */
   bodyStyle?: "braces" | "indentation" | "end-keyword" | "markup-block";
-  /** End keyword for bodyStyle 'end-keyword' (e.g., Ruby: 'end') */
+  /** End keyword for bodyStyle 'end-keyword' (default 'end'); see StructureConfig.keywordBlocks */
   endKeyword?: string;
-  /** Can this symbol appear inside another symbol? */
+  /**
+   * Can this symbol appear inside another symbol? With false, matches
+   * inside another symbol's content are dropped (default true)
+   */
   nested?: boolean;
 }
 
@@ -100,7 +223,9 @@ export type TokenPatternStep =
   | TokenMatchStep
   | TokenSkipStep
   | TokenOptionalStep
-  | TokenAnyOfStep;
+  | TokenAnyOfStep
+  | TokenRepeatStep
+  | TokenGroupStep;
 
 /** Match a specific token type and optionally a value */
 export interface TokenMatchStep {
@@ -117,11 +242,13 @@ export interface TokenSkipStep {
   skip: true;
   /** Maximum tokens to skip before giving up (prevents runaway matching) */
   maxTokens?: number;
+  /** Optional: capture the skipped tokens, if any, under a name (e.g., 'returnType') */
+  capture?: string;
 }
 
-/** Optional step - matches if possible, skips if not */
+/** Optional step or sequence - matches if possible, skips if not */
 export interface TokenOptionalStep {
-  optional: TokenPatternStep;
+  optional: TokenPatternStep | TokenPatternStep[];
 }
 
 /** Choice - match any one of the alternatives */
@@ -129,14 +256,52 @@ export interface TokenAnyOfStep {
   anyOf: TokenPatternStep[];
 }
 
+/** Repetition - match a step or sequence zero or more times */
+export interface TokenRepeatStep {
+  repeat: TokenPatternStep | TokenPatternStep[];
+}
+
+/**
+ * Balanced group - match from an opening token value through its closing
+ * one, e.g. a parameter list `(...)`. A closing token made of several
+ * close characters (`>>`) closes as many groups.
+ */
+export interface TokenGroupStep {
+  /** Opening and closing token values */
+  group: [open: string, close: string];
+  /** Optional: capture the group under a name (e.g., 'parameters') */
+  capture?: string;
+}
+
 // ---------------------------------------------------------------------------
 // Folding rules
 // ---------------------------------------------------------------------------
 
-/** Folding region definition for editors */
+/**
+ * Folding region definition for editors. Regions nest: a close token ends
+ * the innermost open region of the same rule.
+ *
+ * @example // C++ regions
+ * {
+ *   open: { token: 'preprocessor', pattern: '^#\\s*pragma\\s+region\\b' },
+ *   close: { token: 'preprocessor', pattern: '^#\\s*pragma\\s+endregion\\b' }
+ * }
+ */
 export interface FoldingRule {
   /** What opens a foldable region */
-  open: { token: string; value?: string };
+  open: FoldingTokenMatch;
   /** What closes it */
-  close: { token: string; value?: string };
+  close: FoldingTokenMatch;
+  /** Kind reported for the region (default 'region') */
+  kind?: FoldingRangeKind;
+}
+
+/** A token that opens or closes a folding region */
+export interface FoldingTokenMatch {
+  /** Token type */
+  token: string;
+  /** Exact token value */
+  value?: string;
+  /** Regex the token value must match, for tokens such as whole directive lines */
+  pattern?: string;
 }
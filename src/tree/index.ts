@@ -0,0 +1,9 @@
+export { TreeCursor } from "./tree-cursor.js";
+export {
+  walk,
+  namedChildren,
+  descendantForRange,
+  namedDescendantForRange,
+  printTree,
+  type TreeVisitor,
+} from "./tree-utils.js";
@@ -0,0 +1,110 @@
+// ---------------------------------------------------------------------------
+// Tree Cursor
+//
+// Stateful traversal of a SyntaxNode tree. The cursor keeps its own path
+// from the root it was created on, so it never walks above that root (even
+// if the node has a parent) and moving between siblings is O(1).
+// ---------------------------------------------------------------------------
+
+import type { SyntaxNode } from "../types/tree.js";
+
+interface CursorFrame {
+  node: SyntaxNode;
+  /** Index of `node` in its parent's children (0 for the root) */
+  index: number;
+}
+
+/** A cursor over a syntax tree, modeled after tree-sitter's TreeCursor */
+export class TreeCursor {
+  private stack: CursorFrame[];
+
+  constructor(root: SyntaxNode) {
+    this.stack = [{ node: root, index: 0 }];
+  }
+
+  /** The node the cursor is on */
+  get currentNode(): SyntaxNode {
+    return this.stack[this.stack.length - 1].node;
+  }
+
+  /** Field name of the current node in its parent, or null */
+  get currentFieldName(): string | null {
+    if (this.stack.length < 2) return null;
+    const parent = this.stack[this.stack.length - 2].node;
+    const node = this.currentNode;
+    for (const [name, value] of Object.entries(parent.fields)) {
+      if (value === node || (Array.isArray(value) && value.includes(node))) {
+        return name;
+      }
+    }
+    return null;
+  }
+
+  /** Number of steps below the cursor's root (0 at the root) */
+  get depth(): number {
+    return this.stack.length - 1;
+  }
+
+  /** Move to the first child. Returns false if there are no children. */
+  gotoFirstChild(): boolean {
+    const child = this.currentNode.children[0];
+    if (!child) return false;
+    this.stack.push({ node: child, index: 0 });
+    return true;
+  }
+
+  /** Move to the last child. Returns false if there are no children. */
+  gotoLastChild(): boolean {
+    const children = this.currentNode.children;
+    if (children.length === 0) return false;
+    this.stack.push({ node: children[children.length - 1], index: children.length - 1 });
+    return true;
+  }
+
+  /** Move to the next sibling. Returns false at the last child or the root. */
+  gotoNextSibling(): boolean {
+    return this.gotoSibling(1);
+  }
+
+  /** Move to the previous sibling. Returns false at the first child or the root. */
+  gotoPreviousSibling(): boolean {
+    return this.gotoSibling(-1);
+  }
+
+  /** Move to the parent. Returns false at the cursor's root. */
+  gotoParent(): boolean {
+    if (this.stack.length < 2) return false;
+    this.stack.pop();
+    return true;
+  }
+
+  /**
+   * Move to the first child that ends after `offset` (i.e. contains it or
+   * starts after it). Returns false if every child ends at or before it.
+   */
+  gotoFirstChildForOffset(offset: number): boolean {
+    const children = this.currentNode.children;
+    for (let i = 0; i < children.length; i++) {
+      if (children[i].range.end.offset > offset) {
+        this.stack.push({ node: children[i], index: i });
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /** Restart traversal at `node`, which becomes the cursor's new root */
+  reset(node: SyntaxNode): void {
+    this.stack = [{ node, index: 0 }];
+  }
+
+  private gotoSibling(step: number): boolean {
+    if (this.stack.length < 2) return false;
+    const parent = this.stack[this.stack.length - 2].node;
+    const frame = this.stack[this.stack.length - 1];
+    const sibling = parent.children[frame.index + step];
+    if (!sibling) return false;
+    this.stack[this.stack.length - 1] = { node: sibling, index: frame.index + step };
+    return true;
+  }
+}
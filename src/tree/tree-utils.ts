@@ -0,0 +1,110 @@
+// ---------------------------------------------------------------------------
+// Tree Utilities
+//
+// Visitors and lookups over SyntaxNode trees, built on TreeCursor so deep
+// trees do not overflow the call stack.
+// ---------------------------------------------------------------------------
+
+import type { SyntaxNode } from "../types/tree.js";
+import { TreeCursor } from "./tree-cursor.js";
+
+/** Callbacks for walk() */
+export interface TreeVisitor {
+  /** Called before a node's children. Return false to skip the children. */
+  enter?(node: SyntaxNode, depth: number): boolean | void;
+  /** Called after a node's children (also when they were skipped) */
+  leave?(node: SyntaxNode, depth: number): void;
+}
+
+/** Visit every node of `tree` depth-first, in document order */
+export function walk(tree: SyntaxNode, visitor: TreeVisitor): void {
+  const cursor = new TreeCursor(tree);
+  for (;;) {
+    const node = cursor.currentNode;
+    const descend = visitor.enter?.(node, cursor.depth) !== false;
+    if (descend && cursor.gotoFirstChild()) continue;
+
+    visitor.leave?.(node, cursor.depth);
+    while (!cursor.gotoNextSibling()) {
+      if (!cursor.gotoParent()) return;
+      visitor.leave?.(cursor.currentNode, cursor.depth);
+    }
+  }
+}
+
+/**
+ * Concatenate the text of the leaves under `node`, with their trivia.
+ * For a tree parsed with `{ trivia: true }` this reproduces the source.
+ */
+export function printTree(node: SyntaxNode): string {
+  let out = "";
+  const appendTrivia = (trivia: SyntaxNode["leadingTrivia"]) => {
+    for (const token of trivia ?? []) out += token.value;
+  };
+  walk(node, {
+    enter(current) {
+      appendTrivia(current.leadingTrivia);
+      if (current.children.length === 0) out += current.text;
+    },
+    leave(current) {
+      appendTrivia(current.trailingTrivia);
+    },
+  });
+  return out;
+}
+
+/** Children that are named (grammar rules and tokens matched by type) */
+export function namedChildren(node: SyntaxNode): SyntaxNode[] {
+  return node.children.filter((child) => child.isNamed);
+}
+
+/**
+ * The smallest node under `root` that spans the offsets [start, end].
+ * Returns null if `root` itself does not span them.
+ */
+export function descendantForRange(
+  root: SyntaxNode,
+  start: number,
+  end = start,
+): SyntaxNode | null {
+  return findDescendant(root, start, end, false);
+}
+
+/** Like descendantForRange, but only returns named nodes */
+export function namedDescendantForRange(
+  root: SyntaxNode,
+  start: number,
+  end = start,
+): SyntaxNode | null {
+  return findDescendant(root, start, end, true);
+}
+
+function findDescendant(
+  root: SyntaxNode,
+  start: number,
+  end: number,
+  named: boolean,
+): SyntaxNode | null {
+  if (!spans(root, start, end)) return null;
+
+  let found = root;
+  let node = root;
+  for (;;) {
+    // An offset where one child ends and the next begins belongs to the next
+    const child =
+      node.children.find((c) => spans(c, start, end) && !endsAt(c, start)) ??
+      node.children.find((c) => spans(c, start, end));
+    if (!child) return found;
+    node = child;
+    if (!named || node.isNamed) found = node;
+  }
+}
+
+function spans(node: SyntaxNode, start: number, end: number): boolean {
+  return node.range.start.offset <= start && end <= node.range.end.offset;
+}
+
+/** Whether a non-empty node ends exactly at `offset` */
+function endsAt(node: SyntaxNode, offset: number): boolean {
+  return node.range.end.offset === offset && node.range.start.offset < offset;
+}
@@ -0,0 +1,42 @@
+// ---------------------------------------------------------------------------
+// Output types: Diagnostics
+// ---------------------------------------------------------------------------
+
+import type { Range } from "../schema/common.js";
+
+/** How serious a diagnostic is */
+export type DiagnosticSeverity = "error" | "warning" | "info";
+
+/** Which analysis produced a diagnostic */
+export type DiagnosticSource = "lexer" | "blocks" | "grammar" | "semantic";
+
+/** A problem found in source code, e.g. for editor squiggles */
+export interface Diagnostic {
+  /** Human-readable description */
+  message: string;
+  /** Severity level */
+  severity: DiagnosticSeverity;
+  /** Source span the diagnostic applies to */
+  range: Range;
+  /** Descriptions of the tokens that would have been accepted (may be empty) */
+  expected: string[];
+  /** Analysis that produced the diagnostic */
+  source: DiagnosticSource;
+}
+
+/** Problem codes reported by the lexer */
+export type LexerDiagnosticCode =
+  | "UNEXPECTED_CHARACTER"
+  | "UNTERMINATED_DELIMITED"
+  | "UNCLOSED_STATE"
+  | "INCONSISTENT_INDENTATION";
+
+/** A diagnostic reported by the lexer, with the state and rule involved */
+export interface LexerDiagnostic extends Diagnostic {
+  source: "lexer";
+  code: LexerDiagnosticCode;
+  /** Lexer state the problem was found in; for UNCLOSED_STATE, the state left open */
+  state: string;
+  /** Index of the delimited rule in the state's rules, for UNTERMINATED_DELIMITED */
+  rule?: number;
+}
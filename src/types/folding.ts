@@ -0,0 +1,15 @@
+// ---------------------------------------------------------------------------
+// Output types: Folding ranges
+// ---------------------------------------------------------------------------
+
+import type { FoldingRangeKind } from "../schema/common.js";
+
+/** A foldable line range for editors */
+export interface FoldingRange {
+  /** 1-based line the region starts on */
+  startLine: number;
+  /** 1-based line the region ends on (the line of its closing token) */
+  endLine: number;
+  /** What the region holds */
+  kind: FoldingRangeKind;
+}
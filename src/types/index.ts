@@ -1,3 +1,18 @@
 // Output types barrel export
-export type { Token } from "./token.js";
-export type { SyntaxNode, CodeSymbol } from "./tree.js";
+export type { Token, TokenizeOptions, TokenizeResult } from "./token.js";
+export type {
+  SyntaxNode,
+  CodeSymbol,
+  CodeSymbolNode,
+  SymbolParameter,
+  SymbolDocumentation,
+  DocumentedParameter,
+} from "./tree.js";
+export type { FoldingRange } from "./folding.js";
+export type {
+  Diagnostic,
+  DiagnosticSeverity,
+  DiagnosticSource,
+  LexerDiagnostic,
+  LexerDiagnosticCode,
+} from "./diagnostic.js";
@@ -3,6 +3,7 @@
 // ---------------------------------------------------------------------------
 
 import type { Range, TokenCategory } from "../schema/common.js";
+import type { LexerDiagnostic } from "./diagnostic.js";
 
 /** A token emitted by the lexer */
 export interface Token {
@@ -15,3 +16,16 @@ export interface Token {
   /** Position in source */
   range: Range;
 }
+
+/** Options for tokenize */
+export interface TokenizeOptions {
+  /** Also return lexer diagnostics (default false) */
+  diagnostics?: boolean;
+}
+
+/** Result of tokenize with `{ diagnostics: true }` */
+export interface TokenizeResult {
+  tokens: Token[];
+  /** Lexer problems in source order */
+  diagnostics: LexerDiagnostic[];
+}
@@ -3,11 +3,17 @@
 // ---------------------------------------------------------------------------
 
 import type { Range, SymbolKind } from "../schema/common.js";
+import type { Token } from "./token.js";
 
 /** A node in the syntax tree */
 export interface SyntaxNode {
   /** Node type (from structure rules or grammar rules) */
   type: string;
+  /**
+   * Whether the node is named (a grammar rule, or a token matched by type)
+   * rather than anonymous (a token matched by its literal value, e.g. "{")
+   */
+  isNamed: boolean;
   /** Named fields (e.g., 'name', 'body', 'condition') */
   fields: Record<string, SyntaxNode | SyntaxNode[]>;
   /** Child nodes */
@@ -18,6 +24,13 @@ export interface SyntaxNode {
   range: Range;
   /** Parent node (null for root) */
   parent: SyntaxNode | null;
+  /**
+   * Skipped tokens (whitespace, comments) before this token leaf.
+   * Only set when parsing with `{ trivia: true }`.
+   */
+  leadingTrivia?: Token[];
+  /** Skipped tokens after this token leaf, through the end of its line */
+  trailingTrivia?: Token[];
 }
 
 /**
@@ -29,8 +42,68 @@ export interface CodeSymbol {
   name: string;
   /** Symbol kind classification */
   kind: SymbolKind;
+  /** Name of the symbol rule that matched, its tree-sitter node type (e.g. 'function_declaration') */
+  nodeType?: string;
   /** Symbol name token span */
   nameRange: Range;
   /** Symbol full content span */
   contentRange: Range;
+  /** Header text up to the body, whitespace collapsed (symbols with a body) */
+  signature?: string;
+  /** Parameters, when the symbol rule captures them */
+  parameters?: SymbolParameter[];
+  /** Modifier keywords such as export, async or static, in source order */
+  modifiers?: string[];
+  /** Return type as written */
+  returnType?: string;
+  /** Type parameters as written, e.g. ['T', 'K extends keyof T'] */
+  typeParameters?: string[];
+  /** Doc comment or docstring, when the profile configures them */
+  documentation?: SymbolDocumentation;
+}
+
+/** A parameter of a function or method symbol */
+export interface SymbolParameter {
+  /** Parameter name; empty for unnamed parameters */
+  name: string;
+  /** Type as written, without any default value */
+  type?: string;
+  /** Span of the whole parameter */
+  range: Range;
+}
+
+/**
+ * A symbol's doc comment or docstring. JSDoc-style `@param` / `@returns`
+ * tags, Google-style `Args:` / `Returns:` sections and C# XML elements are
+ * read into `parameters` and `returns`.
+ */
+export interface SymbolDocumentation {
+  /** The comments or docstring as written */
+  text: string;
+  /** Span of the comments or docstring */
+  range: Range;
+  /** First paragraph of the description, on one line */
+  summary: string;
+  /** Text before any tags or sections, without comment markers */
+  description: string;
+  /** Documented parameters, in documentation order */
+  parameters: DocumentedParameter[];
+  /** Description of the return value */
+  returns?: string;
+}
+
+/** A parameter described by a symbol's documentation */
+export interface DocumentedParameter {
+  name: string;
+  /** Type given by the documentation (`{string}`, `(int)`) */
+  type?: string;
+  description: string;
+}
+
+/** A CodeSymbol with the symbols nested inside it (see extractSymbolTree) */
+export interface CodeSymbolNode extends CodeSymbol {
+  /** Name of the innermost symbol containing this one; absent at top level */
+  containerName?: string;
+  /** Symbols directly inside this one, in source order */
+  children: CodeSymbolNode[];
 }
@@ -0,0 +1,68 @@
+import { tokenizeWithProfile, type LexerRule } from "../src/index.js";
+import { profileWith, type TestLanguage } from "./helpers/profile.js";
+
+const dispatch: TestLanguage = {
+    name: "dispatch",
+    tokenTypes: {
+        a: { category: "keyword" },
+        b: { category: "identifier" },
+        c: { category: "number" },
+        whitespace: { category: "whitespace" },
+    },
+    skipTokens: ["whitespace"],
+    rules: [{ match: { kind: "string", value: " " }, token: "whitespace" }],
+};
+
+function lex(source: string, rules: LexerRule[]): string[] {
+    return tokenizeWithProfile(source, profileWith(dispatch, rules))
+        .filter((t) => t.type !== "whitespace")
+        .map((t) => `${t.type}:${t.value}`);
+}
+
+describe("first-character dispatch", () => {
+    test("rules are still tried in order", () => {
+        const rules: LexerRule[] = [
+            { match: { kind: "charSequence", first: { predefined: "letter" }, rest: { predefined: "letter" } }, token: "b" },
+            { match: { kind: "keywords", words: ["if"] }, token: "a" },
+        ];
+        expect(lex("if x", rules)).toEqual(["b:if", "b:x"]);
+        expect(lex("if x", [...rules].reverse())).toEqual(["a:if", "b:x"]);
+    });
+
+    test("rules that can't be analysed are tried at every character, in order", () => {
+        const rules: LexerRule[] = [
+            { match: { kind: "string", value: "ab" }, token: "a" },
+            { match: { kind: "pattern", regex: "a|x+" }, token: "b" },
+            { match: { kind: "string", value: ["a", "x"] }, token: "c" },
+        ];
+        expect(lex("ab a xx", rules)).toEqual(["a:ab", "b:a", "b:xx"]);
+    });
+
+    test("characters outside ASCII reach the rules that can match them", () => {
+        const rules: LexerRule[] = [
+            { match: { kind: "charSequence", first: { chars: "λ" } }, token: "a" },
+            { match: { kind: "charSequence", first: { predefined: "letter" }, rest: { predefined: "alphanumeric" } }, token: "b" },
+            { match: { kind: "charSequence", first: { negate: { chars: " " } } }, token: "c" },
+        ];
+        expect(lex("λ éte ✓", rules)).toEqual(["a:λ", "b:éte", "c:✓"]);
+    });
+
+    test("first characters of keywords, numbers, delimiters and sequences", () => {
+        const rules: LexerRule[] = [
+            { match: { kind: "keywords", words: ["select"], caseInsensitive: true }, token: "a" },
+            { match: { kind: "number", integer: true, float: true }, token: "c" },
+            { match: { kind: "delimited", open: "<<", close: ">>" }, token: "b" },
+            { match: { kind: "line", start: "--" }, token: "b" },
+            {
+                match: {
+                    kind: "sequence",
+                    elements: [{ kind: "string", value: "@" }, { kind: "charSequence", first: { predefined: "letter" } }],
+                },
+                token: "a",
+            },
+        ];
+        expect(lex("SELECT .5 42 <<x>> @y -- rest", rules)).toEqual([
+            "a:SELECT", "c:.5", "c:42", "b:<<x>>", "a:@y", "b:-- rest",
+        ]);
+    });
+});
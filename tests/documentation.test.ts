@@ -0,0 +1,123 @@
+import { extractSymbols, type SymbolDocumentation } from "../src/index.js";
+
+function docs(source: string, language: string): Record<string, SymbolDocumentation | undefined> {
+    return Object.fromEntries(extractSymbols(source, language).map((s) => [s.name, s.documentation]));
+}
+
+describe("symbol documentation", () => {
+    test("JSDoc comments with tags", () => {
+        const source = [
+            "/**",
+            " * Load a resource.",
+            " * Retries on failure.",
+            " *",
+            " * Uses the cache when it can.",
+            " * @param {string} url - Where to load from,",
+            " *   absolute or relative.",
+            " * @param [retries=3] How often to retry",
+            " * @returns {Promise<void>} When loaded",
+            " * @throws {Error} On timeout",
+            " */",
+            "export async function load(url: string, retries = 3) {}",
+        ].join("\n");
+        const { load } = docs(source, "typescript");
+        expect(load).toEqual({
+            text: source.slice(0, source.indexOf("\nexport")),
+            range: {
+                start: { line: 1, column: 0, offset: 0 },
+                end: { line: 11, column: 3, offset: source.indexOf("\nexport") },
+            },
+            summary: "Load a resource. Retries on failure.",
+            description: "Load a resource.\nRetries on failure.\n\nUses the cache when it can.",
+            parameters: [
+                { name: "url", type: "string", description: "Where to load from, absolute or relative." },
+                { name: "retries", description: "How often to retry" },
+            ],
+            returns: "When loaded",
+        });
+    });
+
+    test("only comments right above the symbol document it", () => {
+        const source = [
+            "/** Detached. */",
+            "",
+            "function a() {}",
+            "/* Not a doc comment. */",
+            "function b() {}",
+            "const x = 1; /** Trailing. */",
+            "function c() {}",
+            "/** On its line. */ function d() {}",
+        ].join("\n");
+        const result = docs(source, "typescript");
+        expect([result.a, result.b, result.c]).toEqual([undefined, undefined, undefined]);
+        expect(result.d?.summary).toBe("On its line.");
+    });
+
+    test("line comment blocks in Go and Rust", () => {
+        const go = "// Read reads up to len(p) bytes.\n// It returns the count.\nfunc Read(p []byte) int {}\n\n// unrelated\n\nfunc Close() {}\n";
+        const goDocs = docs(go, "go");
+        expect(goDocs.Read).toMatchObject({
+            text: "// Read reads up to len(p) bytes.\n// It returns the count.",
+            description: "Read reads up to len(p) bytes.\nIt returns the count.",
+        });
+        expect(goDocs.Close).toBeUndefined();
+
+        const rust = "/// Adds two numbers.\n///\n/// # Examples\n//// Not a doc comment\npub fn add() {}\n\n/// Sums.\npub fn sum() {}\n";
+        const rustDocs = docs(rust, "rust");
+        expect(rustDocs.add).toBeUndefined();
+        expect(rustDocs.sum?.summary).toBe("Sums.");
+    });
+
+    test("Python docstrings with Google-style sections", () => {
+        const source = [
+            "class Cart:",
+            '    """A shopping cart.',
+            "",
+            "    Holds items until checkout.",
+            "",
+            "    Args:",
+            "        owner (str): Who the cart",
+            "            belongs to.",
+            "        *items: Initial items.",
+            "    Returns:",
+            "        Cart: the new cart",
+            "    Raises:",
+            "        ValueError: If owner is empty.",
+            '    """',
+            "    def total(self): 'The sum.'",
+            "    def size(self):",
+            "        ''.join([])",
+            "x = 'not a docstring'",
+        ].join("\n");
+        const result = docs(source, "python");
+        expect(result.Cart).toMatchObject({
+            summary: "A shopping cart.",
+            description: "A shopping cart.\n\nHolds items until checkout.",
+            parameters: [
+                { name: "owner", type: "str", description: "Who the cart belongs to." },
+                { name: "items", description: "Initial items." },
+            ],
+            returns: "Cart: the new cart",
+        });
+        expect(result.total).toMatchObject({ text: "'The sum.'", summary: "The sum.", parameters: [] });
+        expect(result.size).toBeUndefined();
+        expect(result.x).toBeUndefined();
+    });
+
+    test("C# XML documentation", () => {
+        const source = [
+            "/// <summary>",
+            '/// Stores <see cref="Item"/> values.',
+            "/// </summary>",
+            '/// <param name="capacity">Initial capacity</param>',
+            "/// <returns>The store</returns>",
+            "public class Store {}",
+        ].join("\n");
+        expect(docs(source, "csharp").Store).toMatchObject({
+            summary: "Stores Item values.",
+            description: "Stores Item values.",
+            parameters: [{ name: "capacity", description: "Initial capacity" }],
+            returns: "The store",
+        });
+    });
+});
@@ -0,0 +1,196 @@
+import {
+    LineState,
+    TokenizerStream,
+    bash,
+    createLineTokenizer,
+    tokenize,
+    tokenizeWithProfile,
+    type DynamicDelimitedMatcher,
+    type Token,
+} from "../src/index.js";
+import { profileWith, type TestLanguage } from "./helpers/profile.js";
+
+function strings(source: string, language: string): string[] {
+    return tokenize(source, language)
+        .filter((t) => t.category === "string")
+        .map((t) => t.value);
+}
+
+const dynamic: TestLanguage = {
+    name: "dynamic",
+    tokenTypes: {
+        string: { category: "string" },
+        word: { category: "identifier" },
+        whitespace: { category: "whitespace" },
+        newline: { category: "newline" },
+    },
+    skipTokens: ["whitespace", "newline"],
+    rules: [
+        { match: { kind: "charSequence", first: { predefined: "letter" }, rest: { predefined: "letter" } }, token: "word" },
+        { match: { kind: "charSequence", first: { chars: " \t" } }, token: "whitespace" },
+        { match: { kind: "charSequence", first: { predefined: "newline" } }, token: "newline" },
+    ],
+};
+
+function lexDynamic(source: string, matcher: DynamicDelimitedMatcher): Token[] {
+    return tokenizeWithProfile(source, profileWith(dynamic, [{ match: matcher, token: "string" }]));
+}
+
+describe("dynamicDelimited inline bodies", () => {
+    test("the captured tag selects the closing delimiter", () => {
+        expect(strings('auto s = R"x(a)"b)x"; auto t = R"(plain)";', "cpp")).toEqual([
+            'R"x(a)"b)x"',
+            'R"(plain)"',
+        ]);
+        expect(strings('let s = r#"say "hi""#; let t = r"x";', "rust")).toEqual(['r#"say "hi""#', 'r"x"']);
+    });
+
+    test("dollar quoting in SQL", () => {
+        const source = "create function f() returns text as $fn$ select 'a$$b' $fn$;\nselect $$x$$;";
+        expect(strings(source, "sql")).toEqual(["$fn$ select 'a$$b' $fn$", "$$x$$"]);
+    });
+
+    test("multiline controls whether the body may span lines", () => {
+        const matcher: DynamicDelimitedMatcher = { kind: "dynamicDelimited", open: "q(\\w)", close: "{tag}" };
+        expect(lexDynamic("qxab\ncx", matcher)[0].type).toBe("word");
+        const multiline = lexDynamic("qxab\ncx", { ...matcher, multiline: true });
+        expect(multiline[0]).toMatchObject({ type: "string", value: "qxab\ncx" });
+    });
+
+    test("escapes skip the closing delimiter", () => {
+        const matcher: DynamicDelimitedMatcher = { kind: "dynamicDelimited", open: "q(\\w)", close: "{tag}", escape: "\\" };
+        expect(lexDynamic("qxa\\xbx", matcher)[0].value).toBe("qxa\\xbx");
+    });
+
+    test("an unterminated body does not match", () => {
+        const tokens = tokenize('R"x(never closed)"', "cpp");
+        expect(tokens.some((t) => t.type === "raw_string")).toBe(false);
+    });
+});
+
+describe("dynamicDelimited heredocs", () => {
+    test("the body runs from the next line to the closing line", () => {
+        const source = "cat <<EOF | grep x\nhello $USER\nEOF\necho done\n";
+        expect(strings(source, "bash")).toEqual(["<<EOF", "hello $USER\nEOF"]);
+        expect(tokenize(source, "bash").map((t) => t.value)).toContain("echo");
+    });
+
+    test("the rest of the opening line is tokenized as usual", () => {
+        const values = tokenize("cat <<EOF | grep x\nhi\nEOF\n", "bash")
+            .filter((t) => t.category !== "whitespace")
+            .map((t) => t.value);
+        expect(values).toEqual(["cat", "<<EOF", "|", "grep", "x", "\n", "hi\nEOF", "\n"]);
+
+        const ruby = tokenize("sql = <<~SQL.strip\n  select 1\nSQL\n", "ruby").map((t) => t.value);
+        expect(ruby).toEqual(expect.arrayContaining(["<<~SQL", ".", "strip", "  select 1\nSQL"]));
+    });
+
+    test("heredocs opened on one line take the following bodies in order", () => {
+        const source = "diff <<A <<B\none\nA\ntwo\nB\necho done\n";
+        expect(strings(source, "bash")).toEqual(["<<A", "<<B", "one\nA", "two\nB"]);
+    });
+
+    test("the closing delimiter must start the line unless indentedClose", () => {
+        expect(strings("cat <<EOF\n  EOF\nEOF\n", "bash")).toEqual(["<<EOF", "  EOF\nEOF"]);
+        expect(strings("cat <<-'END'\n\tbody\n\tEND\n", "shell")).toEqual(["<<-'END'", "\tbody\n\tEND"]);
+        expect(strings("q = <<~SQL\n  select 1\n  SQL\n", "ruby")).toEqual(["<<~SQL", "  select 1\n  SQL"]);
+    });
+
+    test("the closing delimiter must be a whole word", () => {
+        expect(strings("cat <<EOF\nEOFX\nEOF\n", "bash")).toEqual(["<<EOF", "EOFX\nEOF"]);
+        // PHP allows code after the closing delimiter
+        expect(strings("$s = <<<EOT\n  hi\n  EOT;\n", "php")).toEqual(["<<<EOT", "  hi\n  EOT"]);
+    });
+
+    test("shift operators are not heredocs", () => {
+        expect(strings("puts 1 << 2\nclass << self\nend\n", "ruby")).toEqual([]);
+    });
+
+    test("CRLF line breaks", () => {
+        expect(strings("cat <<EOF\r\nbody\r\nEOF\r\n", "bash")).toEqual(["<<EOF", "body\r\nEOF"]);
+    });
+});
+
+async function streamBash(chunks: string[]): Promise<Token[]> {
+    const stream = new TokenizerStream(bash.lexer);
+    const writer = stream.writable.getWriter();
+    const collected: Token[] = [];
+    const reading = (async () => {
+        const reader = stream.readable.getReader();
+        for (;;) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            collected.push(value);
+        }
+    })();
+    for (const chunk of chunks) await writer.write(chunk);
+    await writer.close();
+    await reading;
+    return collected;
+}
+
+describe("dynamicDelimited with resumable lexing", () => {
+    const source = "cat <<EOF\na\n\nEOF\necho 'R'\n";
+
+    test("line tokenizer carries the closing delimiter across lines", () => {
+        const tokenizer = createLineTokenizer("bash");
+        let state = tokenizer.initialState;
+        const values: string[] = [];
+        for (const line of source.split("\n")) {
+            const result = tokenizer.tokenizeLine(line, state);
+            values.push(...result.tokens.filter((t) => t.type === "string").map((t) => t.value));
+            state = result.endState;
+            if (line === "a") expect(state.open?.close).toBe("EOF");
+        }
+        expect(values).toEqual(["<<EOF", "a", "EOF", "'R'"]);
+        expect(state.open).toBeNull();
+    });
+
+    test("streamed chunks produce the same tokens", async () => {
+        const expected = tokenize(source, "bash");
+        for (let split = 1; split < source.length; split++) {
+            const collected = await streamBash([source.slice(0, split), source.slice(split)]);
+            expect(collected, `split at ${split}`).toEqual(expected);
+        }
+    });
+
+    test("several heredocs on a line, with a pipe after them", async () => {
+        const code = "diff <<A <<B | cat\none\nA\ntwo\nB\necho done\n";
+        const tokenizer = createLineTokenizer("bash");
+        let state = tokenizer.initialState;
+        const values: string[] = [];
+        for (const line of code.split("\n")) {
+            const result = tokenizer.tokenizeLine(line, state);
+            values.push(...result.tokens.filter((t) => t.type !== "whitespace").map((t) => t.value));
+            state = LineState.fromJSON(JSON.parse(JSON.stringify(result.endState)));
+        }
+        expect(values).toEqual(["diff", "<<A", "<<B", "|", "cat", "one", "A", "two", "B", "echo", "done"]);
+
+        const expected = tokenize(code, "bash");
+        for (let split = 1; split < code.length; split++) {
+            const collected = await streamBash([code.slice(0, split), code.slice(split)]);
+            expect(collected, `split at ${split}`).toEqual(expected);
+        }
+    });
+
+    test("here-strings are not heredocs", () => {
+        const source = "cat <<< word\necho done\ncat <<<EOF\nEOF\n";
+        for (const language of ["bash", "shell"]) {
+            const expected = tokenize(source, language);
+            expect(expected.filter((t) => t.category === "string")).toEqual([]);
+
+            const tokenizer = createLineTokenizer(language);
+            let state = tokenizer.initialState;
+            const lines: Token[] = [];
+            for (const line of source.split("\n")) {
+                const result = tokenizer.tokenizeLine(line, state);
+                lines.push(...result.tokens);
+                state = result.endState;
+                expect(state.open).toBeNull();
+            }
+            expect(lines.map((t) => t.value).filter((v) => v.trim() !== "")).toEqual(
+                expected.map((t) => t.value).filter((v) => v.trim() !== ""),
+            );
+        }
+    });
+});
@@ -0,0 +1,153 @@
+import {
+    extractSymbolTree,
+    extractSymbols,
+    extractSymbolsWithProfile,
+    type LanguageProfile,
+} from "../src/index.js";
+
+/** `name start-end` lines of each symbol */
+function spans(source: string): string[] {
+    return extractSymbols(source, "ruby").map(
+        (s) => `${s.name} ${s.contentRange.start.line}-${s.contentRange.end.line}`,
+    );
+}
+
+describe("bodyStyle end-keyword in Ruby", () => {
+    test("a def spans through its end", () => {
+        const source = "def greet(name)\n  puts name\nend\n";
+        const [greet] = extractSymbols(source, "ruby");
+        expect(greet.contentRange.end.offset).toBe(source.lastIndexOf("end") + 3);
+    });
+
+    test("nested openers are counted against end", () => {
+        const source = [
+            "def run",
+            "  if ready",
+            "    items.each do |i|",
+            "      case i",
+            "      when 1 then begin; go; end",
+            "      end",
+            "    end",
+            "  end",
+            "  while busy do sleep 1 end",
+            "  for x in xs do p x end",
+            "end",
+            "def after; end",
+        ].join("\n");
+        expect(spans(source)).toEqual(["run 1-11", "after 12-12"]);
+    });
+
+    test("modifier forms open no block", () => {
+        const source = [
+            "def check(x)",
+            "  return if x.nil?",
+            "  log x unless quiet",
+            "  retry_it while failing?",
+            "  y = if x then 1 else 2 end",
+            "  z = (if x then 1 end)",
+            "end",
+        ].join("\n");
+        expect(spans(source)).toEqual(["check 1-7"]);
+    });
+
+    test("method calls named like keywords are ignored", () => {
+        expect(spans("def last(r)\n  r.end\nend\n")).toEqual(["last 1-3"]);
+    });
+
+    test("classes and modules contain their methods", () => {
+        const source = "module Shop\n  class Cart\n    def add; end\n    def total\n      1\n    end\n  end\nend\n";
+        const tree = extractSymbolTree(source, "ruby");
+        expect(tree.map((s) => s.name)).toEqual(["Shop"]);
+        expect(tree[0].children.map((s) => s.name)).toEqual(["Cart"]);
+        expect(tree[0].children[0].children.map((s) => `${s.containerName}.${s.name}`)).toEqual([
+            "Cart.add",
+            "Cart.total",
+        ]);
+    });
+
+    test("endless defs open no block", () => {
+        const source = [
+            "module Outer",
+            "  class Foo",
+            "    def x = 1",
+            "    def y() = 2",
+            "    def size(a, b) = a + b",
+            "    def name=(value)",
+            "      @name = value",
+            "    end",
+            "  end",
+            "end",
+            "def after; end",
+        ].join("\n");
+        expect(spans(source)).toEqual(["Outer 1-10", "Foo 2-9", "x 3-3", "y 4-4", "size 5-5", "name 6-8", "after 11-11"]);
+    });
+
+    test("keywords used as hash keys are not counted", () => {
+        const source = [
+            "class UsersController < ApplicationController",
+            "  before_action :require_login, if: :signed_in?",
+            "  def show",
+            '    link_to "Back", class: "btn"',
+            "    foo(if: 1, unless: 2)",
+            "  end",
+            "end",
+        ].join("\n");
+        expect(spans(source)).toEqual(["UsersController 1-7", "show 3-6"]);
+    });
+
+    test("keywords used as symbols are not counted", () => {
+        const source = "def kinds\n  [:end, :if, :class, :do]\nend\ndef after; end\n";
+        expect(spans(source)).toEqual(["kinds 1-3", "after 4-4"]);
+    });
+
+    test("an unclosed body keeps the header span", () => {
+        expect(spans("def broken\n  if x\nend\n")).toEqual(["broken 1-1"]);
+    });
+});
+
+describe("custom end keywords", () => {
+    const profile: LanguageProfile = {
+        name: "endlang",
+        displayName: "End",
+        version: "1.0.0",
+        fileExtensions: [".endlang"],
+        lexer: {
+            tokenTypes: {
+                keyword: { category: "keyword" },
+                identifier: { category: "identifier" },
+                whitespace: { category: "whitespace" },
+            },
+            initialState: "default",
+            skipTokens: ["whitespace"],
+            states: {
+                default: {
+                    rules: [
+                        { match: { kind: "keywords", words: ["proc", "loop", "done"] }, token: "keyword" },
+                        { match: { kind: "charSequence", first: { predefined: "letter" }, rest: { predefined: "letter" } }, token: "identifier" },
+                        { match: { kind: "charSequence", first: { chars: " \n" }, rest: { chars: " \n" } }, token: "whitespace" },
+                    ],
+                },
+            },
+        },
+        structure: {
+            blocks: [],
+            symbols: [
+                {
+                    name: "proc",
+                    kind: "function",
+                    pattern: [{ token: "keyword", value: "proc" }, { token: "identifier", capture: "name" }],
+                    hasBody: true,
+                    bodyStyle: "end-keyword",
+                    endKeyword: "done",
+                },
+            ],
+            keywordBlocks: { openers: ["loop"] },
+        },
+    };
+
+    test("endKeyword and keywordBlocks come from the profile", () => {
+        const source = "proc main\n loop x done\n y\ndone\nz";
+        const [main] = extractSymbolsWithProfile(source, profile);
+        expect(main.contentRange.end.offset).toBe(source.lastIndexOf("done") + 4);
+    });
+});
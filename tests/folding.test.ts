@@ -0,0 +1,85 @@
+import { getFoldingRanges, getFoldingRangesWithProfile, type LanguageProfile } from "../src/index.js";
+
+/** `kind start-end` per range */
+function folds(source: string, language: string): string[] {
+    return getFoldingRanges(source, language).map((r) => `${r.kind} ${r.startLine}-${r.endLine}`);
+}
+
+describe("getFoldingRanges", () => {
+    test("blocks and comments that span lines", () => {
+        const source = [
+            "/**",
+            " * Docs",
+            " */",
+            "function f(a) {",
+            "  if (a) { return 1; }",
+            "  return [",
+            "    a,",
+            "  ];",
+            "}",
+            "/* one line */",
+        ].join("\n");
+        expect(folds(source, "typescript")).toEqual(["comment 1-3", "region 4-9", "region 6-8"]);
+    });
+
+    test("consecutive imports fold together", () => {
+        const source = [
+            "import { a,",
+            "  b } from 'x';",
+            "// comment",
+            "import c from 'c';",
+            "",
+            "const y = 1;",
+            "import d from 'd';",
+            "import e from 'e';",
+        ].join("\n");
+        expect(folds(source, "typescript")).toEqual(["imports 1-4", "imports 7-8"]);
+        expect(folds("import os\nimport sys\n\ndef f():\n    pass\n", "python")).toEqual(["imports 1-2"]);
+    });
+
+    test("region comments and preprocessor directives", () => {
+        const ts = "//#region helpers\nconst a = 1;\n// #region inner\nconst b = 2;\n// #endregion\n//#endregion\n";
+        expect(folds(ts, "typescript")).toEqual(["region 1-6", "region 3-5"]);
+
+        const cpp = "#pragma region A\n#ifdef X\nint a;\n#endif\n#pragma endregion\n#if Y\n";
+        expect(folds(cpp, "cpp")).toEqual(["region 1-5", "region 2-4"]);
+    });
+
+    test("folding rules from a custom profile", () => {
+        const profile: LanguageProfile = {
+            name: "folds",
+            displayName: "Folds",
+            version: "1.0.0",
+            fileExtensions: [".folds"],
+            lexer: {
+                tokenTypes: {
+                    keyword: { category: "keyword" },
+                    whitespace: { category: "whitespace" },
+                },
+                initialState: "default",
+                skipTokens: ["whitespace"],
+                states: {
+                    default: {
+                        rules: [
+                            { match: { kind: "keywords", words: ["begin", "end", "note", "done"] }, token: "keyword" },
+                            { match: { kind: "charSequence", first: { chars: " \n" }, rest: { chars: " \n" } }, token: "whitespace" },
+                        ],
+                    },
+                },
+            },
+            structure: {
+                blocks: [],
+                symbols: [],
+                folding: [
+                    { open: { token: "keyword", value: "begin" }, close: { token: "keyword", value: "end" } },
+                    { open: { token: "keyword", value: "note" }, close: { token: "keyword", value: "done" }, kind: "comment" },
+                ],
+            },
+        };
+        const source = "begin\nbegin end\nnote\ndone\nend\nend";
+        expect(getFoldingRangesWithProfile(source, profile)).toEqual([
+            { startLine: 1, endLine: 5, kind: "region" },
+            { startLine: 3, endLine: 4, kind: "comment" },
+        ]);
+    });
+});
@@ -0,0 +1,158 @@
+import {
+    analyzeGrammar,
+    builtinProfiles,
+    type GrammarConfig,
+    type LexerConfig,
+} from "../src/index.js";
+
+const lexer: LexerConfig = {
+    tokenTypes: {
+        identifier: { category: "identifier" },
+        number: { category: "number" },
+        operator: { category: "operator" },
+        punctuation: { category: "punctuation" },
+        whitespace: { category: "whitespace" },
+    },
+    initialState: "default",
+    skipTokens: ["whitespace"],
+    states: { default: { rules: [] } },
+};
+
+const kinds = (grammar: GrammarConfig) => analyzeGrammar(grammar, lexer).map((i) => i.kind);
+
+describe("analyzeGrammar", () => {
+    test("built-in grammars have no issues", () => {
+        for (const profile of builtinProfiles) {
+            if (!profile.grammar) continue;
+            expect(analyzeGrammar(profile.grammar, profile.lexer)).toEqual([]);
+        }
+    });
+
+    test("reports direct left recursion", () => {
+        const issues = analyzeGrammar(
+            {
+                entry: "list",
+                rules: {
+                    list: {
+                        alternatives: [
+                            [{ rule: "list" }, { token: "punctuation", value: "," }, { token: "identifier" }],
+                            [{ token: "identifier" }],
+                        ],
+                    },
+                },
+            },
+            lexer,
+        );
+        expect(issues).toEqual([
+            {
+                kind: "left-recursion",
+                severity: "error",
+                message: 'Rule "list" is left-recursive',
+                rule: "list",
+            },
+        ]);
+    });
+
+    test("reports indirect left recursion through nullable prefixes", () => {
+        const issues = analyzeGrammar(
+            {
+                entry: "a",
+                rules: {
+                    a: { alternatives: [[{ optional: { token: "operator" } }, { rule: "b" }]] },
+                    b: { alternatives: [[{ rule: "c" }, { token: "number" }]] },
+                    c: { alternatives: [[{ rule: "a" }], [{ token: "identifier" }]] },
+                },
+            },
+            lexer,
+        );
+        expect(issues).toHaveLength(1);
+        expect(issues[0].message).toBe("Rules are left-recursive: a -> b -> c -> a");
+    });
+
+    test("operator productions are not left recursion", () => {
+        expect(
+            kinds({
+                entry: "expression",
+                rules: {
+                    expression: {
+                        alternatives: [[{ rule: "binary" }], [{ token: "number" }]],
+                    },
+                    binary: {
+                        alternatives: [[{ rule: "expression" }, { token: "operator" }, { rule: "expression" }]],
+                    },
+                },
+            }),
+        ).toEqual([]);
+    });
+
+    test("reports undefined rules and unknown token types", () => {
+        const issues = analyzeGrammar(
+            {
+                entry: "main",
+                rules: {
+                    main: {
+                        alternatives: [
+                            [
+                                { rule: "missing" },
+                                { repeat: { token: "identifier" }, separator: { token: "comma" } },
+                                { token: "strng" },
+                            ],
+                        ],
+                    },
+                },
+                recovery: [{ context: "gone", syncTokens: [";"] }],
+                skipTokens: ["whitespace", "comments"],
+            },
+            lexer,
+        );
+        expect(issues.map((i) => i.message).sort()).toEqual([
+            'Grammar skipTokens lists unknown token type "comments"',
+            'Recovery context "gone" is not defined',
+            'Rule "main" references undefined rule "missing"',
+            'Rule "main" uses unknown token type "comma"',
+            'Rule "main" uses unknown token type "strng"',
+        ]);
+        expect(kinds({ entry: "nope", rules: {} })).toEqual(["undefined-rule"]);
+    });
+
+    test("reports rules unreachable from the entry as warnings", () => {
+        const issues = analyzeGrammar(
+            {
+                entry: "main",
+                rules: {
+                    main: { alternatives: [[{ rule: "used" }]] },
+                    used: { alternatives: [[{ token: "number" }]] },
+                    orphan: { alternatives: [[{ token: "identifier" }]] },
+                },
+            },
+            lexer,
+        );
+        expect(issues).toEqual([
+            {
+                kind: "unreachable-rule",
+                severity: "warning",
+                message: 'Rule "orphan" is not reachable from entry rule "main"',
+                rule: "orphan",
+            },
+        ]);
+    });
+
+    test("reports repeats whose body can match empty", () => {
+        expect(
+            kinds({
+                entry: "main",
+                rules: {
+                    main: {
+                        alternatives: [
+                            [{ repeat: [{ optional: { token: "number" } }] }],
+                            [{ repeat: { rule: "maybe" }, min: 1 }],
+                            // A separator guarantees progress
+                            [{ repeat: { rule: "maybe" }, separator: { token: "punctuation", value: "," } }],
+                        ],
+                    },
+                    maybe: { alternatives: [[{ repeat: { token: "identifier" } }]] },
+                },
+            }),
+        ).toEqual(["empty-repeat"]);
+    });
+});
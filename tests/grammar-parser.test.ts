@@ -0,0 +1,530 @@
+import {
+    parse,
+    parseWithProfile,
+    getGrammarParser,
+    GrammarParser,
+    json,
+    printTree,
+    tokenize,
+    tokenizeWithProfile,
+    type LanguageProfile,
+    type SyntaxNode,
+} from "../src/index.js";
+
+const listProfile: LanguageProfile = {
+    name: "grammar-list-test",
+    displayName: "Grammar List Test",
+    version: "1.0.0",
+    fileExtensions: [".glt"],
+    lexer: {
+        tokenTypes: {
+            identifier: { category: "identifier" },
+            punctuation: { category: "punctuation" },
+            whitespace: { category: "whitespace" },
+        },
+        initialState: "default",
+        skipTokens: ["whitespace"],
+        states: {
+            default: {
+                rules: [
+                    {
+                        match: {
+                            kind: "charSequence",
+                            first: { predefined: "letter" },
+                            rest: { predefined: "alphanumeric" },
+                        },
+                        token: "identifier",
+                    },
+                    {
+                        match: { kind: "string", value: ["(", ")", ","] },
+                        token: "punctuation",
+                    },
+                    {
+                        match: {
+                            kind: "charSequence",
+                            first: { predefined: "whitespace" },
+                            rest: { predefined: "whitespace" },
+                        },
+                        token: "whitespace",
+                    },
+                ],
+            },
+        },
+    },
+    grammar: {
+        entry: "call",
+        rules: {
+            call: {
+                alternatives: [
+                    [
+                        { token: "identifier", field: "callee" },
+                        { token: "punctuation", value: "(" },
+                        { optional: { rule: "arguments" } },
+                        { token: "punctuation", value: ")" },
+                    ],
+                ],
+            },
+            arguments: {
+                inline: true,
+                alternatives: [
+                    [
+                        {
+                            repeat: { rule: "argument", field: "argument" },
+                            min: 1,
+                            separator: { token: "punctuation", value: "," },
+                        },
+                    ],
+                ],
+            },
+            argument: {
+                alternatives: [[{ rule: "call" }], [{ token: "identifier" }]],
+            },
+        },
+    },
+};
+
+const exprProfile: LanguageProfile = {
+    name: "grammar-expr-test",
+    displayName: "Grammar Expression Test",
+    version: "1.0.0",
+    fileExtensions: [".gxt"],
+    lexer: {
+        tokenTypes: {
+            identifier: { category: "identifier" },
+            number: { category: "number" },
+            operator: { category: "operator" },
+            punctuation: { category: "punctuation" },
+            whitespace: { category: "whitespace" },
+        },
+        initialState: "default",
+        skipTokens: ["whitespace"],
+        states: {
+            default: {
+                rules: [
+                    {
+                        match: {
+                            kind: "charSequence",
+                            first: { predefined: "letter" },
+                            rest: { predefined: "alphanumeric" },
+                        },
+                        token: "identifier",
+                    },
+                    { match: { kind: "number", integer: true }, token: "number" },
+                    {
+                        match: { kind: "string", value: ["**", "+", "-", "*", "/", "<"] },
+                        token: "operator",
+                    },
+                    { match: { kind: "string", value: ["(", ")"] }, token: "punctuation" },
+                    {
+                        match: {
+                            kind: "charSequence",
+                            first: { predefined: "whitespace" },
+                            rest: { predefined: "whitespace" },
+                        },
+                        token: "whitespace",
+                    },
+                ],
+            },
+        },
+    },
+    grammar: {
+        entry: "program",
+        rules: {
+            program: { alternatives: [[{ rule: "expression" }]] },
+            expression: {
+                inline: true,
+                alternatives: [
+                    [{ rule: "binary_expression" }],
+                    [{ rule: "unary_expression" }],
+                    [{ rule: "parenthesized_expression" }],
+                    [{ token: "number" }],
+                    [{ token: "identifier" }],
+                ],
+            },
+            binary_expression: {
+                alternatives: [
+                    [
+                        { rule: "expression", field: "left" },
+                        {
+                            prec: 4,
+                            assoc: "right",
+                            element: { token: "operator", value: "**", field: "operator" },
+                        },
+                        { rule: "expression", field: "right" },
+                    ],
+                    [
+                        { rule: "expression", field: "left" },
+                        { token: "operator", field: "operator" },
+                        { rule: "expression", field: "right" },
+                    ],
+                ],
+            },
+            unary_expression: {
+                alternatives: [
+                    [
+                        { token: "operator", value: "-", field: "operator" },
+                        { rule: "expression", field: "argument" },
+                    ],
+                ],
+            },
+            parenthesized_expression: {
+                alternatives: [
+                    [
+                        { token: "punctuation", value: "(" },
+                        { rule: "expression" },
+                        { token: "punctuation", value: ")" },
+                    ],
+                ],
+            },
+        },
+        precedence: [
+            { level: 1, associativity: "none", operators: ["<"] },
+            { level: 2, associativity: "left", operators: ["+", "-"] },
+            { level: 3, associativity: "left", operators: ["*", "/"] },
+        ],
+        recovery: [{ context: "parenthesized_expression", syncTokens: [")"] }],
+    },
+};
+
+/** Render rule nodes as an S-expression, operand leaves as their text */
+function sexp(node: SyntaxNode): string {
+    if (node.children.length === 0) return node.text;
+    const parts = node.children
+        .filter((c) => c.children.length > 0 || c.type === "identifier" || c.type === "number")
+        .map(sexp);
+    return `(${node.type} ${parts.join(" ")})`;
+}
+
+describe("grammar parser", () => {
+    test("json: builds object/member/array nodes with fields", () => {
+        const source = '{ "name": "app", "tags": [1, true] }';
+        const tree = parse(source, "json");
+
+        expect(tree).not.toBeNull();
+        expect(tree!.type).toBe("document");
+        expect(tree!.parent).toBeNull();
+        expect(tree!.text).toBe(source);
+
+        const value = tree!.children[0];
+        expect(value.type).toBe("value");
+        const object = value.children[0];
+        expect(object.type).toBe("object");
+        expect(object.parent).toBe(value);
+
+        const pairs = object.children.filter((c) => c.type === "member");
+        expect(pairs).toHaveLength(2);
+
+        const key = pairs[0].fields.key as SyntaxNode;
+        expect(key.text).toBe('"name"');
+        expect(key.isNamed).toBe(true);
+
+        const tags = pairs[1].fields.value as SyntaxNode;
+        expect(tags.children[0].type).toBe("array");
+        expect(tags.text).toBe("[1, true]");
+        expect(tags.range.start.offset).toBe(source.indexOf("["));
+    });
+
+    test("anonymous tokens are marked as not named", () => {
+        const tree = parse("[1]", "json")!;
+        const array = tree.children[0].children[0];
+        expect(array.children.map((c) => c.isNamed)).toEqual([false, true, false]);
+    });
+
+    test("toml: builds table/pair/key/value nodes", () => {
+        const source = '[server]\nhost = "x"\nports = [1, 2,]\nopts = { a.b = true }\n';
+        const tree = parse(source, "toml")!;
+
+        expect(tree.type).toBe("document");
+        const named = tree.children.filter((c) => c.type !== "newline");
+        expect(named.map((c) => c.type)).toEqual(["table", "pair", "pair", "pair"]);
+        expect((named[0].fields.name as SyntaxNode).text).toBe("server");
+
+        const ports = named[2].fields.value as SyntaxNode;
+        expect(ports.children[0].type).toBe("array");
+        expect((ports.children[0].fields.element as SyntaxNode[]).map((e) => e.text)).toEqual([
+            "1",
+            "2",
+        ]);
+
+        const opts = (named[3].fields.value as SyntaxNode).children[0];
+        expect(opts.type).toBe("inline_table");
+        const inner = opts.children.find((c) => c.type === "pair")!;
+        expect((inner.fields.key as SyntaxNode).text).toBe("a.b");
+    });
+
+    test("toml: array tables and signed numbers", () => {
+        const tree = parse("[[bin]]\nn = -1\n", "toml")!;
+        expect(tree.children[0].type).toBe("array_table");
+        const pair = tree.children.find((c) => c.type === "pair")!;
+        expect((pair.fields.value as SyntaxNode).text).toBe("-1");
+    });
+
+    test("returns null for profiles without a grammar", () => {
+        expect(parse("const x = 1;", "typescript")).toBeNull();
+    });
+
+    test("inline rules splice children and fields into the parent", () => {
+        const tree = parseWithProfile("f(a, g(b))", listProfile)!;
+
+        expect(tree.type).toBe("call");
+        expect(tree.children.some((c) => c.type === "arguments")).toBe(false);
+
+        const args = tree.fields.argument as SyntaxNode[];
+        expect(args).toHaveLength(2);
+        expect(args.map((a) => a.text)).toEqual(["a", "g(b)"]);
+        expect(args[1].children[0].type).toBe("call");
+        expect((args[1].children[0].fields.callee as SyntaxNode).text).toBe("g");
+        expect(args[0].parent).toBe(tree);
+    });
+
+    test("honors skip tokens from the lexer", () => {
+        const tree = parseWithProfile("f (  a ,b )", listProfile)!;
+        expect(tree).not.toBeNull();
+        expect(tree.children.every((c) => c.type !== "whitespace")).toBe(true);
+    });
+
+    describe("error recovery", () => {
+        function findAll(node: SyntaxNode, type: string): SyntaxNode[] {
+            const found = node.type === type ? [node] : [];
+            return found.concat(...node.children.map((c) => findAll(c, type)));
+        }
+
+        test("trailing comma becomes an ERROR node and parsing continues", () => {
+            const source = '{ "a": 1, }';
+            const result = getGrammarParser(json)!.parseWithErrors(tokenize(source, "json"), source);
+
+            expect(result.tree.type).toBe("document");
+            const object = result.tree.children[0].children[0];
+            expect(object.type).toBe("object");
+            expect(object.children[object.children.length - 1].text).toBe("}");
+
+            const errors = findAll(result.tree, "ERROR");
+            expect(errors).toHaveLength(1);
+            expect(errors[0].text).toBe(",");
+            expect(result.errors).toHaveLength(1);
+            expect(result.errors[0].message).toBe('Trailing "," is not allowed');
+            expect(result.errors[0].expected).toEqual(["string"]);
+        });
+
+        test("missing close delimiter becomes a MISSING node", () => {
+            const source = '{ "a": [1, 2 }';
+            const result = getGrammarParser(json)!.parseWithErrors(tokenize(source, "json"), source);
+
+            const missing = findAll(result.tree, "MISSING");
+            expect(missing).toHaveLength(1);
+            expect(missing[0].text).toBe("");
+            expect(missing[0].parent?.type).toBe("array");
+            expect(result.errors[0].expected).toEqual(['"]"']);
+            expect(result.errors[0].context).toBe("array");
+            // The object still closes after the repaired array
+            expect(findAll(result.tree, "object")[0].text).toBe(source);
+        });
+
+        test("skips to the sync token and keeps parsing later members", () => {
+            const source = '{ "a": : 1, "b": true }';
+            const tree = parse(source, "json")!;
+
+            const pairs = findAll(tree, "member");
+            expect(pairs.map((p) => (p.fields.key as SyntaxNode).text)).toContain('"b"');
+            expect(findAll(tree, "ERROR").length + findAll(tree, "MISSING").length).toBeGreaterThan(0);
+        });
+
+        test("leftover tokens after the entry rule are wrapped in ERROR", () => {
+            const source = "[1] 2";
+            const result = getGrammarParser(json)!.parseWithErrors(tokenize(source, "json"), source);
+
+            const last = result.tree.children[result.tree.children.length - 1];
+            expect(last.type).toBe("ERROR");
+            expect(last.text).toBe("2");
+            expect(result.errors[0].expected).toEqual(["end of input"]);
+        });
+
+        test("valid input reports no errors", () => {
+            const source = '{ "a": [1, 2] }';
+            const result = getGrammarParser(json)!.parseWithErrors(tokenize(source, "json"), source);
+            expect(result.errors).toEqual([]);
+        });
+    });
+
+    describe("operator precedence", () => {
+        const parseExpr = (source: string) => parseWithProfile(source, exprProfile)!;
+
+        test("higher precedence operators nest deeper", () => {
+            expect(sexp(parseExpr("a + b * c"))).toBe(
+                "(program (binary_expression a (binary_expression b c)))",
+            );
+            expect(sexp(parseExpr("a * b + c"))).toBe(
+                "(program (binary_expression (binary_expression a b) c))",
+            );
+        });
+
+        test("left associativity groups to the left", () => {
+            const tree = parseExpr("a - b - c");
+            expect(sexp(tree)).toBe("(program (binary_expression (binary_expression a b) c))");
+
+            const outer = tree.children[0];
+            expect((outer.fields.left as SyntaxNode).text).toBe("a - b");
+            expect((outer.fields.operator as SyntaxNode).text).toBe("-");
+            expect((outer.fields.right as SyntaxNode).text).toBe("c");
+        });
+
+        test("PrecElement overrides precedence and associativity", () => {
+            expect(sexp(parseExpr("a ** b ** c * d"))).toBe(
+                "(program (binary_expression (binary_expression a (binary_expression b c)) d))",
+            );
+        });
+
+        test("prefix operators bind tighter than binary operators", () => {
+            expect(sexp(parseExpr("-a * b"))).toBe(
+                "(program (binary_expression (unary_expression a) b))",
+            );
+        });
+
+        test("parentheses override precedence", () => {
+            expect(sexp(parseExpr("(a + b) * c"))).toBe(
+                "(program (binary_expression (parenthesized_expression (binary_expression a b)) c))",
+            );
+        });
+
+        test("non-associative operators do not chain", () => {
+            const tree = parseExpr("a < b < c");
+            expect(tree.children[0].type).toBe("binary_expression");
+            expect(tree.children[tree.children.length - 1].type).toBe("ERROR");
+        });
+
+        test("a missing right operand is recovered inside a context", () => {
+            const tree = parseExpr("(a + ) * b");
+            const paren = (tree.children[0].fields.left as SyntaxNode);
+            expect(paren.type).toBe("parenthesized_expression");
+            const inner = paren.children[1];
+            expect(inner.type).toBe("binary_expression");
+            expect((inner.fields.right as SyntaxNode).type).toBe("MISSING");
+        });
+    });
+
+    describe("memoization", () => {
+        // Each alternative re-parses the nested term before failing on the
+        // suffix, so without memoization nesting depth d costs 3^d
+        const nested: LanguageProfile = {
+            ...listProfile,
+            grammar: {
+                entry: "term",
+                rules: {
+                    term: {
+                        alternatives: [
+                            [
+                                { token: "punctuation", value: "(" },
+                                { rule: "term" },
+                                { token: "punctuation", value: ")" },
+                                { token: "punctuation", value: "," },
+                            ],
+                            [
+                                { token: "punctuation", value: "(" },
+                                { rule: "term" },
+                                { token: "punctuation", value: ")" },
+                                { token: "identifier" },
+                            ],
+                            [
+                                { token: "punctuation", value: "(" },
+                                { rule: "term" },
+                                { token: "punctuation", value: ")" },
+                            ],
+                            [{ token: "identifier" }],
+                        ],
+                    },
+                },
+            },
+        };
+        const source = (depth: number) => "(".repeat(depth) + "x" + ")".repeat(depth);
+
+        test("memoized backtracking stays linear", () => {
+            const input = source(200);
+            const result = new GrammarParser(nested.grammar!).parseWithErrors(
+                tokenizeWithProfile(input, nested),
+                input,
+            );
+
+            expect(result.errors).toEqual([]);
+            expect(result.tree.text).toBe(input);
+            expect(result.stats.memoHits).toBeGreaterThan(0);
+            // One computed entry per (rule, token index)
+            expect(result.stats.memoMisses).toBeLessThanOrEqual(401);
+        });
+
+        test("can be turned off", () => {
+            const input = source(4);
+            const tokens = tokenizeWithProfile(input, nested);
+            const plain = new GrammarParser(nested.grammar!, { memoize: false }).parseWithErrors(tokens, input);
+            const memoized = new GrammarParser(nested.grammar!).parseWithErrors(tokens, input);
+
+            expect(plain.stats).toEqual({ memoHits: 0, memoMisses: 0 });
+            expect(sexp(plain.tree)).toBe(sexp(memoized.tree));
+        });
+
+        test("per-parse option overrides the parser's", () => {
+            const input = source(4);
+            const tokens = tokenizeWithProfile(input, nested);
+            const parser = new GrammarParser(nested.grammar!);
+            expect(parser.parseWithErrors(tokens, input, { memoize: false }).stats).toEqual({ memoHits: 0, memoMisses: 0 });
+            expect(
+                new GrammarParser(nested.grammar!, { memoize: false }).parseWithErrors(tokens, input, { memoize: true })
+                    .stats.memoMisses,
+            ).toBeGreaterThan(0);
+            expect(sexp(parseWithProfile(input, nested, { memoize: false })!)).toBe(sexp(parseWithProfile(input, nested)!));
+        });
+
+        test("shared memoized nodes get the parent of the final tree", () => {
+            const tree = parseWithProfile(source(3), nested)!;
+            let node = tree;
+            while (node.children[1]?.type === "term") {
+                expect(node.children[1].parent).toBe(node);
+                node = node.children[1];
+            }
+            expect(node.text).toBe("x");
+        });
+    });
+
+    describe("trivia", () => {
+        const leaves = (node: SyntaxNode): SyntaxNode[] =>
+            node.children.length === 0 ? [node] : node.children.flatMap(leaves);
+
+        test("printTree reproduces the source byte for byte", () => {
+            const sources: Array<[string, string]> = [
+                ['  {\n  "a" : [1,\t2],\n  "b": null\n}\n\n', "json"],
+                ["# config\n[server]   # main\nport = 80\r\n\n[[x]]\n", "toml"],
+                ['{ "a": 1 "b" ] ', "json"],
+                ["  \n", "json"],
+            ];
+            for (const [source, language] of sources) {
+                expect(printTree(parse(source, language, { trivia: true })!)).toBe(source);
+            }
+        });
+
+        test("trailing trivia runs through the end of the line", () => {
+            const source = "[1,  \n\n  2 ]";
+            const tree = parse(source, "json", { trivia: true })!;
+            const [open, one, comma, two, close] = leaves(tree);
+
+            expect(open.leadingTrivia).toEqual([]);
+            expect(one.leadingTrivia).toEqual([]);
+            expect(comma.trailingTrivia!.map((t) => t.value)).toEqual(["  ", "\n"]);
+            expect(two.leadingTrivia!.map((t) => t.value)).toEqual(["\n", "  "]);
+            // Same-line trivia belongs to the token before it
+            expect(two.trailingTrivia!.map((t) => t.value)).toEqual([" "]);
+            expect(close.leadingTrivia).toEqual([]);
+        });
+
+        test("edited leaves print with their formatting intact", () => {
+            const tree = parse('{ "a": 1,  "b": 2 }', "json", { trivia: true })!;
+            const number = leaves(tree).find((leaf) => leaf.text === "2")!;
+            number.text = "42";
+            expect(printTree(tree)).toBe('{ "a": 1,  "b": 42 }');
+        });
+
+        test("trivia is only attached on request", () => {
+            const tree = parse("[ 1 ]", "json")!;
+            expect(leaves(tree).every((leaf) => leaf.leadingTrivia === undefined)).toBe(true);
+            expect(printTree(tree)).toBe("[1]");
+        });
+    });
+});
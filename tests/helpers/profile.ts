@@ -0,0 +1,28 @@
+import type { LanguageProfile, LexerConfig, LexerRule } from "../../src/index.js";
+
+/** A throwaway language for tests: a name, the lexer settings and the rules of its single state. */
+export type TestLanguage = Omit<LexerConfig, "initialState" | "states"> & {
+    name: string;
+    rules: LexerRule[];
+};
+
+/**
+ * Builds a profile for `language` whose lexer has one `default` state.
+ * `rules` are tried before the language's own rules.
+ */
+export function profileWith(language: TestLanguage, rules: LexerRule[] = []): LanguageProfile {
+    const { name, rules: own, ...lexer } = language;
+    return {
+        name,
+        displayName: name,
+        version: "1.0.0",
+        fileExtensions: [`.${name}`],
+        lexer: {
+            ...lexer,
+            initialState: "default",
+            states: {
+                default: { rules: [...rules, ...own] },
+            },
+        },
+    };
+}
@@ -0,0 +1,122 @@
+import {
+    IncrementalDocument,
+    getCompiledLexer,
+    getProfile,
+    tokenize,
+    typescript,
+    type TextEdit,
+} from "../src/index.js";
+
+const source = [
+    "/* header",
+    " * comment */",
+    "const name = `hello ${user}`;",
+    "",
+    "function greet(a: string) {",
+    '  return "hi " + a; // trailing',
+    "}",
+    "",
+].join("\n");
+
+function apply(text: string, edit: TextEdit): string {
+    return text.slice(0, edit.start) + edit.text + text.slice(edit.end);
+}
+
+describe("IncrementalDocument", () => {
+    test("starts with the full token stream", () => {
+        const doc = new IncrementalDocument(source, typescript.lexer);
+        expect(doc.tokens).toEqual(tokenize(source, "typescript"));
+        expect(doc.source).toBe(source);
+    });
+
+    test("an edit inside one line only replaces that line's tokens", () => {
+        const doc = new IncrementalDocument(source, getCompiledLexer(typescript.lexer));
+        const offset = source.indexOf("greet");
+        const change = doc.edit({ start: offset, end: offset + 5, text: "welcome" });
+
+        expect(doc.source).toBe(source.replace("greet", "welcome"));
+        expect(doc.tokens).toEqual(tokenize(doc.source, "typescript"));
+        // Tokens after the edit on the same line moved, so they count as changed
+        const lineEnd = doc.tokens.findIndex((t) => t.range.start.line === 6);
+        expect(change.start).toBe(doc.tokens.findIndex((t) => t.value === "welcome"));
+        expect(change.removed).toBe(change.inserted);
+        expect(change.start + change.inserted).toBe(lineEnd);
+    });
+
+    test("tail tokens are shifted by the inserted lines", () => {
+        const doc = new IncrementalDocument(source, typescript.lexer);
+        doc.edit({ start: 0, end: 0, text: "let x = 1;\n\n" });
+
+        const last = doc.tokens[doc.tokens.length - 2];
+        expect(last.value).toBe("}");
+        expect(last.range.start).toEqual({
+            line: 9,
+            column: 0,
+            offset: doc.source.lastIndexOf("}"),
+        });
+        expect(doc.tokens).toEqual(tokenize(doc.source, "typescript"));
+    });
+
+    test("edits that change the lexer state rescan until it converges", () => {
+        const doc = new IncrementalDocument(source, typescript.lexer);
+        // An unclosed template string puts the rest of the file in its state
+        const offset = source.indexOf("function");
+        const change = doc.edit({ start: offset, end: offset, text: "`" });
+        expect(doc.tokens).toEqual(tokenize(doc.source, "typescript"));
+        expect(doc.tokens[change.start].type).toBe("template_start");
+        expect(change.start + change.inserted).toBe(doc.tokens.length);
+
+        // Removing it again restores the original tokens
+        doc.edit({ start: offset, end: offset + 1, text: "" });
+        expect(doc.tokens).toEqual(tokenize(source, "typescript"));
+    });
+
+    test("closing an unterminated opener later in the document rescans from the opener", () => {
+        const cases: Array<[string, string, string]> = [
+            ["typescript", "a /* b\nc\nd\n", "*/"],
+            ["cpp", "int a; /* b\nc\nd\n", "*/"],
+            ["sql", "SELECT 1; /* b\nc\nd\n", "*/"],
+            ["bash", "cat <<EOF\nhello\nworld\n", "EOF\n"],
+        ];
+        for (const [language, text, closing] of cases) {
+            const doc = new IncrementalDocument(text, getProfile(language)!.lexer);
+            doc.edit({ start: text.length, end: text.length, text: closing });
+            expect(doc.tokens).toEqual(tokenize(text + closing, language));
+
+            // Opening it again leaves the opener unterminated once more
+            doc.edit({ start: text.length, end: text.length + closing.length, text: "" });
+            expect(doc.tokens).toEqual(tokenize(text, language));
+            doc.edit({ start: 0, end: 0, text: "x\n" });
+            doc.edit({ start: doc.source.length, end: doc.source.length, text: closing });
+            expect(doc.tokens).toEqual(tokenize(doc.source, language));
+        }
+    });
+
+    test("random edits always match a full re-tokenization", () => {
+        let seed = 42;
+        const random = (n: number) => {
+            seed = (seed * 1103515245 + 12345) % 2 ** 31;
+            return seed % n;
+        };
+        const snippets = ["\n", "/*", "*/", "`", "${", "}", '"', "x", " ", "// c\n", "\r\n", ""];
+
+        const doc = new IncrementalDocument(source, typescript.lexer);
+        let expected = source;
+        for (let i = 0; i < 300; i++) {
+            const start = random(expected.length + 1);
+            const end = Math.min(expected.length, start + random(6));
+            const edit = { start, end, text: snippets[random(snippets.length)] };
+
+            doc.edit(edit);
+            expected = apply(expected, edit);
+            expect(doc.source).toBe(expected);
+            expect(doc.tokens).toEqual(tokenize(expected, "typescript"));
+        }
+    });
+
+    test("rejects edits outside the document", () => {
+        const doc = new IncrementalDocument("abc", typescript.lexer);
+        expect(() => doc.edit({ start: 2, end: 5, text: "" })).toThrow(RangeError);
+        expect(() => doc.edit({ start: 2, end: 1, text: "" })).toThrow(RangeError);
+    });
+});
@@ -0,0 +1,169 @@
+import {
+    IncrementalDocument,
+    TokenizerStream,
+    createLineTokenizer,
+    python,
+    tokenize,
+    tokenizeWithProfile,
+    validate,
+    validateWithProfile,
+    type LanguageProfile,
+    type Token,
+} from "../src/index.js";
+
+function layout(tokens: Token[]): string[] {
+    return tokens
+        .filter((t) => !["whitespace", "newline"].includes(t.type))
+        .map((t) => (t.type === "indent" || t.type === "dedent" ? t.type.toUpperCase() : t.value));
+}
+
+function withIndentation(unit: "spaces" | "tab" | "detect", size?: number): LanguageProfile {
+    return {
+        ...python,
+        name: `python-${unit}`,
+        lexer: { ...python.lexer, indentation: { indentToken: "indent", dedentToken: "dedent", unit, size } },
+    };
+}
+
+describe("indentation tokens", () => {
+    test("emits indent and dedent around indented blocks", () => {
+        const source = ["if a:", "    b", "    if c:", "        d", "e", ""].join("\n");
+        expect(layout(tokenize(source, "python"))).toEqual([
+            "if", "a", ":", "INDENT", "b", "if", "c", ":", "INDENT", "d", "DEDENT", "DEDENT", "e",
+        ]);
+    });
+
+    test("indent and dedent tokens are zero-width at the line's first token", () => {
+        const tokens = tokenize("if a:\n    b\nc\n", "python");
+        const indent = tokens.find((t) => t.type === "indent")!;
+        const dedent = tokens.find((t) => t.type === "dedent")!;
+
+        expect(indent.value).toBe("");
+        expect(indent.range.start).toEqual({ line: 2, column: 4, offset: 10 });
+        expect(indent.range.end).toEqual(indent.range.start);
+        expect(dedent.range.start).toEqual({ line: 3, column: 0, offset: 12 });
+    });
+
+    test("closes open levels at end of input", () => {
+        const source = "def f():\n    if x:\n        y";
+        const tokens = tokenize(source, "python");
+        expect(layout(tokens).slice(-3)).toEqual(["y", "DEDENT", "DEDENT"]);
+        expect(tokens[tokens.length - 1].range.start.offset).toBe(source.length);
+    });
+
+    test("blank lines, comment lines and bracketed lines do not change indentation", () => {
+        const source = [
+            "def f(a,",
+            "      b):",
+            "    x = [",
+            "  1,",
+            "    ]",
+            "",
+            "# comment",
+            "    y",
+            "z",
+        ].join("\n");
+        expect(layout(tokenize(source, "python")).filter((v) => v === "INDENT" || v === "DEDENT")).toEqual([
+            "INDENT", "DEDENT",
+        ]);
+    });
+
+    test("a dedent between two levels opens a new level", () => {
+        const source = "a:\n        b\n    c\n";
+        expect(layout(tokenize(source, "python"))).toEqual([
+            "a", ":", "INDENT", "b", "DEDENT", "INDENT", "c", "DEDENT",
+        ]);
+    });
+});
+
+describe("indentation units", () => {
+    test("detect: the first indented line picks the unit", () => {
+        const source = "if a:\n\tb\nif c:\n    d\n";
+        const tokens = tokenize(source, "python");
+        const errors = tokens.filter((t) => t.type === "error");
+        expect(errors.map((t) => t.value)).toEqual(["    "]);
+        expect(layout(tokens).filter((v) => v === "INDENT")).toHaveLength(2);
+    });
+
+    test("a line mixing tabs and spaces is an error", () => {
+        const diagnostics = validate("if a:\n \tb\n", "python");
+        expect(diagnostics).toHaveLength(1);
+        expect(diagnostics[0]).toMatchObject({
+            message: "Inconsistent indentation: tabs and spaces are mixed",
+            source: "lexer",
+            range: { start: { line: 2, column: 0 } },
+        });
+    });
+
+    test("spaces: tabs are an error and expand to `size` columns", () => {
+        const profile = withIndentation("spaces", 4);
+        const tokens = tokenizeWithProfile("if a:\n\tb\n    c\n", profile);
+        expect(tokens.filter((t) => t.type === "error")).toHaveLength(1);
+        // One tab and four spaces are the same level
+        expect(layout(tokens.filter((t) => t.type !== "error"))).toEqual([
+            "if", "a", ":", "INDENT", "b", "c", "DEDENT",
+        ]);
+        expect(validateWithProfile("if a:\n    b\n", profile)).toEqual([]);
+    });
+
+    test("tab: spaces are an error", () => {
+        const tokens = tokenizeWithProfile("if a:\n  b\n", withIndentation("tab"));
+        expect(tokens.filter((t) => t.type === "error").map((t) => t.value)).toEqual(["  "]);
+    });
+});
+
+describe("indentation with resumable lexing", () => {
+    const source = [
+        "class A:",
+        "    def f(self):",
+        '        """doc',
+        '  string"""',
+        "        return 1",
+        "",
+        "x = 2",
+        "",
+    ].join("\n");
+
+    test("line tokenizer carries indentation levels between lines", () => {
+        const tokenizer = createLineTokenizer("python");
+        let state = tokenizer.initialState;
+        const tokens: Token[] = [];
+        for (const line of source.split("\n")) {
+            const result = tokenizer.tokenizeLine(line, state);
+            tokens.push(...result.tokens);
+            state = result.endState;
+        }
+        const kinds = (list: Token[]) =>
+            list.filter((t) => t.type === "indent" || t.type === "dedent").map((t) => t.type);
+        // Line mode never reaches the end of the document, so no closing dedents
+        expect(kinds(tokens)).toEqual(kinds(tokenize(source, "python")));
+        expect(state.indent?.levels).toEqual([0]);
+    });
+
+    test("incremental edits keep indent tokens up to date", () => {
+        const doc = new IncrementalDocument(source, python.lexer);
+        const at = source.indexOf("x = 2");
+        doc.edit({ start: at, end: at, text: "    " });
+        expect(doc.tokens).toEqual(tokenize(doc.source, "python"));
+        doc.edit({ start: at, end: at + 4, text: "" });
+        expect(doc.tokens).toEqual(tokenize(source, "python"));
+    });
+
+    test("streamed chunks produce the same tokens", async () => {
+        const stream = new TokenizerStream(python.lexer);
+        const writer = stream.writable.getWriter();
+        const reader = stream.readable.getReader();
+        const collected: Token[] = [];
+        const reading = (async () => {
+            for (;;) {
+                const { done, value } = await reader.read();
+                if (done) break;
+                collected.push(value);
+            }
+        })();
+        for (const chunk of source.match(/[^]{1,5}/g)!) await writer.write(chunk);
+        await writer.close();
+        await reading;
+        expect(collected).toEqual(tokenize(source, "python"));
+    });
+});
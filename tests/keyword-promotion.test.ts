@@ -0,0 +1,117 @@
+import {
+    extractSymbols,
+    resolveProfile,
+    tokenize,
+    tokenizeWithProfile,
+    type KeywordPromotion,
+    type LanguageProfile,
+    type LexerRule,
+} from "../src/index.js";
+import { profileWith, type TestLanguage } from "./helpers/profile.js";
+
+function significant(tokens: Array<{ type: string; value: string }>): string[] {
+    return tokens.filter((t) => t.type !== "whitespace" && t.type !== "newline").map((t) => `${t.type}:${t.value}`);
+}
+
+const promotion: TestLanguage = {
+    name: "promotion",
+    tokenTypes: {
+        keyword: { category: "keyword" },
+        identifier: { category: "identifier" },
+        label: { category: "identifier", subcategory: "label" },
+        type: { category: "type" },
+        constant: { category: "constant" },
+        whitespace: { category: "whitespace" },
+    },
+    skipTokens: ["whitespace"],
+    rules: [
+        { match: { kind: "keywords", words: ["if", "then"] }, token: "keyword" },
+        { match: { kind: "charSequence", first: { chars: "@" }, rest: { predefined: "letter" } }, token: "label" },
+        { match: { kind: "charSequence", first: { predefined: "letter" }, rest: { predefined: "alphanumeric" } }, token: "identifier" },
+        { match: { kind: "charSequence", first: { chars: " " } }, token: "whitespace" },
+    ],
+};
+
+const caseInsensitiveKeywords: LexerRule = {
+    match: { kind: "keywords", words: ["if", "then"], caseInsensitive: true },
+    token: "keyword",
+};
+
+function promoting(keywordPromotion: KeywordPromotion): LanguageProfile {
+    return profileWith({ ...promotion, keywordPromotion });
+}
+
+describe("case-insensitive keywords", () => {
+    test("match in any case and keep the source text", () => {
+        const tokens = tokenizeWithProfile("IF x Then y", profileWith(promotion, [caseInsensitiveKeywords]));
+        expect(significant(tokens)).toEqual(["keyword:IF", "identifier:x", "keyword:Then", "identifier:y"]);
+    });
+
+    test("still respect word boundaries", () => {
+        const tokens = tokenizeWithProfile("IFFY thenx", profileWith(promotion, [caseInsensitiveKeywords]));
+        expect(tokens.filter((t) => t.type === "keyword")).toEqual([]);
+    });
+
+    test("keywords are case-sensitive by default", () => {
+        expect(significant(tokenizeWithProfile("IF if", profileWith(promotion)))).toEqual(["identifier:IF", "keyword:if"]);
+    });
+});
+
+describe("keywordPromotion", () => {
+    test("reclassifies identifiers whose text is listed", () => {
+        const profile = promoting({ to: { type: ["int", "string"], constant: ["nil"] } });
+        expect(significant(tokenizeWithProfile("int x nil stringy", profile))).toEqual([
+            "type:int", "identifier:x", "constant:nil", "identifier:stringy",
+        ]);
+        expect(tokenizeWithProfile("int", profile)[0].category).toBe("type");
+    });
+
+    test("compares case-sensitively unless caseInsensitive", () => {
+        const words = { to: { type: ["Int"] } };
+        expect(tokenizeWithProfile("int", promoting(words))[0].type).toBe("identifier");
+        expect(tokenizeWithProfile("INT", promoting({ ...words, caseInsensitive: true }))[0].type).toBe("type");
+    });
+
+    test("`from` selects the token types that can be promoted", () => {
+        const profile = promoting({ from: ["label"], to: { constant: ["@top"] } });
+        expect(significant(tokenizeWithProfile("@top top", profile))).toEqual(["constant:@top", "identifier:top"]);
+    });
+
+    test("the first listed type wins for a word listed twice", () => {
+        const profile = promoting({ to: { constant: ["x"], type: ["x"] } });
+        expect(tokenizeWithProfile("x", profile)[0].type).toBe("constant");
+    });
+
+    test("is inherited through extends", () => {
+        const base = { ...promoting({ to: { type: ["int"] } }), name: "promotion-base" };
+        const child = resolveProfile(
+            {
+                name: "promotion-child",
+                displayName: "Promotion child",
+                version: "1.0.0",
+                fileExtensions: [".pchild"],
+                extends: "promotion-base",
+                lexer: { tokenTypes: {}, states: {}, initialState: "default" },
+            },
+            new Map([["promotion-base", base]]),
+        );
+        expect(tokenizeWithProfile("int", child)[0].type).toBe("type");
+    });
+});
+
+describe("SQL", () => {
+    const source = "CREATE TABLE Users (id INT, name VarChar(20), ok BOOLEAN DEFAULT TRUE);\nSelect * From users;\n";
+
+    test("keywords, types and constants in any case", () => {
+        const tokens = significant(tokenize(source, "sql"));
+        expect(tokens).toEqual(expect.arrayContaining([
+            "keyword:CREATE", "keyword:TABLE", "type:INT", "type:VarChar", "type:BOOLEAN", "constant:TRUE",
+            "keyword:Select", "keyword:From", "identifier:users",
+        ]));
+    });
+
+    test("symbol patterns ignore case", () => {
+        expect(extractSymbols(source, ".sql")).toMatchObject([{ name: "Users", kind: "table" }]);
+        expect(extractSymbols("Create View v AS select 1;", ".sql")).toMatchObject([{ name: "v", kind: "view" }]);
+    });
+});
@@ -0,0 +1,108 @@
+import {
+    getProfile,
+    tokenize,
+    tokenizeIter,
+    validate,
+    validateTokens,
+} from "../src/index.js";
+
+function codes(source: string, language: string): string[] {
+    return tokenize(source, language, { diagnostics: true }).diagnostics.map((d) => d.code);
+}
+
+describe("tokenize with diagnostics", () => {
+    test("returns tokens and diagnostics only when asked", () => {
+        expect(Array.isArray(tokenize("x", "javascript"))).toBe(true);
+        const result = tokenize("x", "javascript", { diagnostics: true });
+        expect(result.tokens).toEqual(tokenize("x", "javascript"));
+        expect(result.diagnostics).toEqual([]);
+    });
+
+    test("valid sources have no lexer diagnostics", () => {
+        expect(codes("const s = `a ${b} \\` $c\n d`;", "javascript")).toEqual([]);
+        expect(codes("def f():\n    return 'x'\n", "python")).toEqual([]);
+    });
+});
+
+describe("unexpected characters", () => {
+    test("adjacent characters form one error token and one diagnostic", () => {
+        const { tokens, diagnostics } = tokenize('{ "a": @@ }', "json", { diagnostics: true });
+        expect(tokens.filter((t) => t.type === "error").map((t) => t.value)).toEqual(["@@"]);
+        expect(diagnostics).toHaveLength(1);
+        expect(diagnostics[0]).toMatchObject({
+            code: "UNEXPECTED_CHARACTER",
+            message: 'Unexpected characters "@@"',
+            state: "default",
+            range: { start: { offset: 7 }, end: { offset: 9 } },
+        });
+    });
+
+    test("error runs end at line breaks", () => {
+        const errors = tokenize("@\n@", "json").filter((t) => t.type === "error");
+        expect(errors.map((t) => t.value)).toEqual(["@", "@"]);
+    });
+
+    test("lazy tokenization groups error runs the same way", () => {
+        const source = '[1, @@@, "a", @]';
+        expect([...tokenizeIter(source, "json")]).toEqual(tokenize(source, "json"));
+    });
+});
+
+describe("unterminated delimiters", () => {
+    test("a single-line string runs to the end of its line", () => {
+        const { diagnostics } = tokenize('let s = "abc\nlet t = 1;', "javascript", { diagnostics: true });
+        expect(diagnostics).toHaveLength(1);
+        expect(diagnostics[0]).toMatchObject({
+            code: "UNTERMINATED_DELIMITED",
+            message: 'Unterminated string: missing closing """',
+            expected: ['"""'],
+            range: { start: { offset: 8 }, end: { line: 1, column: 12 } },
+        });
+        expect(diagnostics[0].rule).toEqual(expect.any(Number));
+    });
+
+    test("a multiline comment runs to the end of input", () => {
+        const source = "x = 1; /* never closed\ny @ z";
+        const { diagnostics } = tokenize(source, "javascript", { diagnostics: true });
+        expect(diagnostics).toHaveLength(1);
+        expect(diagnostics[0]).toMatchObject({
+            code: "UNTERMINATED_DELIMITED",
+            expected: ['"*/"'],
+            range: { start: { offset: 7 }, end: { offset: source.length } },
+        });
+    });
+
+    test("heredocs report their closing tag", () => {
+        const { diagnostics } = tokenize("cat <<EOF\nbody\n", "bash", { diagnostics: true });
+        expect(diagnostics.map((d) => d.message)).toEqual(['Unterminated string: missing closing "EOF"']);
+    });
+});
+
+describe("unclosed states", () => {
+    test("pushed states open at end of input are reported from where they were entered", () => {
+        const { diagnostics } = tokenize("x = `a ${b", "javascript", { diagnostics: true });
+        expect(diagnostics.map((d) => [d.code, d.state, d.range.start.offset])).toEqual([
+            ["UNCLOSED_STATE", "template_string", 4],
+            ["UNCLOSED_STATE", "template_expr", 7],
+        ]);
+    });
+
+    test("closed states are not reported", () => {
+        expect(codes("<div class=\"a\">x</div>", "html")).toEqual([]);
+        expect(codes("<div class=\"a\"", "html")).toEqual(["UNCLOSED_STATE"]);
+    });
+});
+
+describe("validate", () => {
+    test("includes lexer diagnostics with their codes", () => {
+        const lexer = validate('{ "a": "b }', "json").filter((d) => d.source === "lexer");
+        expect(lexer).toMatchObject([{ code: "UNTERMINATED_DELIMITED", range: { start: { offset: 7 } } }]);
+        expect(validate("if a:\n \tb\n", "python")[0]).toMatchObject({ code: "INCONSISTENT_INDENTATION" });
+    });
+
+    test("validateTokens falls back to error tokens without lexer diagnostics", () => {
+        const tokens = tokenize("[@@]", "json");
+        const lexer = validateTokens(tokens, getProfile("json")!).filter((d) => d.source === "lexer");
+        expect(lexer.map((d) => d.message)).toEqual(['Unexpected characters "@@"']);
+    });
+});
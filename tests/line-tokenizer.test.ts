@@ -0,0 +1,112 @@
+import {
+    LineState,
+    LineTokenizer,
+    createLineTokenizer,
+    tokenize,
+    typescript,
+    type Token,
+} from "../src/index.js";
+
+function tokenizeLines(tokenizer: LineTokenizer, lines: string[]): { tokens: Token[][]; states: LineState[] } {
+    const tokens: Token[][] = [];
+    const states: LineState[] = [];
+    let state = tokenizer.initialState;
+    for (const line of lines) {
+        const result = tokenizer.tokenizeLine(line, state);
+        tokens.push(result.tokens);
+        state = result.endState;
+        states.push(state);
+    }
+    return { tokens, states };
+}
+
+describe("LineTokenizer", () => {
+    test("tokens of a self-contained line match the document tokenizer", () => {
+        const tokenizer = new LineTokenizer(typescript.lexer);
+        const line = 'const x = foo("a", 42); // done';
+        const { tokens, endState } = tokenizer.tokenizeLine(line, tokenizer.initialState);
+
+        expect(tokens).toEqual(tokenize(line, "typescript"));
+        expect(endState.equals(tokenizer.initialState)).toBe(true);
+    });
+
+    test("an unterminated block comment continues on the next lines", () => {
+        const tokenizer = createLineTokenizer("typescript");
+        const { tokens, states } = tokenizeLines(tokenizer, [
+            "let a; /* start",
+            "middle",
+            "",
+            "end */ let b;",
+        ]);
+
+        expect(tokens[0].map((t) => t.value)).toContain("/* start");
+        expect(states[0].open).not.toBeNull();
+        expect(tokens[1]).toHaveLength(1);
+        expect(tokens[1][0]).toMatchObject({ type: "comment", value: "middle" });
+        expect(tokens[2]).toEqual([]);
+        expect(states[2].equals(states[0])).toBe(true);
+
+        expect(tokens[3][0]).toMatchObject({ type: "comment", value: "end */" });
+        expect(tokens[3].map((t) => t.value)).toContain("b");
+        expect(states[3].open).toBeNull();
+        expect(states[3].equals(tokenizer.initialState)).toBe(true);
+    });
+
+    test("template strings carry the state stack across lines", () => {
+        const tokenizer = createLineTokenizer("typescript");
+        const { tokens, states } = tokenizeLines(tokenizer, [
+            "const s = `first",
+            "second ${name}",
+            "third`;",
+        ]);
+
+        expect(states[0].stack.length).toBeGreaterThan(1);
+        expect(states[1].equals(states[0])).toBe(true);
+        expect(tokens[1].map((t) => t.value)).toContain("name");
+        expect(tokens[2].map((t) => t.value)).toContain(";");
+        expect(states[2].equals(tokenizer.initialState)).toBe(true);
+    });
+
+    test("token positions are relative to the line", () => {
+        const tokenizer = createLineTokenizer("typescript");
+        const { tokens } = tokenizer.tokenizeLine("  x", tokenizer.initialState);
+        const x = tokens.find((t) => t.value === "x")!;
+        expect(x.range.start).toEqual({ line: 1, column: 2, offset: 2 });
+    });
+
+    test("line tokens cover the document text", () => {
+        const source = "/* a\n * b */\nconst t = `x\n${y}`;\nlet z = 1; /* c\n*/\n";
+        const lines = source.split("\n");
+        const { tokens } = tokenizeLines(createLineTokenizer("typescript"), lines);
+
+        expect(tokens.map((line) => line.map((t) => t.value).join(""))).toEqual(lines);
+    });
+});
+
+describe("LineState", () => {
+    test("survives a JSON round trip", () => {
+        const tokenizer = createLineTokenizer("typescript");
+        const { endState } = tokenizer.tokenizeLine("/* open", tokenizer.initialState);
+        const restored = LineState.fromJSON(JSON.parse(JSON.stringify(endState)));
+
+        expect(restored.equals(endState)).toBe(true);
+        expect(tokenizer.tokenizeLine("close */", restored)).toEqual(
+            tokenizer.tokenizeLine("close */", endState),
+        );
+    });
+
+    test("compares stack and open delimiter", () => {
+        expect(new LineState(["root"]).equals(new LineState(["root"]))).toBe(true);
+        expect(new LineState(["root"]).equals(new LineState(["root", "x"]))).toBe(false);
+        const open = { state: "root", rule: 2, depth: 1 };
+        expect(new LineState(["root"], open).equals(new LineState(["root"]))).toBe(false);
+        expect(new LineState(["root"], open).equals(new LineState(["root"], { ...open, depth: 2 }))).toBe(false);
+    });
+
+    test("rejects malformed data", () => {
+        expect(() => LineState.fromJSON({ stack: [], open: null })).toThrow(/stack/);
+        expect(() =>
+            LineState.fromJSON({ stack: ["root"], open: { state: "root", rule: 1, depth: 0 } }),
+        ).toThrow(/open/);
+    });
+});
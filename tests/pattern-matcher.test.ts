@@ -0,0 +1,51 @@
+import { tokenize, tokenizeWithProfile, type PatternMatcher } from "../src/index.js";
+import { profileWith, type TestLanguage } from "./helpers/profile.js";
+
+const patterns: TestLanguage = {
+    name: "patterns",
+    tokenTypes: {
+        match: { category: "keyword" },
+        other: { category: "plain" },
+    },
+    rules: [{ match: { kind: "charSequence", first: { predefined: "any" } }, token: "other" }],
+};
+
+function matches(source: string, pattern: PatternMatcher): string[] {
+    return tokenizeWithProfile(source, profileWith(patterns, [{ match: pattern, token: "match" }]))
+        .filter((t) => t.type === "match")
+        .map((t) => t.value);
+}
+
+describe("pattern matcher", () => {
+    test("matches only at the current position", () => {
+        expect(matches("ab1 c22", { kind: "pattern", regex: "\\d+" })).toEqual(["1", "22"]);
+    });
+
+    test("flags", () => {
+        expect(matches("SELECT select", { kind: "pattern", regex: "select", flags: "i" })).toEqual(["SELECT", "select"]);
+        expect(matches("été", { kind: "pattern", regex: "\\p{L}+", flags: "u" })).toEqual(["été"]);
+        expect(matches("a\nb", { kind: "pattern", regex: "a.b", flags: "s" })).toEqual(["a\nb"]);
+    });
+
+    test("lookbehind and anchors see the whole source", () => {
+        expect(matches("$x y", { kind: "pattern", regex: "(?<=\\$)\\w+" })).toEqual(["x"]);
+        expect(matches("#a #b\n#c", { kind: "pattern", regex: "^#\\w", flags: "m" })).toEqual(["#a", "#c"]);
+        expect(matches("#a\n#b", { kind: "pattern", regex: "^#\\w" })).toEqual(["#a"]);
+    });
+
+    test("invalid regexes and flags fail when the profile is compiled", () => {
+        expect(() => matches("x", { kind: "pattern", regex: "(a" })).toThrow(
+            /^Invalid pattern regex \/\(a\/: /,
+        );
+        expect(() => matches("x", { kind: "pattern", regex: "a", flags: "g" })).toThrow(
+            'Unsupported pattern regex flag "g" in /a/g',
+        );
+        expect(() => matches("x", { kind: "pattern", regex: "a", flags: "v" })).toThrow(
+            'Unsupported pattern regex flag "v" in /a/v',
+        );
+    });
+
+    test("HTML doctypes in any case", () => {
+        expect(tokenize("<!doctype html>", "html")[0]).toMatchObject({ type: "doctype", value: "<!doctype html>" });
+    });
+});
@@ -0,0 +1,145 @@
+import { Query, getQueryTree, json, parse, query, typescript } from "../src/index.js";
+
+const texts = (captures: { name: string; text: string }[]) =>
+    captures.map((c) => `${c.name}=${c.text}`);
+
+describe("query", () => {
+    test("captures fields of matching nodes", () => {
+        const captures = query('{ "a": 1, "b": [2, 3] }', "json", "(member key: (string) @key)");
+
+        expect(texts(captures)).toEqual(['key="a"', 'key="b"']);
+        expect(captures[1].range.start.offset).toBe(10);
+        expect(captures[1].node.type).toBe("string");
+    });
+
+    test("child patterns match in order and may skip siblings", () => {
+        const source = '{ "a": [1, "x", 2] }';
+        expect(texts(query(source, "json", '(array (value (number)) @first (value (number)) @second)'))).toEqual([
+            "first=1",
+            "second=2",
+        ]);
+    });
+
+    test("quantifiers capture every repetition", () => {
+        const source = "[1, 2, 3]";
+        expect(texts(query(source, "json", "(array (value)+ @el)"))).toEqual(["el=1", "el=2", "el=3"]);
+        expect(texts(query("[]", "json", "(array (value)* @el) @arr"))).toEqual(["arr=[]"]);
+        expect(query("[]", "json", "(array (value)+ @el)")).toEqual([]);
+    });
+
+    test("alternations, wildcards and anonymous nodes", () => {
+        const source = '[1, "x", true]';
+        expect(texts(query(source, "json", '[(number) (string)] @lit'))).toEqual(["lit=1", 'lit="x"']);
+        expect(texts(query(source, "json", '(array "[" @open (_) "]" @close)'))).toEqual([
+            "open=[",
+            "close=]",
+        ]);
+        // Every child that fits gives a match
+        expect(texts(query(source, "json", "(array _ @any)"))).toEqual([
+            "any=[",
+            "any=1",
+            "any=,",
+            'any="x"',
+            "any=,",
+            "any=true",
+            "any=]",
+        ]);
+    });
+
+    test("a node yields a match for each way its children match", () => {
+        const tree = parse('[true, "x"]', "json")!;
+        const matches = new Query("(array (value) @v)").matches(tree);
+        expect(matches.map((m) => m.captures.map((c) => c.text))).toEqual([["true"], ['"x"']]);
+        // Shorter runs of a quantified child are not matches of their own
+        const runs = new Query("(array (value)* @v)").matches(tree);
+        expect(runs.map((m) => m.captures.map((c) => c.text))).toEqual([["true", '"x"']]);
+    });
+
+    test("anchors", () => {
+        const source = "[1, 2, 3]";
+        expect(texts(query(source, "json", "(array . (value) @first)"))).toEqual(["first=1"]);
+        expect(texts(query(source, "json", "(array (value) @last .)"))).toEqual(["last=3"]);
+        expect(texts(query(source, "json", "(array (value) @a . (value) @b)"))).toEqual([
+            "a=1",
+            "b=2",
+            "a=2",
+            "b=3",
+        ]);
+        expect(() => new Query("(array . !element)")).toThrow(/an anchor must be followed/);
+    });
+
+    test("negated fields require the field to be absent", () => {
+        const tree = parse("[1]", "json")!;
+        expect(new Query("(array !element) @a").captures(tree)).toHaveLength(0);
+        expect(new Query("(object !member) @o").captures(parse("{}", "json")!)).toHaveLength(1);
+    });
+
+    describe("predicates", () => {
+        const source = '{ "a": 1, "b": 2, "c": "b" }';
+
+        test("#eq? and #not-eq? compare capture text", () => {
+            expect(texts(query(source, "json", '((string) @s (#eq? @s "\\"b\\""))'))).toEqual([
+                's="b"',
+                's="b"',
+            ]);
+            expect(texts(query(source, "json", '(member key: (string) @k (#not-eq? @k "\\"a\\""))'))).toEqual([
+                'k="b"',
+                'k="c"',
+            ]);
+        });
+
+        test("#eq? can compare two captures", () => {
+            const captures = query(source, "json", "(object (member value: (value (string) @v)) @m (#eq? @v @v))");
+            expect(captures.map((c) => c.name)).toEqual(["m", "v"]);
+        });
+
+        test("#match?, #not-match? and #any-of?", () => {
+            expect(texts(query(source, "json", '((number) @n (#match? @n "^[2-9]$"))'))).toEqual(["n=2"]);
+            expect(texts(query(source, "json", '((number) @n (#not-match? @n "2"))'))).toEqual(["n=1"]);
+            expect(texts(query(source, "json", '((number) @n (#any-of? @n "1" "3"))'))).toEqual(["n=1"]);
+        });
+
+        test("backtracks into later children when a predicate fails", () => {
+            const captures = query(source, "json", '(object (member key: (string) @k) (#eq? @k "\\"c\\""))');
+            expect(texts(captures)).toEqual(['k="c"']);
+        });
+    });
+
+    test("matches report the pattern index", () => {
+        const q = new Query("(number) @n\n; strings too\n(string) @s");
+        const matches = q.matches(parse('[1, "x"]', "json")!);
+
+        expect(q.patternCount).toBe(2);
+        expect(q.captureNames).toEqual(["n", "s"]);
+        expect(matches.map((m) => m.pattern)).toEqual([0, 1]);
+    });
+
+    test("runs against a symbol view for Level 2 profiles", () => {
+        const source = "class Box {\n  open() {}\n}\nfunction make() {}\n";
+        const tree = getQueryTree(source, typescript)!;
+        expect(tree.type).toBe("document");
+        expect(tree.children.map((c) => c.type)).toEqual(["class_declaration", "function_declaration"]);
+
+        expect(texts(query(source, "typescript", "(function_declaration name: (identifier) @fn.name)"))).toEqual([
+            "fn.name=make",
+        ]);
+        const classes = query(source, ".ts", "(class_declaration) @class");
+        expect(classes[0].text).toBe("class Box {\n  open() {}\n}");
+        expect(classes[0].range.start.line).toBe(1);
+    });
+
+    test("uses the grammar tree when the profile has one", () => {
+        expect(getQueryTree("[]", json)!.type).toBe("document");
+        expect(query("plain text", "plaintext", "(_) @x")).toEqual([]);
+    });
+
+    test("invalid queries throw", () => {
+        expect(() => new Query("(array")).toThrow(/unclosed "\("/);
+        expect(() => new Query("[(number)")).toThrow(/unexpected end of query/);
+        expect(() => new Query("(array) @")).toThrow(/expected a name/);
+        expect(() => new Query('((number) @n (#eq? @m "1"))')).toThrow(/unknown capture "@m"/);
+        expect(() => new Query('((number) @n (#frob? @n "1"))')).toThrow(/unknown predicate/);
+        expect(() => new Query('((number) @n (#match? @n "("))')).toThrow(/bad regular expression/);
+        expect(() => new Query("number")).toThrow(/must be parenthesized/);
+    });
+});
@@ -0,0 +1,178 @@
+import {
+    IncrementalDocument,
+    LineState,
+    createLineTokenizer,
+    javascript,
+    tokenize,
+    tokenizeWithProfile,
+} from "../src/index.js";
+import { profileWith, type TestLanguage } from "./helpers/profile.js";
+
+function significant(source: string, language: string): string[] {
+    return tokenize(source, language)
+        .filter((t) => t.type !== "whitespace" && t.type !== "newline")
+        .map((t) => `${t.type}:${t.value}`);
+}
+
+const conditions: TestLanguage = {
+    name: "conditions",
+    tokenTypes: {
+        keyword: { category: "keyword" },
+        identifier: { category: "identifier" },
+        function_name: { category: "identifier", subcategory: "function" },
+        label: { category: "key" },
+        punctuation: { category: "punctuation" },
+        whitespace: { category: "whitespace" },
+        newline: { category: "newline" },
+    },
+    skipTokens: ["whitespace", "newline"],
+    rules: [
+        { match: { kind: "keywords", words: ["let"] }, token: "keyword" },
+        { match: { kind: "charSequence", first: { predefined: "letter" } }, token: "identifier" },
+        { match: { kind: "string", value: ["(", ")", ":", "="] }, token: "punctuation" },
+        { match: { kind: "charSequence", first: { chars: " \t" } }, token: "whitespace" },
+        { match: { kind: "string", value: "\n" }, token: "newline" },
+    ],
+};
+
+const identifier = { kind: "charSequence", first: { predefined: "letter" } } as const;
+
+describe("regex literals in JavaScript and TypeScript", () => {
+    test.each(["javascript", "typescript"])("%s: `/` after an operand is division", (language) => {
+        expect(significant("a / b / c", language)).toEqual([
+            "identifier:a", "operator:/", "identifier:b", "operator:/", "identifier:c",
+        ]);
+        expect(significant("f(x) / 2 / y", language)).toContain("operator:/");
+        expect(significant("x /= 2", language)).toContain("operator:/=");
+    });
+
+    test.each(["javascript", "typescript"])("%s: `/` where an operand starts is a regex", (language) => {
+        expect(significant("x = /a+b/g;", language)).toContain("regexp:/a+b/g");
+        expect(significant("return /[/]\\//.test(s)", language)).toContain("regexp:/[/]\\//");
+        expect(significant("f(/=/)", language)).toContain("regexp:/=/");
+        expect(significant("/^#/.test(line)", language)[0]).toBe("regexp:/^#/");
+    });
+
+    test("comments and skipped tokens do not count as the previous token", () => {
+        expect(significant("a /* c */ / b", "typescript")).toContain("operator:/");
+        expect(significant("x = // c\n/y/", "javascript")).toContain("regexp:/y/");
+    });
+
+    test("regex tokens have the regexp category", () => {
+        const regexp = tokenize("x = /y/i", "typescript").find((t) => t.type === "regexp");
+        expect(regexp?.category).toBe("regexp");
+    });
+});
+
+describe("lookahead conditions", () => {
+    test("followedBy picks a rule by the text after the token", () => {
+        const profile = profileWith(conditions, [
+            {
+                match: identifier,
+                token: "function_name",
+                followedBy: { kind: "string", value: "(" },
+            },
+        ]);
+        const types = tokenizeWithProfile("f(x) y", profile)
+            .filter((t) => t.type !== "whitespace")
+            .map((t) => t.type);
+        expect(types).toEqual(["function_name", "punctuation", "identifier", "punctuation", "identifier"]);
+    });
+
+    test("notFollowedBy rejects a match and falls through to later rules", () => {
+        const profile = profileWith(conditions, [
+            {
+                match: { kind: "string", value: ":" },
+                token: "label",
+                notFollowedBy: { kind: "string", value: "=" },
+            },
+        ]);
+        const tokens = tokenizeWithProfile("a: b := c", profile).filter((t) => t.type !== "whitespace");
+        expect(tokens.map((t) => `${t.type}:${t.value}`)).toEqual([
+            "identifier:a", "label::", "identifier:b", "punctuation::", "punctuation:=", "identifier:c",
+        ]);
+    });
+
+    test("lookahead does not consume input", () => {
+        const profile = profileWith(conditions, [
+            { match: identifier, token: "function_name", followedBy: { kind: "string", value: "(" } },
+        ]);
+        const tokens = tokenizeWithProfile("f(", profile);
+        expect(tokens.map((t) => t.value)).toEqual(["f", "("]);
+        expect(tokens[1].range.start.offset).toBe(1);
+    });
+});
+
+describe("precededByToken", () => {
+    const profile = profileWith(conditions, [
+        { match: identifier, token: "function_name", precededByToken: { values: ["let"] } },
+    ]);
+
+    test("checks the last significant token", () => {
+        const types = tokenizeWithProfile("let  f = g\nlet\n\th", profile)
+            .filter((t) => t.category === "identifier")
+            .map((t) => `${t.type}:${t.value}`);
+        expect(types).toEqual(["function_name:f", "identifier:g", "function_name:h"]);
+    });
+
+    test("nothing precedes the first token", () => {
+        expect(tokenizeWithProfile("f", profile)[0].type).toBe("identifier");
+        const negated = profileWith(conditions, [
+            { match: identifier, token: "function_name", precededByToken: { negate: true, types: ["keyword"] } },
+        ]);
+        expect(tokenizeWithProfile("f", negated)[0].type).toBe("function_name");
+    });
+});
+
+describe("atLineStart", () => {
+    const profile = profileWith(conditions, [
+        { match: { kind: "string", value: ":" }, token: "label", atLineStart: true },
+    ]);
+
+    test("matches only before any other token on the line", () => {
+        const labels = tokenizeWithProfile(":a b:\n  :c", profile).filter((t) => t.type === "label");
+        expect(labels.map((t) => t.range.start.offset)).toEqual([0, 8]);
+    });
+
+    test("built-in profiles", () => {
+        expect(significant("# Title\ntext # not a heading", "markdown").filter((t) => t.startsWith("heading"))).toEqual([
+            "heading:# ",
+        ]);
+        expect(significant("  #include <x>", "cpp")[0]).toBe("preprocessor:#include <x>");
+    });
+});
+
+describe("token context across resumed scans", () => {
+    test("line tokenizer carries the previous token to the next line", () => {
+        const tokenizer = createLineTokenizer("javascript");
+        const first = tokenizer.tokenizeLine("x = a", tokenizer.initialState);
+        const second = tokenizer.tokenizeLine("/ b / c", first.endState);
+        expect(second.tokens.filter((t) => t.type === "regexp")).toEqual([]);
+
+        const third = tokenizer.tokenizeLine("x =", tokenizer.initialState);
+        const fourth = tokenizer.tokenizeLine("/ b / c", third.endState);
+        expect(fourth.tokens[0]).toMatchObject({ type: "regexp", value: "/ b /" });
+    });
+
+    test("line states with a token context round-trip through JSON", () => {
+        const tokenizer = createLineTokenizer("typescript");
+        const { endState } = tokenizer.tokenizeLine("x = a", tokenizer.initialState);
+        const restored = LineState.fromJSON(JSON.parse(JSON.stringify(endState)));
+        expect(restored.equals(endState)).toBe(true);
+        expect(restored.equals(tokenizer.initialState)).toBe(false);
+        expect(() => LineState.fromJSON({ ...endState.toJSON(), context: "x" })).toThrow(
+            "Invalid line state: malformed token context",
+        );
+    });
+
+    test("incremental edits re-lex lines whose previous token changed", () => {
+        const source = "x = a\n/ b / c\n";
+        const doc = new IncrementalDocument(source, javascript.lexer);
+        doc.edit({ start: 4, end: 5, text: "" });
+        expect(doc.tokens).toEqual(tokenize(doc.source, "javascript"));
+        expect(doc.tokens.some((t) => t.type === "regexp")).toBe(true);
+        doc.edit({ start: 4, end: 4, text: "a" });
+        expect(doc.tokens).toEqual(tokenize(source, "javascript"));
+        expect(doc.tokens.some((t) => t.type === "regexp")).toBe(false);
+    });
+});
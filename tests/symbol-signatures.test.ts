@@ -0,0 +1,216 @@
+import { extractSymbols, extractSymbolsWithProfile, type CodeSymbol, type LanguageProfile } from "../src/index.js";
+
+/** `name: type` per parameter */
+function params(symbol: CodeSymbol): string[] | undefined {
+    return symbol.parameters?.map((p) => (p.type === undefined ? p.name : `${p.name}: ${p.type}`));
+}
+
+function symbolNamed(source: string, language: string, name: string): CodeSymbol {
+    const symbol = extractSymbols(source, language).find((s) => s.name === name);
+    expect(symbol).toBeDefined();
+    return symbol!;
+}
+
+describe("symbol metadata", () => {
+    test("TypeScript functions", () => {
+        const source = [
+            "export async function load<T extends Array<Array<U>>, K = {}>(",
+            "    url: string[],",
+            "    cb: (x: number) => void = noop,",
+            "    ...rest: T[]",
+            "): Promise<{ a: T }> | null {",
+            "    return null;",
+            "}",
+        ].join("\n");
+        const load = symbolNamed(source, "typescript", "load");
+        expect(load).toMatchObject({
+            signature:
+                "export async function load<T extends Array<Array<U>>, K = {}>(url: string[], cb: (x: number) => void = noop, ...rest: T[]): Promise<{ a: T }> | null",
+            modifiers: ["export", "async"],
+            typeParameters: ["T extends Array<Array<U>>", "K = {}"],
+            returnType: "Promise<{ a: T }> | null",
+        });
+        expect(params(load)).toEqual(["url: string[]", "cb: (x: number) => void", "rest: T[]"]);
+        expect(load.parameters![1].range).toMatchObject({ start: { line: 3, column: 4 }, end: { line: 3, column: 34 } });
+        expect(load.contentRange.start).toMatchObject({ line: 1, column: 0 });
+    });
+
+    test("TypeScript classes and arrow functions", () => {
+        const source = [
+            "export default abstract class Repo<T> extends Base<T> implements Store {}",
+            "export const fetchOne = async (id?: string): Promise<void> => {};",
+            "function plain() {}",
+        ].join("\n");
+        const symbols = extractSymbols(source, "typescript");
+        expect(symbols.map((s) => s.name)).toEqual(["Repo", "fetchOne", "plain"]);
+        expect(symbols[0]).toMatchObject({
+            signature: "export default abstract class Repo<T> extends Base<T> implements Store",
+            modifiers: ["export", "default", "abstract"],
+            typeParameters: ["T"],
+        });
+        expect(symbols[1]).toMatchObject({ modifiers: ["export", "async"], returnType: "Promise<void>" });
+        expect(params(symbols[1])).toEqual(["id: string"]);
+        expect(symbols[2]).toEqual({
+            name: "plain",
+            kind: "function",
+            nodeType: "function_declaration",
+            nameRange: symbols[2].nameRange,
+            contentRange: symbols[2].contentRange,
+            signature: "function plain()",
+            parameters: [],
+        });
+    });
+
+    test("Python", () => {
+        const source = [
+            "class A(Base, metaclass=M):",
+            "    async def run(self, a: int = 1, *args, b: Dict[str, int] = {}, **kw) -> Dict[str, int]:",
+            "        pass",
+            "def first[T](",
+            "    xs: list[T],",
+            ") -> T: return xs[0]",
+        ].join("\n");
+        const symbols = extractSymbols(source, "python");
+        expect(symbols.map((s) => s.name)).toEqual(["A", "run", "first"]);
+        expect(symbols[0].signature).toBe("class A(Base, metaclass=M)");
+        expect(symbols[1]).toMatchObject({
+            signature: "async def run(self, a: int = 1, *args, b: Dict[str, int] = {}, **kw) -> Dict[str, int]",
+            modifiers: ["async"],
+            returnType: "Dict[str, int]",
+        });
+        expect(params(symbols[1])).toEqual(["self", "a: int", "args", "b: Dict[str, int]", "kw"]);
+        expect(symbols[2]).toMatchObject({ signature: "def first[T](xs: list[T],) -> T", typeParameters: ["T"], returnType: "T" });
+    });
+
+    test("Go", () => {
+        const source = [
+            "func (r *Reader) Read[K comparable](a, b int, rest ...string) (int, error) {",
+            "\treturn 0, nil",
+            "}",
+            "func Map[T, U any](xs []T, f func(T) U) []U {",
+            "\treturn nil",
+            "}",
+        ].join("\n");
+        const [read, map] = extractSymbols(source, "go");
+        expect(read).toMatchObject({
+            name: "Read",
+            kind: "method",
+            signature: "func (r *Reader) Read[K comparable](a, b int, rest ...string) (int, error)",
+            typeParameters: ["K comparable"],
+            returnType: "(int, error)",
+        });
+        expect(params(read)).toEqual(["a: int", "b: int", "rest: ...string"]);
+        expect(map).toMatchObject({ name: "Map", typeParameters: ["T", "U any"], returnType: "[]U" });
+        expect(params(map)).toEqual(["xs: []T", "f: func(T) U"]);
+    });
+
+    test("C++", () => {
+        const source = [
+            "template <typename T, int N = 3>",
+            "static inline std::vector<T> split(const std::string& s, int n = 0, char* argv[]) const noexcept {",
+            "}",
+            "int Parser::next(int) {",
+            "    int x = compute(1);",
+            "}",
+        ].join("\n");
+        const [split, next] = extractSymbols(source, "cpp");
+        expect(split).toMatchObject({
+            name: "split",
+            modifiers: ["static", "inline", "const", "noexcept"],
+            typeParameters: ["typename T", "int N = 3"],
+            returnType: "std::vector<T>",
+        });
+        expect(params(split)).toEqual(["s: const std::string&", "n: int", "argv: char*[]"]);
+        expect(next).toMatchObject({ name: "next", signature: "int Parser::next(int)", returnType: "int" });
+        expect(params(next)).toEqual([": int"]);
+    });
+
+    test("captured modifiers belong to the declaration, not to a symbol of their own", () => {
+        const ts = "export async function f() {}\nexport { f };\nexport default f;\n";
+        expect(extractSymbols(ts, "typescript").map((s) => `${s.nodeType} ${s.name}`)).toEqual([
+            "function_declaration f",
+            "export_statement export_statement",
+            "export_statement export_statement",
+        ]);
+        const cpp = "template <typename T> T max(T a, T b) { return a; }\ntemplate <typename T> class Box {};\n";
+        expect(extractSymbols(cpp, "cpp").map((s) => `${s.nodeType} ${s.name}`)).toEqual([
+            "function_definition max",
+            "template_declaration template_declaration",
+        ]);
+    });
+
+    test("C++ declarations without a body and function pointer parameters", () => {
+        const source = [
+            "std::map<K, V> build(unsigned long n);",
+            "void sort(int *xs, int (*cmp)(const int *, const int *), int (&arr)[3]);",
+            "void fill(int values[16], char names[][8], int n = 2);",
+            "std::map<K, V> build(unsigned long n) {",
+            "    return {};",
+            "}",
+        ].join("\n");
+        const [declaration, sort, fill, definition] = extractSymbols(source, "cpp");
+        expect([declaration.contentRange.start.line, declaration.contentRange.end.line]).toEqual([1, 1]);
+        expect([definition.name, definition.contentRange.start.line, definition.contentRange.end.line]).toEqual([
+            "build",
+            4,
+            6,
+        ]);
+        expect(params(fill)).toEqual(["values: int[16]", "names: char[][8]", "n: int"]);
+        expect(params(sort)).toEqual(["xs: int *", "cmp: int (*)(const int *, const int *)", "arr: int (&)[3]"]);
+    });
+});
+
+describe("pattern steps", () => {
+    const profile: LanguageProfile = {
+        name: "steps",
+        displayName: "Steps",
+        version: "1.0.0",
+        fileExtensions: [".steps"],
+        lexer: {
+            tokenTypes: {
+                keyword: { category: "keyword" },
+                identifier: { category: "identifier" },
+                punctuation: { category: "punctuation" },
+                whitespace: { category: "whitespace" },
+            },
+            initialState: "default",
+            skipTokens: ["whitespace"],
+            states: {
+                default: {
+                    rules: [
+                        { match: { kind: "keywords", words: ["pub", "fn", "returns"] }, token: "keyword" },
+                        { match: { kind: "charSequence", first: { predefined: "letter" }, rest: { predefined: "letter" } }, token: "identifier" },
+                        { match: { kind: "string", value: ["(", ")", ",", ";"] }, token: "punctuation" },
+                        { match: { kind: "charSequence", first: { chars: " \n" }, rest: { chars: " \n" } }, token: "whitespace" },
+                    ],
+                },
+            },
+        },
+        structure: {
+            blocks: [],
+            symbols: [
+                {
+                    name: "fn",
+                    kind: "function",
+                    pattern: [
+                        { repeat: { token: "keyword", value: "pub", capture: "modifier" } },
+                        { token: "keyword", value: "fn" },
+                        { token: "identifier", capture: "name" },
+                        { group: ["(", ")"], capture: "parameters" },
+                        { optional: [{ token: "keyword", value: "returns" }, { skip: true, capture: "returnType" }, { token: "punctuation", value: ";" }] },
+                    ],
+                    hasBody: false,
+                },
+            ],
+        },
+    };
+
+    test("repeat, group, optional sequences and skip captures", () => {
+        const [a, b] = extractSymbolsWithProfile("pub pub fn a(x, (y, z)) returns some thing;\nfn b() returns", profile);
+        expect(a).toMatchObject({ name: "a", modifiers: ["pub", "pub"], returnType: "some thing" });
+        expect(params(a)).toEqual(["x", "(y, z)"]);
+        expect(b).toMatchObject({ name: "b", parameters: [] });
+        expect(b.returnType).toBeUndefined();
+        expect(b.modifiers).toBeUndefined();
+    });
+});
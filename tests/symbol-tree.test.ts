@@ -0,0 +1,152 @@
+import {
+    buildSymbolHierarchy,
+    extractSymbolTree,
+    extractSymbolTreeWithProfile,
+    extractSymbolsWithProfile,
+    type CodeSymbolNode,
+    type LanguageProfile,
+} from "../src/index.js";
+
+/** `kind name` per symbol, indented by depth */
+function outline(nodes: CodeSymbolNode[], depth = 0): string[] {
+    return nodes.flatMap((node) => [
+        `${"  ".repeat(depth)}${node.kind} ${node.name}`,
+        ...outline(node.children, depth + 1),
+    ]);
+}
+
+const blocksProfile: LanguageProfile = {
+    name: "blocks",
+    displayName: "Blocks",
+    version: "1.0.0",
+    fileExtensions: [".blocks"],
+    lexer: {
+        tokenTypes: {
+            keyword: { category: "keyword" },
+            identifier: { category: "identifier" },
+            punctuation: { category: "punctuation" },
+            whitespace: { category: "whitespace" },
+            newline: { category: "newline" },
+        },
+        initialState: "default",
+        skipTokens: ["whitespace", "newline"],
+        states: {
+            default: {
+                rules: [
+                    { match: { kind: "keywords", words: ["module", "fn"] }, token: "keyword" },
+                    { match: { kind: "charSequence", first: { predefined: "letter" }, rest: { predefined: "alphanumeric" } }, token: "identifier" },
+                    { match: { kind: "string", value: ["{", "}"] }, token: "punctuation" },
+                    { match: { kind: "charSequence", first: { chars: " \t" } }, token: "whitespace" },
+                    { match: { kind: "charSequence", first: { predefined: "newline" } }, token: "newline" },
+                ],
+            },
+        },
+    },
+    structure: {
+        blocks: [{ name: "braces", open: "{", close: "}" }],
+        symbols: [
+            {
+                name: "module",
+                kind: "module",
+                pattern: [{ token: "keyword", value: "module" }, { token: "identifier", capture: "name" }],
+                hasBody: true,
+                bodyStyle: "braces",
+            },
+            {
+                name: "fn",
+                kind: "function",
+                pattern: [{ token: "keyword", value: "fn" }, { token: "identifier", capture: "name" }],
+                hasBody: true,
+                bodyStyle: "braces",
+                nested: false,
+            },
+        ],
+    },
+};
+
+describe("extractSymbolTree", () => {
+    test("nests methods under their class", () => {
+        const source = [
+            "class A:",
+            "    def foo(self):",
+            "        pass",
+            "    def bar(self):",
+            "        def inner():",
+            "            pass",
+            "",
+            "def top():",
+            "    pass",
+            "",
+        ].join("\n");
+        const tree = extractSymbolTree(source, "python");
+        expect(outline(tree)).toEqual([
+            "class A",
+            "  function foo",
+            "  function bar",
+            "    function inner",
+            "function top",
+        ]);
+        expect(tree[0].containerName).toBeUndefined();
+        expect(tree[0].children.map((c) => c.containerName)).toEqual(["A", "A"]);
+        expect(tree[0].children[1].children[0].containerName).toBe("bar");
+    });
+
+    test("keeps the CodeSymbol fields", () => {
+        const [g] = extractSymbolTree("function g() {\n  function h() {}\n}\n", "typescript");
+        expect(g).toMatchObject({ name: "g", kind: "function", nameRange: { start: { line: 1, column: 9 } } });
+        expect(g.children).toMatchObject([{ name: "h", containerName: "g", children: [] }]);
+    });
+
+    test("forward declarations end at their semicolon and contain nothing", () => {
+        const source = [
+            "int helper(int n);",
+            "int other(int a) {",
+            "    return a;",
+            "}",
+            "namespace x {",
+            "int inner() { return 1; }",
+            "}",
+            "int main() {",
+            "    return helper(1);",
+            "}",
+        ].join("\n");
+        const tree = extractSymbolTree(source, "cpp");
+        expect(outline(tree)).toEqual([
+            "function helper",
+            "function other",
+            "namespace x",
+            "  function inner",
+            "function main",
+        ]);
+        expect(tree[0].contentRange.end).toMatchObject({ line: 1, column: 18 });
+    });
+
+    test("buildSymbolHierarchy nests any symbol list by content range", () => {
+        const at = (start: number, end: number) => ({
+            start: { line: 1, column: start, offset: start },
+            end: { line: 1, column: end, offset: end },
+        });
+        const symbols = [
+            { name: "b", kind: "function" as const, nameRange: at(3, 4), contentRange: at(2, 5) },
+            { name: "a", kind: "class" as const, nameRange: at(0, 1), contentRange: at(0, 9) },
+            { name: "c", kind: "function" as const, nameRange: at(10, 11), contentRange: at(10, 12) },
+        ];
+        expect(outline(buildSymbolHierarchy(symbols))).toEqual(["class a", "  function b", "function c"]);
+    });
+});
+
+describe("SymbolRule.nested", () => {
+    const source = "fn top {}\nmodule m {\n  fn hidden {}\n  module inner { fn deeper {} }\n}\n";
+
+    test("nested: false drops symbols inside another symbol", () => {
+        expect(outline(extractSymbolTreeWithProfile(source, blocksProfile))).toEqual([
+            "function top",
+            "module m",
+            "  module inner",
+        ]);
+    });
+
+    test("applies to the flat symbol list too", () => {
+        expect(extractSymbolsWithProfile(source, blocksProfile).map((s) => s.name)).toEqual(["top", "m", "inner"]);
+    });
+});
@@ -0,0 +1,135 @@
+import {
+    TokenizerStream,
+    getCompiledLexer,
+    json,
+    python,
+    tokenize,
+    tokenizeIter,
+    typescript,
+    type Token,
+} from "../src/index.js";
+
+const source = [
+    "/* a block",
+    " * comment */",
+    'const s = "a long string";',
+    "const t = `template ${x}",
+    "continues`;",
+    "let n = 12345; // done",
+    "",
+].join("\r\n");
+
+async function streamTokens(chunks: string[], stream = new TokenizerStream(typescript.lexer)): Promise<Token[]> {
+    const writer = stream.writable.getWriter();
+    const collected: Token[] = [];
+    const reading = (async () => {
+        const reader = stream.readable.getReader();
+        for (;;) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            collected.push(value);
+        }
+    })();
+    for (const chunk of chunks) await writer.write(chunk);
+    await writer.close();
+    await reading;
+    return collected;
+}
+
+describe("tokenizeIter", () => {
+    test("yields the same tokens as tokenize", () => {
+        expect([...tokenizeIter(source, "typescript")]).toEqual(tokenize(source, "typescript"));
+    });
+
+    test("is lazy", () => {
+        const big = "x = 1;\n".repeat(10000);
+        const iterator = tokenizeIter(big, "typescript");
+        const first = iterator.next();
+        expect(first.value).toMatchObject({ value: "x" });
+        iterator.return();
+    });
+
+    test("handles inputs larger than one batch", () => {
+        const big = "[1, 2, 3],\n".repeat(500);
+        expect([...tokenizeIter(big, "json")]).toEqual(tokenize(big, "json"));
+    });
+
+    test("yields nothing for empty input", () => {
+        expect([...tokenizeIter("", "typescript")]).toEqual([]);
+    });
+});
+
+describe("TokenizerStream", () => {
+    test("a single chunk matches tokenize", async () => {
+        expect(await streamTokens([source])).toEqual(tokenize(source, "typescript"));
+    });
+
+    test("tokens spanning chunk boundaries are joined", async () => {
+        const expected = tokenize(source, "typescript");
+        for (let split = 1; split < source.length; split++) {
+            const tokens = await streamTokens([source.slice(0, split), source.slice(split)]);
+            expect(tokens, `split at ${split}`).toEqual(expected);
+        }
+    });
+
+    test("many small chunks match tokenize", async () => {
+        const chunks = source.match(/[^]{1,3}/g)!;
+        expect(await streamTokens(chunks)).toEqual(tokenize(source, "typescript"));
+    });
+
+    test("chunks split inside a token of an indented language match tokenize", async () => {
+        const code = 'def f():\n    """doc\n    more"""\n    x = 1\n';
+        const expected = tokenize(code, "python");
+        expect(await streamTokens([code.slice(0, 13), code.slice(13, 20), code.slice(20)], new TokenizerStream(python.lexer))).toEqual(expected);
+        for (let split = 1; split < code.length; split++) {
+            const tokens = await streamTokens([code.slice(0, split), code.slice(split)], new TokenizerStream(python.lexer));
+            expect(tokens, `split at ${split}`).toEqual(expected);
+        }
+    });
+
+    test("a comment fed one line at a time is scanned in linear time", async () => {
+        const body = Array.from({ length: 2000 }, (_, i) => ` * line ${i}`);
+        const lines = ["let a = 1; /* start", ...body, " */ let b;", ""];
+        const code = lines.join("\n");
+        const lexer = getCompiledLexer(typescript.lexer);
+        const scan = lexer.scan.bind(lexer);
+        let scanned = 0;
+        const spy = vi.spyOn(lexer, "scan").mockImplementation((text, start, tokens, options) => {
+            scanned += text.length - start.offset;
+            return scan(text, start, tokens, options);
+        });
+        try {
+            const chunks = lines.slice(0, -1).map((line) => `${line}\n`);
+            expect(await streamTokens(chunks, new TokenizerStream(lexer))).toEqual(tokenize(code, "typescript"));
+        } finally {
+            spy.mockRestore();
+        }
+        expect(scanned).toBeLessThan(code.length * 4);
+    });
+
+    test("a comment left open at the end matches tokenize", async () => {
+        const code = "let a;\n/* never\n closed\n";
+        const chunks = code.split(/(?<=\n)/);
+        expect(await streamTokens(chunks)).toEqual(tokenize(code, "typescript"));
+    });
+
+    test("emits completed lines before the input ends", async () => {
+        const stream = new TokenizerStream(getCompiledLexer(json.lexer));
+        const writer = stream.writable.getWriter();
+        const reader = stream.readable.getReader();
+
+        void writer.write('{"a": 1,\n"b": ');
+        const { value } = await reader.read();
+        expect(value).toMatchObject({ type: "punctuation", value: "{" });
+
+        void writer.write("2}\n");
+        void writer.close();
+        const rest: Token[] = [value!];
+        for (;;) {
+            const next = await reader.read();
+            if (next.done) break;
+            rest.push(next.value);
+        }
+        expect(rest).toEqual(tokenize('{"a": 1,\n"b": 2}\n', "json"));
+    });
+});
@@ -0,0 +1,148 @@
+import {
+    TreeCursor,
+    descendantForRange,
+    namedChildren,
+    namedDescendantForRange,
+    parse,
+    walk,
+    type SyntaxNode,
+} from "../src/index.js";
+
+const source = '{ "a": [1, 2], "b": true }';
+const tree = () => parse(source, "json")!;
+
+describe("TreeCursor", () => {
+    test("moves between children, siblings and parents", () => {
+        const cursor = new TreeCursor(tree());
+        expect(cursor.currentNode.type).toBe("document");
+        expect(cursor.gotoParent()).toBe(false);
+        expect(cursor.gotoNextSibling()).toBe(false);
+
+        expect(cursor.gotoFirstChild()).toBe(true); // value
+        expect(cursor.gotoFirstChild()).toBe(true); // object
+        expect(cursor.gotoFirstChild()).toBe(true); // "{"
+        expect(cursor.currentNode.text).toBe("{");
+        expect(cursor.depth).toBe(3);
+
+        expect(cursor.gotoNextSibling()).toBe(true);
+        expect(cursor.currentNode.type).toBe("member");
+        expect(cursor.gotoPreviousSibling()).toBe(true);
+        expect(cursor.currentNode.text).toBe("{");
+
+        expect(cursor.gotoParent()).toBe(true);
+        expect(cursor.currentNode.type).toBe("object");
+        expect(cursor.gotoLastChild()).toBe(true);
+        expect(cursor.currentNode.text).toBe("}");
+        expect(cursor.gotoNextSibling()).toBe(false);
+    });
+
+    test("reports the field name of the current node", () => {
+        const cursor = new TreeCursor(tree());
+        cursor.gotoFirstChild();
+        cursor.gotoFirstChild();
+        cursor.gotoFirstChild();
+        cursor.gotoNextSibling(); // member
+        expect(cursor.currentFieldName).toBeNull();
+
+        cursor.gotoFirstChild();
+        expect(cursor.currentFieldName).toBe("key");
+        cursor.gotoNextSibling();
+        expect(cursor.currentFieldName).toBeNull(); // ":"
+    });
+
+    test("gotoFirstChildForOffset finds the child at or after an offset", () => {
+        const cursor = new TreeCursor(tree().children[0].children[0]);
+        expect(cursor.gotoFirstChildForOffset(source.indexOf("true"))).toBe(true);
+        expect(cursor.currentNode.text).toBe('"b": true');
+
+        cursor.reset(tree());
+        expect(cursor.gotoFirstChildForOffset(source.length)).toBe(false);
+        expect(cursor.currentNode.type).toBe("document");
+    });
+
+    test("never walks above the node it was created on", () => {
+        const member = tree().children[0].children[0].children[1];
+        const cursor = new TreeCursor(member);
+        expect(cursor.gotoNextSibling()).toBe(false);
+        expect(cursor.gotoParent()).toBe(false);
+    });
+});
+
+describe("tree utilities", () => {
+    test("walk visits nodes in document order with enter and leave", () => {
+        const events: string[] = [];
+        walk(parse("[1]", "json")!, {
+            enter: (node, depth) => {
+                events.push(`+${node.type}@${depth}`);
+            },
+            leave: (node) => {
+                events.push(`-${node.type}`);
+            },
+        });
+        expect(events).toEqual([
+            "+document@0",
+            "+value@1",
+            "+array@2",
+            "+punctuation@3",
+            "-punctuation",
+            "+value@3",
+            "+number@4",
+            "-number",
+            "-value",
+            "+punctuation@3",
+            "-punctuation",
+            "-array",
+            "-value",
+            "-document",
+        ]);
+    });
+
+    test("returning false from enter skips the children", () => {
+        const seen: string[] = [];
+        walk(tree(), {
+            enter: (node) => {
+                seen.push(node.type);
+                return node.type !== "member";
+            },
+        });
+        expect(seen).not.toContain("string");
+        expect(seen.filter((t) => t === "member")).toHaveLength(2);
+    });
+
+    test("namedChildren drops anonymous tokens", () => {
+        const object = tree().children[0].children[0];
+        expect(namedChildren(object).map((c) => c.type)).toEqual(["member", "member"]);
+    });
+
+    test("descendantForRange returns the smallest spanning node", () => {
+        const root = tree();
+        const offset = source.indexOf("2");
+        expect(descendantForRange(root, offset)!.type).toBe("number");
+        expect(descendantForRange(root, source.indexOf(","))!.text).toBe(",");
+        expect(namedDescendantForRange(root, source.indexOf(","))!.type).toBe("array");
+        // At the end of the input the last node still counts
+        expect(descendantForRange(root, source.length)!.text).toBe("}");
+
+        const array = descendantForRange(root, source.indexOf("1"), offset + 1) as SyntaxNode;
+        expect(array.type).toBe("array");
+        expect(descendantForRange(root, 0, source.length + 5)).toBeNull();
+    });
+
+    test("walk handles deep trees without recursion", () => {
+        const depth = 20000;
+        let root: SyntaxNode = {
+            type: "leaf",
+            isNamed: true,
+            fields: {},
+            children: [],
+            text: "",
+            range: { start: { line: 1, column: 0, offset: 0 }, end: { line: 1, column: 0, offset: 0 } },
+            parent: null,
+        };
+        for (let i = 0; i < depth; i++) root = { ...root, type: "wrap", children: [root] };
+
+        let count = 0;
+        walk(root, { enter: () => void count++ });
+        expect(count).toBe(depth + 1);
+    });
+});
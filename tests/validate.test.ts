@@ -0,0 +1,139 @@
+import { validate } from "../src/index.js";
+
+describe("validate", () => {
+    test("valid sources produce no diagnostics", () => {
+        expect(validate('{ "a": [1, 2], "b": null }', "json")).toEqual([]);
+        expect(validate("function f() { return [1, (2)]; }", "javascript")).toEqual([]);
+    });
+
+    test("reports grammar errors with expected tokens", () => {
+        const diagnostics = validate('{ "a": 1 "b": 2 }', "json");
+        const grammar = diagnostics.filter((d) => d.source === "grammar");
+
+        expect(grammar).toHaveLength(1);
+        expect(grammar[0].severity).toBe("error");
+        expect(grammar[0].message).toBe('Unexpected "b"');
+        expect(grammar[0].expected).toEqual(['"}"']);
+        expect(grammar[0].range.start.offset).toBe(9);
+    });
+
+    test("reports unbalanced blocks", () => {
+        const source = "function f() {\n  call(1;\n";
+        const diagnostics = validate(source, "javascript");
+
+        expect(diagnostics.map((d) => [d.source, d.message])).toEqual([
+            ["blocks", 'Unclosed "{"'],
+            ["blocks", 'Unclosed "("'],
+        ]);
+        expect(diagnostics[1].expected).toEqual(['")"']);
+        expect(diagnostics[1].range.start.line).toBe(2);
+    });
+
+    test("a problem found by both the blocks and the grammar is reported once", () => {
+        expect(validate('{"a": 1', "json").map((d) => [d.source, d.message])).toEqual([["blocks", 'Unclosed "{"']]);
+        expect(validate('{"a": [1, 2}', "json").map((d) => [d.source, d.message])).toEqual([
+            ["blocks", 'Unclosed "["'],
+        ]);
+        expect(validate("[1]]", "json").map((d) => [d.source, d.message])).toEqual([["blocks", 'Unmatched "]"']]);
+    });
+
+    test("reports unmatched closing delimiters", () => {
+        const diagnostics = validate("x = 1 }\n", "python");
+        expect(diagnostics).toHaveLength(1);
+        expect(diagnostics[0].message).toBe('Unmatched "}"');
+    });
+
+    test("reports lexer error tokens", () => {
+        const diagnostics = validate('{ "a": @ }', "json");
+        const lexer = diagnostics.filter((d) => d.source === "lexer");
+
+        expect(lexer).toHaveLength(1);
+        expect(lexer[0].message).toBe('Unexpected character "@"');
+        expect(lexer[0].range.start.column).toBe(7);
+    });
+
+    test("diagnostics are sorted by position", () => {
+        const diagnostics = validate('[1, @, {"a" 2]', "json");
+        const offsets = diagnostics.map((d) => d.range.start.offset);
+        expect(offsets).toEqual([...offsets].sort((a, b) => a - b));
+        expect(new Set(diagnostics.map((d) => d.source))).toEqual(
+            new Set(["lexer", "blocks", "grammar"]),
+        );
+    });
+
+    describe("toml", () => {
+        const messages = (source: string) =>
+            validate(source, "toml").map((d) => [d.source, d.message]);
+
+        test("valid documents produce no diagnostics", () => {
+            const source = [
+                'title = "app"',
+                "[server]",
+                "ports = [",
+                "  8080,",
+                "  8081,",
+                "]",
+                'limits = { cpu = 2, "mem" = "1G" }',
+                "[server.tls]",
+                "[[plugins]]",
+                'name = "a"',
+                "[[plugins]]",
+                'name = "b"',
+                "[fruit]",
+                'apple.color = "red"',
+                "[fruit.apple.texture]",
+                "",
+            ].join("\n");
+            expect(validate(source, "toml")).toEqual([]);
+        });
+
+        test("reports duplicate keys", () => {
+            const diagnostics = validate('a = 1\n"a" = 2\n', "toml");
+            expect(diagnostics).toHaveLength(1);
+            expect(diagnostics[0].source).toBe("semantic");
+            expect(diagnostics[0].message).toBe('Duplicate key "a"');
+            expect(diagnostics[0].range.start.line).toBe(2);
+
+            expect(messages("t = { a = 1, a = 2 }\n")).toEqual([
+                ["semantic", 'Duplicate key "a"'],
+            ]);
+            expect(messages("t = { a = 1 }\nt.b = 2\n")).toEqual([
+                ["semantic", 'Duplicate key "t"'],
+            ]);
+        });
+
+        test("reports invalid table redefinitions", () => {
+            expect(messages("[a]\nx = 1\n[a]\n")).toEqual([
+                ["semantic", 'Table "a" is already defined'],
+            ]);
+            expect(messages("a.b = 1\n[a]\n")).toEqual([
+                ["semantic", 'Table "a" is already defined'],
+            ]);
+            expect(messages("x = 1\n[[x]]\n")).toEqual([
+                ["semantic", 'Table "x" is already defined'],
+            ]);
+            // Implicitly created parents may be defined once, later
+            expect(messages("[a.b]\n[a]\n")).toEqual([]);
+        });
+
+        test("reports trailing commas in inline tables", () => {
+            expect(messages("d = { x = 1, }\n")).toEqual([
+                ["grammar", 'Trailing "," is not allowed'],
+            ]);
+        });
+
+        test("an error on one line does not hide later lines", () => {
+            expect(messages("a = 1 b = 2\nc = \na = 3\n")).toEqual([
+                ["grammar", 'Unexpected "b"'],
+                ["grammar", expect.stringMatching(/^Missing /)],
+                ["semantic", 'Duplicate key "a"'],
+            ]);
+        });
+    });
+
+    test("reports trailing commas in json", () => {
+        expect(validate("[1, 2,]", "json").map((d) => d.message)).toEqual([
+            'Trailing "," is not allowed',
+        ]);
+    });
+});